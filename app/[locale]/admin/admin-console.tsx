@@ -0,0 +1,883 @@
+/**
+ * Admin console for manual price entry and corrections
+ *
+ * Features:
+ * - Pick the collection to work on (food_prices_en or food_prices_kh),
+ *   independently of the page's language
+ * - Browse its records newest first, filtered by place and item
+ * - Enter a record, or correct one, in a form checked before it is sent;
+ *   the server's own checks are shown next to the fields they concern
+ * - Failed loads, saves and deletes show the API's error at the top
+ * - Delete a record (it stays stored, out of every query), giving a reason
+ * - Read the audit log of every change, or of one record, with the old and
+ *   new value of each changed field
+ */
+"use client";
+
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useLocale, useTranslations } from "next-intl";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+type Province = {
+  id: string;
+  name: string;
+  districts: { id: string; name: string; markets: { id: string; name: string }[] }[];
+};
+
+type Item = { id: string; name: string; unit: string };
+
+/** A record as listed by /api/admin/prices */
+type RecordRow = {
+  id: string;
+  itemId: string;
+  item: string;
+  unit: string;
+  price: number;
+  currency: string;
+  date: string;
+  province: string;
+  district: string;
+  marketId: string;
+  market: string;
+};
+
+/** A record as /api/admin/prices/:id returns it for editing */
+type AdminRecord = {
+  id: string;
+  marketId: string;
+  itemId: string;
+  unit: string;
+  date: string;
+  price: number;
+  currency: string;
+  pricetype: string;
+  editedAt: string | null;
+};
+
+type AuditEntry = {
+  id: string;
+  at: string;
+  user: string;
+  action: "create" | "update" | "delete";
+  locale: string;
+  recordId: string;
+  reason: string | null;
+  before: Record<string, string | number> | null;
+  after: Record<string, string | number>;
+  changes: string[];
+};
+
+type FormValues = {
+  marketId: string;
+  itemId: string;
+  unit: string;
+  date: string;
+  price: string;
+  currency: string;
+  pricetype: string;
+  reason: string;
+};
+
+type FieldErrors = Partial<Record<keyof FormValues, string>>;
+
+/** Records per page of the records table */
+const PAGE_SIZE = 50;
+
+/** Audit entries per page */
+const AUDIT_PAGE_SIZE = 20;
+
+const MAX_REASON_LENGTH = 500;
+
+const EMPTY_FORM: FormValues = {
+  marketId: "",
+  itemId: "",
+  unit: "",
+  date: "",
+  price: "",
+  currency: "KHR",
+  pricetype: "Retail",
+  reason: "",
+};
+
+/**
+ * Read the error of a refused API request: its message, with the refused
+ * fields the form doesn't show listed after it, and the ones it does by field
+ */
+async function readFailure(res: Response, fallback: string): Promise<{ text: string; fields: FieldErrors }> {
+  const data = await res.json().catch(() => ({}));
+  const refused: { field: string; message: string }[] = Array.isArray(data.fields) ? data.fields : [];
+  const fields: FieldErrors = {};
+  const unshown: string[] = [];
+  refused.forEach((f) => {
+    if (f.field in EMPTY_FORM) fields[f.field as keyof FormValues] = f.message;
+    else unshown.push(`${f.field} ${f.message}`);
+  });
+  const error = typeof data.error === "string" ? data.error : fallback;
+  return { text: unshown.length ? `${error}: ${unshown.join("; ")}` : error, fields };
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export default function AdminConsole({ user }: { user: string }) {
+  const t = useTranslations('admin');
+  const locale = useLocale();
+  const router = useRouter();
+
+  // Collection being edited: en = food_prices_en, km = food_prices_kh
+  const [dataset, setDataset] = useState(locale);
+  const [provinces, setProvinces] = useState<Province[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+
+  // Records table filters and page
+  const [provinceId, setProvinceId] = useState("");
+  const [districtId, setDistrictId] = useState("");
+  const [marketId, setMarketId] = useState("");
+  const [itemId, setItemId] = useState("");
+  const [page, setPage] = useState(1);
+  const [rows, setRows] = useState<RecordRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  // Record form: editingId is null when entering a new record
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<FormValues>(EMPTY_FORM);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [saving, setSaving] = useState(false);
+
+  // Audit log, optionally of one record
+  const [auditRecordId, setAuditRecordId] = useState<string | null>(null);
+  const [auditPage, setAuditPage] = useState(1);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [auditTotal, setAuditTotal] = useState(0);
+
+  const [message, setMessage] = useState<{ kind: "success" | "error"; text: string } | null>(null);
+  // Bumped after every change so the table and the log reload
+  const [version, setVersion] = useState(0);
+
+  const numberFormat = useMemo(() => new Intl.NumberFormat("en-KH", { maximumFractionDigits: 2 }), []);
+
+  // Helper to send an admin API request; an expired session goes back to sign-in
+  const request = useCallback(async (url: string, init?: RequestInit) => {
+    const res = await fetch(url, { cache: "no-store", ...init });
+    if (res.status === 401) {
+      router.replace(`/${locale}/admin/login`);
+      throw new Error('Signed out');
+    }
+    return res;
+  }, [locale, router]);
+
+  // ---------------------------------------------------------------------------
+  // EFFECT: Load the places and items of the collection
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    async function loadFilters() {
+      try {
+        const res = await fetch(`/api/filters?locale=${dataset}`);
+        if (!res.ok) return;
+        const data = await res.json();
+        setProvinces(data.provinces || []);
+        setItems(data.items || []);
+      } catch (error) {
+        console.error('Error loading filters:', error);
+      }
+    }
+    loadFilters();
+  }, [dataset]);
+
+  // ---------------------------------------------------------------------------
+  // EFFECT: Load a page of records when the filters, page or data change
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    async function loadRecords() {
+      setLoading(true);
+      try {
+        const query = new URLSearchParams({ locale: dataset, page: String(page), pageSize: String(PAGE_SIZE) });
+        if (provinceId) query.append("province", provinceId);
+        if (districtId) query.append("district", districtId);
+        if (marketId) query.append("market", marketId);
+        if (itemId) query.append("item", itemId);
+        const res = await request(`/api/admin/prices?${query.toString()}`);
+        if (!res.ok) {
+          setMessage({ kind: "error", text: (await readFailure(res, t('recordsFailed'))).text });
+          return;
+        }
+        const data = await res.json();
+        setRows(data.data || []);
+        setTotal(data.total ?? 0);
+      } catch (error) {
+        console.error('Error loading records:', error);
+        setMessage({ kind: "error", text: t('recordsFailed') });
+      } finally {
+        setLoading(false);
+      }
+    }
+    loadRecords();
+  }, [dataset, provinceId, districtId, marketId, itemId, page, version, request, t]);
+
+  // ---------------------------------------------------------------------------
+  // EFFECT: Load a page of the audit log
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    async function loadAudit() {
+      try {
+        const query = new URLSearchParams({ page: String(auditPage), pageSize: String(AUDIT_PAGE_SIZE) });
+        if (auditRecordId) {
+          query.append("locale", dataset);
+          query.append("recordId", auditRecordId);
+        }
+        const res = await request(`/api/admin/audit?${query.toString()}`);
+        if (!res.ok) {
+          setMessage({ kind: "error", text: (await readFailure(res, t('auditFailed'))).text });
+          return;
+        }
+        const data = await res.json();
+        setAuditEntries(data.data || []);
+        setAuditTotal(data.total ?? 0);
+      } catch (error) {
+        console.error('Error loading the audit log:', error);
+        setMessage({ kind: "error", text: t('auditFailed') });
+      }
+    }
+    loadAudit();
+  }, [dataset, auditRecordId, auditPage, version, request, t]);
+
+  // ---------------------------------------------------------------------------
+  // DERIVED DATA: Filter options
+  // ---------------------------------------------------------------------------
+  const districts = useMemo(() => provinces.find((p) => p.id === provinceId)?.districts ?? [], [provinces, provinceId]);
+  const markets = useMemo(
+    () => (districtId ? districts.filter((d) => d.id === districtId) : districts).flatMap((d) => d.markets),
+    [districts, districtId]
+  );
+  // Every market of the collection, labelled with its place, for the form
+  const allMarkets = useMemo(
+    () => provinces.flatMap((p) => p.districts.flatMap((d) => d.markets.map((m) => ({
+      value: m.id,
+      label: `${m.name} (${d.name}, ${p.name})`,
+    })))),
+    [provinces]
+  );
+  const itemOptions = useMemo(
+    () => [...new Map(items.map((i) => [i.id, { value: i.id, label: i.name }])).values()],
+    [items]
+  );
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const auditPages = Math.max(1, Math.ceil(auditTotal / AUDIT_PAGE_SIZE));
+
+  // ---------------------------------------------------------------------------
+  // HANDLERS
+  // ---------------------------------------------------------------------------
+  const switchDataset = (next: string) => {
+    setDataset(next);
+    setProvinceId("");
+    setDistrictId("");
+    setMarketId("");
+    setItemId("");
+    setPage(1);
+    setAuditRecordId(null);
+    setAuditPage(1);
+    setFormOpen(false);
+  };
+
+  const openNewRecord = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, marketId, itemId, unit: items.find((i) => i.id === itemId)?.unit ?? "" });
+    setFieldErrors({});
+    setFormOpen(true);
+  };
+
+  const openRecord = async (id: string) => {
+    try {
+      const res = await request(`/api/admin/prices/${encodeURIComponent(id)}?locale=${dataset}`);
+      if (!res.ok) {
+        setMessage({ kind: "error", text: (await readFailure(res, t('loadFailed'))).text });
+        return;
+      }
+      const record: AdminRecord = await res.json();
+      setEditingId(record.id);
+      setForm({
+        marketId: record.marketId,
+        itemId: record.itemId,
+        unit: record.unit,
+        date: record.date,
+        price: String(record.price),
+        currency: record.currency,
+        pricetype: record.pricetype,
+        reason: "",
+      });
+      setFieldErrors({});
+      setFormOpen(true);
+    } catch (error) {
+      console.error('Error loading record:', error);
+      setMessage({ kind: "error", text: t('loadFailed') });
+    }
+  };
+
+  // Helper to check the form the way the server does, so most mistakes show before sending
+  const validate = (values: FormValues): FieldErrors => {
+    const errors: FieldErrors = {};
+    if (!values.marketId) errors.marketId = t('required');
+    if (!values.itemId) errors.itemId = t('required');
+    if (!values.unit.trim()) errors.unit = t('required');
+    if (!values.date) errors.date = t('required');
+    else if (values.date > new Date().toISOString().slice(0, 10)) errors.date = t('futureDate');
+    const price = Number(values.price);
+    if (!values.price.trim() || !Number.isFinite(price) || price <= 0) errors.price = t('positivePrice');
+    if (values.reason.length > MAX_REASON_LENGTH) errors.reason = t('reasonTooLong', { max: MAX_REASON_LENGTH });
+    return errors;
+  };
+
+  const saveRecord = async (event: FormEvent) => {
+    event.preventDefault();
+    const errors = validate(form);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length) return;
+
+    setSaving(true);
+    try {
+      const res = await request(
+        editingId ? `/api/admin/prices/${encodeURIComponent(editingId)}?locale=${dataset}` : `/api/admin/prices?locale=${dataset}`,
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...form, unit: form.unit.trim(), price: Number(form.price), reason: form.reason.trim() || undefined }),
+        }
+      );
+      if (!res.ok) {
+        // The server names the fields it refused
+        const failure = await readFailure(res, t('saveFailed'));
+        setFieldErrors(failure.fields);
+        setMessage({ kind: "error", text: failure.text });
+        return;
+      }
+      setMessage({ kind: "success", text: editingId ? t('recordUpdated') : t('recordCreated') });
+      setFormOpen(false);
+      setVersion((v) => v + 1);
+    } catch (error) {
+      console.error('Error saving record:', error);
+      setMessage({ kind: "error", text: t('saveFailed') });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeRecord = async (row: RecordRow) => {
+    const reason = window.prompt(t('deletePrompt', { item: row.item, market: row.market, date: row.date }));
+    if (reason === null) return;
+    try {
+      const query = new URLSearchParams({ locale: dataset });
+      if (reason.trim()) query.append("reason", reason.trim().slice(0, MAX_REASON_LENGTH));
+      const res = await request(`/api/admin/prices/${encodeURIComponent(row.id)}?${query.toString()}`, { method: "DELETE" });
+      if (!res.ok) {
+        setMessage({ kind: "error", text: (await readFailure(res, t('deleteFailed'))).text });
+        return;
+      }
+      setMessage({ kind: "success", text: t('recordDeleted') });
+      if (editingId === row.id) setFormOpen(false);
+      setVersion((v) => v + 1);
+    } catch (error) {
+      console.error('Error deleting record:', error);
+      setMessage({ kind: "error", text: t('deleteFailed') });
+    }
+  };
+
+  const signOut = async () => {
+    await fetch("/api/admin/session", { method: "DELETE" }).catch(() => undefined);
+    router.replace(`/${locale}/admin/login`);
+  };
+
+  const setField = (name: keyof FormValues, value: string) => {
+    setForm((current) => ({ ...current, [name]: value }));
+  };
+
+  // ===========================================================================
+  // RENDER
+  // ===========================================================================
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 text-slate-800">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8 px-6 py-12">
+
+        {/* -------------------------------------------------------------------
+            HEADER SECTION: Title, collection switch and sign-out
+        ------------------------------------------------------------------- */}
+        <header className="flex flex-col gap-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <Link href={`/${locale}`} className="text-sm text-cyan-700 hover:underline">← {t('backToDashboard')}</Link>
+            <div className="flex items-center gap-3 text-sm text-slate-600">
+              <span>{t('signedInAs', { user })}</span>
+              <button
+                type="button"
+                onClick={signOut}
+                className="rounded-full bg-slate-100 px-4 py-1.5 text-sm font-medium text-slate-500 ring-1 ring-slate-200 transition hover:text-slate-800"
+              >
+                {t('signOut')}
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <div>
+              <p className="text-sm uppercase tracking-[0.2em] text-cyan-600">{t('console')}</p>
+              <h1 className="text-3xl font-semibold tracking-tight text-slate-900">{t('title')}</h1>
+              <p className="text-sm text-slate-600">{t('subtitle')}</p>
+            </div>
+            <div className="inline-flex items-center rounded-full bg-slate-100 p-1 ring-1 ring-slate-200" title={t('dataset')}>
+              {(["en", "km"] as const).map((code) => (
+                <button
+                  key={code}
+                  className={`px-4 py-1.5 text-sm font-medium rounded-full transition-all duration-200 ${
+                    dataset === code
+                      ? 'bg-cyan-500 text-white shadow-lg shadow-cyan-500/25'
+                      : 'text-slate-500 hover:text-slate-800'
+                  }`}
+                  onClick={() => switchDataset(code)}
+                >
+                  {code === "en" ? "food_prices_en" : "food_prices_kh"}
+                </button>
+              ))}
+            </div>
+          </div>
+          {message && (
+            <p
+              role="status"
+              className={`rounded-xl px-4 py-2 text-sm ring-1 ${
+                message.kind === "success" ? "bg-green-50 text-green-700 ring-green-200" : "bg-red-50 text-red-600 ring-red-200"
+              }`}
+            >
+              {message.text}
+            </p>
+          )}
+        </header>
+
+        {/* -------------------------------------------------------------------
+            RECORD FORM: Entry or correction of one record
+        ------------------------------------------------------------------- */}
+        {formOpen && (
+          <form onSubmit={saveRecord} noValidate className="rounded-2xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+            <h2 className="text-base font-semibold text-slate-900">
+              {editingId ? t('editRecord', { id: editingId }) : t('newRecord')}
+            </h2>
+            <div className="mt-3 grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+              <FormSelect
+                label={t('market')}
+                value={form.marketId}
+                options={allMarkets}
+                placeholder={t('choose')}
+                error={fieldErrors.marketId}
+                onChange={(value) => setField("marketId", value)}
+              />
+              <FormSelect
+                label={t('item')}
+                value={form.itemId}
+                options={itemOptions}
+                placeholder={t('choose')}
+                error={fieldErrors.itemId}
+                onChange={(value) => {
+                  setField("itemId", value);
+                  // Suggest the item's usual unit when none is set yet
+                  if (!form.unit) setField("unit", items.find((i) => i.id === value)?.unit ?? "");
+                }}
+              />
+              <FormInput label={t('unit')} value={form.unit} error={fieldErrors.unit} onChange={(value) => setField("unit", value)} />
+              <FormInput
+                label={t('date')}
+                type="date"
+                value={form.date}
+                max={new Date().toISOString().slice(0, 10)}
+                error={fieldErrors.date}
+                onChange={(value) => setField("date", value)}
+              />
+              <FormInput
+                label={t('price')}
+                type="number"
+                value={form.price}
+                min="0"
+                step="any"
+                error={fieldErrors.price}
+                onChange={(value) => setField("price", value)}
+              />
+              <FormSelect
+                label={t('currency')}
+                value={form.currency}
+                options={["KHR", "USD"].map((c) => ({ value: c, label: c }))}
+                error={fieldErrors.currency}
+                onChange={(value) => setField("currency", value)}
+              />
+              <FormSelect
+                label={t('priceType')}
+                value={form.pricetype}
+                options={["Retail", "Wholesale"].map((p) => ({ value: p, label: p }))}
+                error={fieldErrors.pricetype}
+                onChange={(value) => setField("pricetype", value)}
+              />
+            </div>
+            <label className="mt-3 flex flex-col gap-1 text-sm text-slate-700">
+              <span className="text-xs uppercase tracking-wide text-slate-500">{t('reason')}</span>
+              <textarea
+                value={form.reason}
+                rows={2}
+                maxLength={MAX_REASON_LENGTH}
+                placeholder={t('reasonPlaceholder')}
+                onChange={(e) => setField("reason", e.target.value)}
+                className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-200"
+              />
+              {fieldErrors.reason && <span className="text-xs text-red-600">{fieldErrors.reason}</span>}
+            </label>
+            <div className="mt-4 flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setFormOpen(false)}
+                className="rounded-full bg-slate-100 px-4 py-1.5 text-sm font-medium text-slate-500 ring-1 ring-slate-200 transition hover:text-slate-800"
+              >
+                {t('cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="rounded-full bg-cyan-500 px-4 py-1.5 text-sm font-medium text-white shadow-lg shadow-cyan-500/25 transition hover:bg-cyan-600 disabled:opacity-60"
+              >
+                {saving ? t('saving') : t('save')}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* -------------------------------------------------------------------
+            RECORDS TABLE: Filters, records and paging
+        ------------------------------------------------------------------- */}
+        <section className="rounded-2xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+          <div className="flex flex-wrap items-end gap-3">
+            <FormSelect
+              label={t('province')}
+              value={provinceId}
+              options={provinces.map((p) => ({ value: p.id, label: p.name }))}
+              placeholder={t('all')}
+              onChange={(value) => {
+                setProvinceId(value);
+                setDistrictId("");
+                setMarketId("");
+                setPage(1);
+              }}
+            />
+            <FormSelect
+              label={t('district')}
+              value={districtId}
+              options={districts.map((d) => ({ value: d.id, label: d.name }))}
+              placeholder={t('all')}
+              disabled={!provinceId}
+              onChange={(value) => {
+                setDistrictId(value);
+                setMarketId("");
+                setPage(1);
+              }}
+            />
+            <FormSelect
+              label={t('market')}
+              value={marketId}
+              options={markets.map((m) => ({ value: m.id, label: m.name }))}
+              placeholder={t('all')}
+              disabled={!provinceId}
+              onChange={(value) => {
+                setMarketId(value);
+                setPage(1);
+              }}
+            />
+            <FormSelect
+              label={t('item')}
+              value={itemId}
+              options={itemOptions}
+              placeholder={t('all')}
+              onChange={(value) => {
+                setItemId(value);
+                setPage(1);
+              }}
+            />
+            <button
+              type="button"
+              onClick={openNewRecord}
+              className="ml-auto rounded-full bg-cyan-500 px-4 py-2 text-sm font-medium text-white shadow-lg shadow-cyan-500/25 transition hover:bg-cyan-600"
+            >
+              {t('addRecord')}
+            </button>
+          </div>
+
+          <div className="mt-4 overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">{t('id')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('date')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('market')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('item')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('unit')}</th>
+                  <th className="py-2 pr-4 text-right font-medium">{t('price')}</th>
+                  <th className="py-2 font-medium"><span className="sr-only">{t('recordActions')}</span></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rows.map((row) => (
+                  <tr key={row.id} className={editingId === row.id && formOpen ? "bg-cyan-50" : undefined}>
+                    <td className="py-2 pr-4 font-mono text-xs text-slate-500">{row.id}</td>
+                    <td className="py-2 pr-4 text-slate-700">{row.date}</td>
+                    <td className="py-2 pr-4">
+                      <span className="text-slate-900">{row.market}</span>
+                      <span className="block text-xs text-slate-500">{`${row.district}, ${row.province}`}</span>
+                    </td>
+                    <td className="py-2 pr-4 text-slate-900">{row.item}</td>
+                    <td className="py-2 pr-4 text-slate-700">{row.unit}</td>
+                    <td className="py-2 pr-4 text-right text-slate-900">{`${numberFormat.format(row.price)} ${row.currency}`}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button type="button" onClick={() => openRecord(row.id)} className="mr-3 text-xs text-cyan-700 hover:underline">
+                        {t('edit')}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setAuditRecordId(row.id);
+                          setAuditPage(1);
+                        }}
+                        className="mr-3 text-xs text-cyan-700 hover:underline"
+                      >
+                        {t('history')}
+                      </button>
+                      <button type="button" onClick={() => removeRecord(row)} className="text-xs text-red-600 hover:underline">
+                        {t('delete')}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!rows.length && !loading && <p className="py-4 text-sm text-slate-500">{t('noRecords')}</p>}
+          </div>
+          <Pager
+            page={page}
+            pages={totalPages}
+            summary={t('recordCount', { total })}
+            onPage={setPage}
+            labels={{ previous: t('previous'), next: t('next') }}
+          />
+        </section>
+
+        {/* -------------------------------------------------------------------
+            AUDIT LOG: Every change, or the changes of one record
+        ------------------------------------------------------------------- */}
+        <section className="rounded-2xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <h2 className="text-base font-semibold text-slate-900">{t('auditLog')}</h2>
+              <p className="text-xs text-slate-600">
+                {auditRecordId ? t('auditOfRecord', { id: auditRecordId }) : t('auditDetail')}
+              </p>
+            </div>
+            {auditRecordId && (
+              <button
+                type="button"
+                onClick={() => {
+                  setAuditRecordId(null);
+                  setAuditPage(1);
+                }}
+                className="text-xs text-cyan-700 hover:underline"
+              >
+                {t('allChanges')}
+              </button>
+            )}
+          </div>
+          <div className="mt-3 overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">{t('when')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('who')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('action')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('record')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('changes')}</th>
+                  <th className="py-2 font-medium">{t('reason')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 align-top">
+                {auditEntries.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className="py-2 pr-4 whitespace-nowrap text-xs text-slate-700">{new Date(entry.at).toLocaleString(locale)}</td>
+                    <td className="py-2 pr-4 text-slate-900">{entry.user}</td>
+                    <td className="py-2 pr-4">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                        {t(`auditActions.${entry.action}`)}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4 font-mono text-xs text-slate-500">{`${entry.locale}/${entry.recordId}`}</td>
+                    <td className="py-2 pr-4">
+                      <ul className="flex flex-col gap-0.5 text-xs">
+                        {entry.changes.map((name) => (
+                          <li key={name}>
+                            <span className="font-mono text-slate-500">{name}</span>{' '}
+                            {entry.before && <span className="text-slate-500 line-through">{String(entry.before[name] ?? '—')}</span>}
+                            {entry.before && ' → '}
+                            <span className="text-slate-900">{String(entry.after[name] ?? '—')}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                    <td className="py-2 text-xs text-slate-600">{entry.reason ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!auditEntries.length && <p className="py-4 text-sm text-slate-500">{t('noChanges')}</p>}
+          </div>
+          <Pager
+            page={auditPage}
+            pages={auditPages}
+            summary={t('changeCount', { total: auditTotal })}
+            onPage={setAuditPage}
+            labels={{ previous: t('previous'), next: t('next') }}
+          />
+        </section>
+      </div>
+    </div>
+  );
+}
+
+/** Badge colours of the audit actions */
+const ACTION_STYLES: Record<AuditEntry["action"], string> = {
+  create: "bg-green-100 text-green-700",
+  update: "bg-cyan-100 text-cyan-700",
+  delete: "bg-red-100 text-red-600",
+};
+
+// =============================================================================
+// HELPER COMPONENTS
+// =============================================================================
+
+/**
+ * FormSelect - Labelled dropdown with an optional empty choice and error
+ * @param label - Display label above the dropdown
+ * @param value - Selected value, "" for the empty choice
+ * @param options - Choices
+ * @param placeholder - Label of the empty choice; omitted, there is none
+ * @param error - Validation message shown below
+ * @param disabled - Whether the dropdown is disabled
+ * @param onChange - Callback with the new value
+ */
+type FormSelectProps = {
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  placeholder?: string;
+  error?: string;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+};
+
+function FormSelect({ label, value, options, placeholder, error, disabled, onChange }: FormSelectProps) {
+  return (
+    <label className="flex flex-col gap-1 text-sm text-slate-700">
+      <span className="text-xs uppercase tracking-wide text-slate-500">{label}</span>
+      <select
+        value={value}
+        disabled={disabled}
+        aria-invalid={!!error}
+        onChange={(e) => onChange(e.target.value)}
+        className={`rounded-xl border bg-white px-3 py-2 text-sm text-slate-800 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-200 disabled:opacity-60 ${
+          error ? "border-red-300" : "border-slate-200"
+        }`}
+      >
+        {placeholder !== undefined && <option value="">{placeholder}</option>}
+        {options.map((opt) => (
+          <option key={opt.value} value={opt.value}>{opt.label}</option>
+        ))}
+      </select>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </label>
+  );
+}
+
+/**
+ * FormInput - Labelled text, number or date input with an error
+ * @param label - Display label above the input
+ * @param value - Current value
+ * @param type - Input type (default text)
+ * @param error - Validation message shown below
+ * @param onChange - Callback with the new value
+ */
+type FormInputProps = {
+  label: string;
+  value: string;
+  type?: "text" | "number" | "date";
+  min?: string;
+  max?: string;
+  step?: string;
+  error?: string;
+  onChange: (value: string) => void;
+};
+
+function FormInput({ label, value, type = "text", min, max, step, error, onChange }: FormInputProps) {
+  return (
+    <label className="flex flex-col gap-1 text-sm text-slate-700">
+      <span className="text-xs uppercase tracking-wide text-slate-500">{label}</span>
+      <input
+        type={type}
+        value={value}
+        min={min}
+        max={max}
+        step={step}
+        aria-invalid={!!error}
+        onChange={(e) => onChange(e.target.value)}
+        className={`rounded-xl border bg-white px-3 py-2 text-sm text-slate-800 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-200 ${
+          error ? "border-red-300" : "border-slate-200"
+        }`}
+      />
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </label>
+  );
+}
+
+/**
+ * Pager - Previous/next buttons with a summary
+ * @param page - Current 1-based page
+ * @param pages - Number of pages
+ * @param summary - Text shown beside the buttons
+ * @param onPage - Callback with the page to show
+ */
+type PagerProps = {
+  page: number;
+  pages: number;
+  summary: string;
+  onPage: (page: number) => void;
+  labels: { previous: string; next: string };
+};
+
+function Pager({ page, pages, summary, onPage, labels }: PagerProps) {
+  return (
+    <div className="mt-3 flex items-center justify-between text-xs text-slate-600">
+      <span>{summary}</span>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          disabled={page <= 1}
+          onClick={() => onPage(page - 1)}
+          className="rounded-full px-3 py-1 ring-1 ring-slate-200 hover:text-slate-900 disabled:opacity-40"
+        >
+          {labels.previous}
+        </button>
+        <span>{`${page} / ${pages}`}</span>
+        <button
+          type="button"
+          disabled={page >= pages}
+          onClick={() => onPage(page + 1)}
+          className="rounded-full px-3 py-1 ring-1 ring-slate-200 hover:text-slate-900 disabled:opacity-40"
+        >
+          {labels.next}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * Admin console sign-in
+ *
+ * Posts the name and password to /api/admin/session, which sets the admin
+ * session cookie, then opens the console.
+ */
+"use client";
+
+import { FormEvent, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useLocale, useTranslations } from "next-intl";
+
+export default function AdminLoginPage() {
+  const t = useTranslations('admin');
+  const locale = useLocale();
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const signIn = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), password }),
+      });
+      if (res.ok) {
+        router.replace(`/${locale}/admin`);
+        router.refresh();
+        return;
+      }
+      const data = await res.json().catch(() => ({}));
+      setError(res.status === 401 || res.status === 400 ? t('wrongCredentials') : data.error ?? t('signInFailed'));
+    } catch (err) {
+      console.error('Error signing in:', err);
+      setError(t('signInFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 text-slate-800">
+      <div className="mx-auto flex max-w-sm flex-col gap-6 px-6 py-24">
+        <header className="flex flex-col gap-2">
+          <Link href={`/${locale}`} className="text-sm text-cyan-700 hover:underline">← {t('backToDashboard')}</Link>
+          <p className="text-sm uppercase tracking-[0.2em] text-cyan-600">{t('console')}</p>
+          <h1 className="text-3xl font-semibold tracking-tight text-slate-900">{t('signIn')}</h1>
+        </header>
+        <form onSubmit={signIn} className="flex flex-col gap-4 rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+          <label className="flex flex-col gap-1 text-sm text-slate-700">
+            <span className="text-xs uppercase tracking-wide text-slate-500">{t('name')}</span>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoComplete="username"
+              required
+              className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-200"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-slate-700">
+            <span className="text-xs uppercase tracking-wide text-slate-500">{t('password')}</span>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+              className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-200"
+            />
+          </label>
+          {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="rounded-full bg-cyan-500 px-4 py-2 text-sm font-medium text-white shadow-lg shadow-cyan-500/25 transition hover:bg-cyan-600 disabled:opacity-60"
+          >
+            {submitting ? t('signingIn') : t('signIn')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * Admin console
+ *
+ * Signed-in admins enter, correct and delete price records of either
+ * collection and read the audit log of those changes (see lib/admin.ts).
+ * Visitors without an admin session are sent to the sign-in page.
+ */
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { setRequestLocale } from "next-intl/server";
+import { ADMIN_COOKIE, adminFromSession } from "@/lib/admin-auth";
+import AdminConsole from "./admin-console";
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminPage({ params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+  const user = adminFromSession((await cookies()).get(ADMIN_COOKIE)?.value);
+  if (!user) redirect(`/${locale}/admin/login`);
+  return <AdminConsole user={user} />;
+}
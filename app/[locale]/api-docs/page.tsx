@@ -0,0 +1,234 @@
+/**
+ * Public API documentation
+ *
+ * Server-rendered from the same OpenAPI document /api/v1/openapi.json serves:
+ * one card per endpoint with its parameters, the fields of its data and a
+ * link to try it. Descriptions come from the document and stay in English;
+ * only the page's own labels are translated.
+ */
+import Link from "next/link";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** The parts of a JSON schema the page shows */
+type Schema = {
+  $ref?: string;
+  type?: string | string[];
+  items?: Schema;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  format?: string;
+  description?: string;
+  properties?: Record<string, Schema>;
+  allOf?: Schema[];
+};
+
+type Parameter = { name: string; description: string; schema: Schema; example?: string };
+
+type Operation = {
+  tags: string[];
+  summary: string;
+  description: string;
+  parameters: { $ref: string }[];
+  responses: { 200: { content: { 'application/json': { schema: Schema } } } };
+};
+
+/** The parts of the OpenAPI document the page reads */
+type Spec = {
+  info: { title: string; version: string; description: string };
+  servers: { url: string }[];
+  tags: { name: string; description: string }[];
+  paths: Record<string, { get: Operation }>;
+  components: { parameters: Record<string, Parameter>; schemas: Record<string, Schema> };
+};
+
+// =============================================================================
+// SCHEMA HELPERS
+// =============================================================================
+
+// Helper to follow a "#/components/<kind>/<name>" reference
+function resolve<T>(spec: Spec, ref: string): T {
+  const [, , kind, name] = ref.split('/');
+  return (spec.components as Record<string, Record<string, unknown>>)[kind][name] as T;
+}
+
+// Helper to describe a schema's type in one line, e.g. "PriceRecord[]" or "number | null"
+function typeLabel(schema: Schema): string {
+  if (schema.$ref) return schema.$ref.split('/').pop()!;
+  if (schema.enum) return schema.enum.map((v) => (v === null ? 'null' : `"${v}"`)).join(' | ');
+  if (schema.const !== undefined) return `"${schema.const}"`;
+  if (schema.type === 'array' && schema.items) return `${typeLabel(schema.items)}[]`;
+  return (Array.isArray(schema.type) ? schema.type : [schema.type ?? 'any']).join(' | ');
+}
+
+// Helper to list the fields of an object schema, following references and allOf
+function fieldsOf(spec: Spec, schema: Schema): [string, Schema][] {
+  if (schema.$ref) return fieldsOf(spec, resolve<Schema>(spec, schema.$ref));
+  if (schema.type === 'array' && schema.items) return fieldsOf(spec, schema.items);
+  if (schema.allOf) return schema.allOf.flatMap((part) => fieldsOf(spec, part));
+  return Object.entries(schema.properties ?? {});
+}
+
+export default async function ApiDocsPage({ params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+  const t = await getTranslations({ locale });
+  const spec = buildOpenApiDocument() as unknown as Spec;
+  const [server] = spec.servers;
+
+  // ===========================================================================
+  // RENDER
+  // ===========================================================================
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 text-slate-800">
+      <div className="mx-auto flex max-w-5xl flex-col gap-8 px-6 py-12">
+        <header className="flex flex-col gap-3">
+          <Link href={`/${locale}`} className="text-sm text-cyan-700 hover:underline">← {t('backToDashboard')}</Link>
+          <p className="text-sm uppercase tracking-[0.2em] text-cyan-600">{`${t('apiDocs')} · ${spec.info.version}`}</p>
+          <h1 className="text-3xl font-semibold tracking-tight text-slate-900">{spec.info.title}</h1>
+          <p className="text-sm text-slate-600">{spec.info.description}</p>
+          <p className="text-sm text-slate-600">
+            {t('apiDocsDetail')}{' '}
+            <a href={`${server.url}/openapi.json`} className="font-mono text-cyan-700 hover:underline">{`${server.url}/openapi.json`}</a>
+          </p>
+        </header>
+
+        {spec.tags.map((tag) => (
+          <section key={tag.name} className="flex flex-col gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900">{tag.name}</h2>
+              <p className="text-sm text-slate-600">{tag.description}</p>
+            </div>
+            {Object.entries(spec.paths)
+              .filter(([, { get }]) => get.tags.includes(tag.name))
+              .map(([path, { get }]) => (
+                <EndpointCard
+                  key={path}
+                  spec={spec}
+                  url={`${server.url}${path}`}
+                  operation={get}
+                  exampleHref={`${server.url}${path}?locale=${locale}`}
+                  labels={{
+                    parameters: t('apiParameters'),
+                    response: t('apiResponse'),
+                    field: t('apiField'),
+                    type: t('apiType'),
+                    description: t('apiDescription'),
+                    tryIt: t('apiTryIt'),
+                  }}
+                />
+              ))}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// HELPER COMPONENTS
+// =============================================================================
+
+/**
+ * EndpointCard - One endpoint with its parameters and the fields of its response
+ * @param spec - The OpenAPI document, to resolve references
+ * @param url - Path of the endpoint
+ * @param operation - The endpoint's GET operation
+ * @param exampleHref - Link to a request of the endpoint
+ * @param labels - Translated headings
+ */
+type EndpointCardProps = {
+  spec: Spec;
+  url: string;
+  operation: Operation;
+  exampleHref: string;
+  labels: { parameters: string; response: string; field: string; type: string; description: string; tryIt: string };
+};
+
+function EndpointCard({ spec, url, operation, exampleHref, labels }: EndpointCardProps) {
+  const parameters = operation.parameters.map((p) => resolve<Parameter>(spec, p.$ref));
+  const envelope = operation.responses[200].content['application/json'].schema;
+  return (
+    <article className="rounded-2xl bg-white p-4 ring-1 ring-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-mono text-sm text-slate-900">
+          <span className="mr-2 rounded-full bg-cyan-500 px-2 py-0.5 text-xs font-semibold text-white">GET</span>
+          {url}
+        </h3>
+        <a href={exampleHref} className="text-xs text-cyan-700 hover:underline">{labels.tryIt} →</a>
+      </div>
+      <p className="mt-2 text-sm font-medium text-slate-800">{operation.summary}</p>
+      <p className="text-sm text-slate-600">{operation.description}</p>
+
+      <h4 className="mt-4 text-xs uppercase tracking-wide text-slate-500">{labels.parameters}</h4>
+      <FieldTable
+        rows={parameters.map((p) => ({
+          name: p.name,
+          type: typeLabel(p.schema),
+          description: [
+            p.description,
+            p.schema.default !== undefined && `default ${p.schema.default}`,
+            p.schema.maximum !== undefined && `at most ${p.schema.maximum}`,
+            p.example && `e.g. ${p.example}`,
+          ].filter(Boolean).join(' · '),
+        }))}
+        labels={labels}
+      />
+
+      <h4 className="mt-4 text-xs uppercase tracking-wide text-slate-500">
+        {`${labels.response}: { ${Object.keys(envelope.properties ?? {}).join(', ')} }`}
+      </h4>
+      <p className="mb-1 font-mono text-xs text-slate-600">{`data: ${typeLabel(envelope.properties!.data)}`}</p>
+      <FieldTable
+        rows={fieldsOf(spec, envelope.properties!.data).map(([name, schema]) => ({
+          name,
+          type: typeLabel(schema),
+          description: schema.description ?? '',
+        }))}
+        labels={labels}
+      />
+    </article>
+  );
+}
+
+/**
+ * FieldTable - Names, types and descriptions of parameters or response fields
+ * @param rows - One row per field
+ * @param labels - Column headings
+ */
+type FieldTableProps = {
+  rows: { name: string; type: string; description: string }[];
+  labels: { field: string; type: string; description: string };
+};
+
+function FieldTable({ rows, labels }: FieldTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-left text-sm">
+        <thead className="text-xs uppercase tracking-wide text-slate-500">
+          <tr>
+            <th className="py-1 pr-4 font-medium">{labels.field}</th>
+            <th className="py-1 pr-4 font-medium">{labels.type}</th>
+            <th className="py-1 font-medium">{labels.description}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {rows.map((row) => (
+            <tr key={row.name}>
+              <td className="py-1 pr-4 font-mono text-xs text-slate-900">{row.name}</td>
+              <td className="py-1 pr-4 font-mono text-xs text-cyan-700">{row.type}</td>
+              <td className="py-1 text-xs text-slate-600">{row.description}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
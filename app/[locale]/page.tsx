@@ -6,45 +6,79 @@
  * 
  * Features:
  * - Filter by province, district, and food item
+ * - Filters, table page and sort order live in the query string, so views can be
+ *   shared as links and back/forward moves between filter states
  * - View KPI summary cards (average price, market count, item count)
- * - Display price data in a table format
- * - Show average prices by province in a bar chart
+ * - Display price data in a table, paged and sorted server-side by clicking headers
+ * - Show average prices by province on a map (or as a bar chart); clicking a
+ *   province selects it and drills down to its districts
+ * - Plot the price history of the selected food item as a line chart, with a
+ *   dashed forecast of the next three months (monthly view only) and its
+ *   seasonal pattern (how far each calendar month usually is from the year's mean)
+ * - Export the table or the raw records as CSV / Excel
+ * - Hide records flagged by data validation, or show them highlighted
+ * - Show prices in riel or US dollars, converted at historical exchange rates
+ * - Compare prices per kg, litre or piece alongside the price per sold unit
+ * - List the items whose median price rose or fell most month-over-month or
+ *   year-over-year in the selected location
+ * - Rank provinces by the monthly cost of a food basket and chart how it changed
+ * - Compare current prices and price histories of up to five items across two
+ *   to five provinces, districts or markets side by side
+ * - Link to the public API's documentation (app/[locale]/api-docs)
  */
 "use client";
 
 export const dynamic = 'force-dynamic';
 
-import { useEffect, useMemo, useState } from "react";
-import { useRouter, usePathname } from 'next/navigation';
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter, usePathname, useSearchParams } from 'next/navigation';
 import { useLocale, useTranslations } from 'next-intl';
+import { DATE_RANGES } from "@/lib/dates";
+import { fitProjection, outerRings, Point, powerCells, ProvinceFeature, ringsToPath } from "@/lib/geo";
 
 // =============================================================================
 // TYPE DEFINITIONS
 // =============================================================================
 
-/** Province with nested districts for cascading filter */
-type Province = { id: number; name: string; districts: { id: number; name: string }[] };
+/** Province with nested districts and markets for cascading filter; IDs are stable pcodes/slugs */
+type Province = {
+  id: string;
+  name: string;
+  districts: { id: string; name: string; markets: { id: string; name: string }[] }[];
+};
+
+/** Food item with unit and category information; ID is the canonical commodity key */
+type Item = { id: string; name: string; unit: string; category: string; categoryId: string };
 
-/** Food item with unit and category information */
-type Item = { id: number; name: string; unit: string; category: string };
+/** Food category; ID is the same in every locale */
+type Category = { id: string; name: string };
 
-/** Individual price record with location and market details */
+/**
+ * A market's latest price record with location details and the change since
+ * that market's previous observation, as computed by /api/prices
+ */
 type PriceRow = {
-  id: number;
+  id: string;
+  itemId: string;
   item: string;
   category: string;
   unit: string;
   price: number;
   currency: string;
+  normalisedPrice: number | null;     // Price per kg, litre or piece, null if the unit has no fixed size
+  normalisedUnit: "kg" | "L" | "piece" | null;
   date: string;
+  provinceId: string;
   province: string;
+  districtId: string;
   district: string;
   market: string;
-};
-
-/** Deduplicated price row with trend indicator */
-type DeduplicatedPriceRow = PriceRow & {
-  previousPrice: number | null;  // Previous price for comparison
+  quality: { flagged: boolean; reasons: string[] } | null;  // Data validation flag, null if never checked
+  previousPrice: number | null;       // Same market's previous price
+  previousDate: string | null;        // Date of the previous price
+  change: number | null;              // Absolute change since the previous price
+  changePercent: number | null;       // Percent change since the previous price
   trend: "up" | "down" | "same" | null;  // Price trend indicator
 };
 
@@ -53,9 +87,115 @@ type Overview = {
   lastUpdated: string | null;
   totalItems: number;
   totalMarkets: number;
-  averagePrice: number | null;
+  averagePrice: number | null;        // Mean price per kg, litre or piece
+  currency: Currency;                 // Currency the average is converted into
+};
+
+/** Currencies prices can be shown in; conversion uses the rate on each record's date */
+type Currency = "KHR" | "USD";
+
+/** Table columns that can be sorted server-side */
+type SortKey = "item" | "location" | "market" | "price" | "date";
+
+/** Rows per page of the price table */
+const PAGE_SIZE = 20;
+
+/** Mean price per province, highest first */
+type ProvinceAverage = { provinceId: string; province: string; averagePrice: number };
+
+/** Mean price per district of the selected province, at the mean position of its markets */
+type DistrictAverage = {
+  districtId: string;
+  district: string;
+  provinceId: string;
+  averagePrice: number;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+/** Aggregated price statistics for one month or week of the history chart */
+type PriceHistoryPoint = {
+  period: string;
+  averagePrice: number;
+  minPrice: number;
+  maxPrice: number;
+  count: number;
+};
+
+/** Next months' prices of an item, from /api/forecast; the band is the 80% interval */
+type PriceForecast = {
+  model: "naive" | "seasonal-naive" | "holt" | null;
+  points: { period: string; price: number; lower80: number; upper80: number }[];
+  backtests: { model: string; metrics: { horizon: number; mape: number }[] }[];
+};
+
+/** Translation keys of the forecast models */
+const FORECAST_MODEL_LABELS = {
+  naive: "forecastNaive",
+  "seasonal-naive": "forecastSeasonalNaive",
+  holt: "forecastHolt",
+} as const;
+
+/** Seasonal index of an item, from /api/seasonality; deviations are percents from the annual mean */
+type SeasonalProfile = {
+  years: number[];
+  months: { month: number; deviation: number | null; low: number | null; high: number | null; years: number }[];
+};
+
+/** Price change of one item, from /api/changes; percents are null without a price to compare with */
+type PriceChange = {
+  itemId: string;
+  item: string;
+  unit: string;
+  period: string;
+  price: number;
+  mom: number | null;
+  yoy: number | null;
 };
 
+/** A food basket from /api/baskets; quantities are per month in kg, litres or pieces */
+type Basket = { id: string; name: string; description: string | null; items: { itemId: string; quantity: number }[] };
+
+/** Monthly basket cost per province, dearest latest cost first, as returned by /api/baskets/cost */
+type BasketCost = {
+  basket: { id: string; name: string; description: string | null; items: { itemId: string; item: string; quantity: number; unit: "kg" | "L" | "piece" }[] };
+  currency: Currency;
+  provinces: {
+    provinceId: string;
+    province: string;
+    latest: { period: string; cost: number } | null;
+    changePercent: number | null;          // Change since the month before the latest
+    series: { period: string; cost: number | null; missing: string[] }[];
+  }[];
+};
+
+/** Levels of place that can be compared */
+type LocationLevel = "province" | "district" | "market";
+
+/** A compared place; key is "<level>:<ID>" */
+type ComparedLocation = { key: string; level: LocationLevel; id: string; name: string; parent: string | null };
+
+/** One item priced in every compared place, as returned by /api/compare */
+type ComparedItem = {
+  itemId: string;
+  item: string;
+  units: string[];
+  prices: { location: string; price: number | null; date: string | null; markets: number }[];
+  spread: { cheapest: string; dearest: string; difference: number; percent: number } | null;
+  history: { location: string; points: PriceHistoryPoint[] }[];
+};
+
+type Comparison = { currency: Currency; locations: ComparedLocation[]; items: ComparedItem[] };
+
+/** Most places and items one comparison covers, as /api/compare allows */
+const MAX_COMPARED = 5;
+
+// Query changes for a new set of picked items: one goes in "item", more in "items"
+const selectionQuery = (ids: string[]) => ({
+  item: ids.length === 1 ? ids[0] : undefined,
+  items: ids.length > 1 ? ids.join(",") : undefined,
+});
+
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
@@ -65,22 +205,85 @@ export default function HomePage() {
   const t = useTranslations();
   const router = useRouter();
   const pathname = usePathname();
+  const searchParams = useSearchParams();
   const currentLocale = useLocale();
   // ---------------------------------------------------------------------------
   // STATE: Data from API
   // ---------------------------------------------------------------------------
   const [provinces, setProvinces] = useState<Province[]>([]); // Province list for filter dropdown
   const [items, setItems] = useState<Item[]>([]);             // Food items for filter dropdown
-  const [prices, setPrices] = useState<PriceRow[]>([]);       // Price records for the table
+  const [locationItems, setLocationItems] = useState<Item[] | null>(null); // Items of the selected location, once loaded
+  const [catalogueLocale, setCatalogueLocale] = useState<string | null>(null); // Locale the province list was loaded in
+  const [categories, setCategories] = useState<Category[]>([]); // Food categories for filter dropdown
+  const [prices, setPrices] = useState<PriceRow[]>([]);       // Current page of the price table
+  const [totalRows, setTotalRows] = useState(0);              // Rows across all pages
   const [overview, setOverview] = useState<Overview | null>(null); // KPI summary stats
-  const [averages, setAverages] = useState<{ province: string; averagePrice: number }[]>([]); // Per-province averages
+  const [averages, setAverages] = useState<ProvinceAverage[]>([]); // Per-province averages
+  const [districtAverages, setDistrictAverages] = useState<DistrictAverage[]>([]); // Per-district averages of the selected province
+  const [provinceShapes, setProvinceShapes] = useState<ProvinceFeature[]>([]); // Province outlines for the map
+  const [history, setHistory] = useState<PriceHistoryPoint[]>([]); // Price series for the selected item
+  const [seasonality, setSeasonality] = useState<SeasonalProfile | null>(null); // Seasonal index of the selected item
+  const [forecast, setForecast] = useState<PriceForecast | null>(null); // Forecast of the selected item's next months
+  const [catalogueItems, setCatalogueItems] = useState<Item[]>([]); // Every food item, for the comparison picker
+  const [comparison, setComparison] = useState<Comparison | null>(null); // Prices of the compared places
+  const [baskets, setBaskets] = useState<Basket[]>([]);       // Configured food baskets
+  const [changes, setChanges] = useState<PriceChange[]>([]);  // Price changes per item, largest rise first
+  const [basketCost, setBasketCost] = useState<BasketCost | null>(null); // Cost of the selected basket per province
 
   // ---------------------------------------------------------------------------
-  // STATE: Filter selections
+  // URL STATE: Filter selections, currency, history interval, table page and sort
+  // The query string is the source of truth, so a link reproduces the view
   // ---------------------------------------------------------------------------
-  const [provinceId, setProvinceId] = useState<number | undefined>();
-  const [districtId, setDistrictId] = useState<number | undefined>();
-  const [itemName, setItemName] = useState<string | undefined>(); // Use item name for consistent filtering
+  const provinceId = searchParams.get("province") || undefined;
+  const districtId = searchParams.get("district") || undefined;
+  const itemId = searchParams.get("item") || undefined; // Stable item key, same in every locale
+  // Several picked items go in "items" instead, leaving the single-item panels empty
+  const itemsParam = itemId ? "" : searchParams.get("items") || "";
+  const selectedItemIds = itemId ? [itemId] : itemsParam.split(",").filter(Boolean);
+  const categoryId = searchParams.get("category") || undefined;
+  const currency: Currency = searchParams.get("currency") === "USD" ? "USD" : "KHR";
+  const historyInterval: "month" | "week" = searchParams.get("interval") === "week" ? "week" : "month";
+  const page = Math.max(1, Math.floor(Number(searchParams.get("page"))) || 1);
+  const sortParam = searchParams.get("sort");
+  const sort = (["item", "location", "market", "price", "date"] as const).find((key) => key === sortParam);
+  const order: "asc" | "desc" = searchParams.get("order") === "desc" ? "desc" : "asc";
+  // Flagged records are hidden unless the user asks to see them
+  const showFlagged = searchParams.get("flagged") === "show";
+  const qualityFilter = showFlagged ? "include" : "exclude";
+  const averagesView: "map" | "list" = searchParams.get("averages") === "list" ? "list" : "map";
+  const basketId = searchParams.get("basket") || undefined; // Omitted selects the first basket
+  const moversBasis: "mom" | "yoy" = searchParams.get("movers") === "yoy" ? "yoy" : "mom";
+  // Period: a preset ending today, or a range of months with either end open
+  const dateRange = DATE_RANGES.find((range) => range === searchParams.get("range"));
+  const periodFrom = searchParams.get("from") || undefined; // "2024-06"
+  const periodTo = searchParams.get("to") || undefined;
+  // Period parameters every price request starts from; a string, so effects can depend on it
+  const periodQuery = new URLSearchParams(
+    dateRange ? { range: dateRange } : { ...(periodFrom && { from: periodFrom }), ...(periodTo && { to: periodTo }) }
+  ).toString();
+  // Comparison mode: comma-separated places ("province:KH12", "market:1701") and item IDs
+  const compareMode = searchParams.get("mode") === "compare";
+  const compareParam = searchParams.get("compare") || "";
+  const compareItemsParam = searchParams.get("compareItems") || "";
+  const compareLocations = useMemo(() => compareParam.split(",").filter(Boolean), [compareParam]);
+  const compareItems = useMemo(() => compareItemsParam.split(",").filter(Boolean), [compareItemsParam]);
+
+  /**
+   * Write parameters to the query string; an empty value removes the parameter
+   * Filter changes "push" a history entry, view tweaks "replace" the current one
+   */
+  const updateQuery = useCallback((changes: Record<string, string | undefined>, mode: "push" | "replace" = "push") => {
+    const next = new URLSearchParams(searchParams.toString());
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    });
+    const queryString = next.toString();
+    router[mode](queryString ? `${pathname}?${queryString}` : pathname, { scroll: false });
+  }, [searchParams, router, pathname]);
+
+  // Query string carried over when switching language
+  const currentQuery = searchParams.toString() ? `?${searchParams.toString()}` : "";
 
   // ---------------------------------------------------------------------------
   // STATE: UI loading indicator
@@ -88,9 +291,15 @@ export default function HomePage() {
   const [loading, setLoading] = useState(true);
 
   // ---------------------------------------------------------------------------
-  // STATE: Pagination for table rows
+  // STATE: What the export buttons download - the table as shown, or every record
+  // ---------------------------------------------------------------------------
+  const [exportView, setExportView] = useState<"table" | "raw">("table");
+
+  // ---------------------------------------------------------------------------
+  // STATE: Comparison pickers - level of place offered, and item shown in the chart
   // ---------------------------------------------------------------------------
-  const [visibleRows, setVisibleRows] = useState(10);
+  const [compareLevel, setCompareLevel] = useState<LocationLevel>("province");
+  const [chartItemId, setChartItemId] = useState<string | undefined>(undefined);
 
   // ---------------------------------------------------------------------------
   // EFFECT: Load filter options (provinces & items) on initial mount or locale change
@@ -98,7 +307,8 @@ export default function HomePage() {
   useEffect(() => {
     async function loadFilters() {
       try {
-        const res = await fetch(`/api/filters?locale=${currentLocale}`, { cache: "no-store" });
+        // Browser-cached: the route sends Cache-Control and an ETag
+        const res = await fetch(`/api/filters?locale=${currentLocale}`);
         if (!res.ok) {
           console.error('Failed to load filters:', res.status);
           return;
@@ -106,10 +316,11 @@ export default function HomePage() {
         const data = await res.json();
         setProvinces(data.provinces || []); // Populate province dropdown
         setItems(data.items || []);         // Populate food item dropdown (all items initially)
-        // Reset selections when locale changes
-        setProvinceId(undefined);
-        setDistrictId(undefined);
-        setItemName(undefined);
+        setCategories(data.categories || []); // Populate category dropdown
+        setCatalogueItems(data.items || []); // Comparisons may pick any item
+        setCatalogueLocale(currentLocale);
+        // Selections are kept: province, district and item IDs are the same in every locale
+        // (districts missing from the gazetteer in lib/identifiers.ts excepted, dropped below)
       } catch (error) {
         console.error('Error loading filters:', error);
       }
@@ -117,6 +328,38 @@ export default function HomePage() {
     loadFilters();
   }, [currentLocale]); // Re-run when locale changes
 
+  // ---------------------------------------------------------------------------
+  // EFFECT: Drop a district the locale's catalogue doesn't have
+  // After a language switch or from a shared link, a district outside the
+  // gazetteer has another ID in this locale, and would match nothing
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    if (catalogueLocale !== currentLocale || !districtId) return;
+    const province = provinces.find((p) => p.id === provinceId);
+    const districts = (province ? [province] : provinces).flatMap((p) => p.districts);
+    if (!districts.some((d) => d.id === districtId)) updateQuery({ district: undefined }, "replace");
+  }, [catalogueLocale, currentLocale, provinces, provinceId, districtId, updateQuery]);
+
+  // ---------------------------------------------------------------------------
+  // EFFECT: Load the bundled province shapes for the map, once
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    async function loadShapes() {
+      try {
+        const res = await fetch("/geo/cambodia-admin1.json");
+        if (!res.ok) {
+          console.error('Failed to load province shapes:', res.status);
+          return;
+        }
+        const data = await res.json();
+        setProvinceShapes(data.features || []);
+      } catch (error) {
+        console.error('Error loading province shapes:', error);
+      }
+    }
+    loadShapes();
+  }, []);
+
   // ---------------------------------------------------------------------------
   // EFFECT: Reload food items when province or district changes
   // Shows only items available in the selected location
@@ -127,21 +370,17 @@ export default function HomePage() {
         // Build query string for location filter
         const query = new URLSearchParams();
         query.append("locale", currentLocale);
-        if (provinceId) query.append("province", String(provinceId));
-        if (districtId) query.append("district", String(districtId));
+        if (provinceId) query.append("province", provinceId);
+        if (districtId) query.append("district", districtId);
 
-        const res = await fetch(`/api/filters?${query.toString()}`, { cache: "no-store" });
+        const res = await fetch(`/api/filters?${query.toString()}`);
         if (!res.ok) {
           console.error('Failed to load filtered items:', res.status);
           return;
         }
         const data = await res.json();
         setItems(data.items || []); // Update items based on selected location
-        
-        // Reset item selection if current item is not available in new location
-        if (itemName && data.items && !data.items.some((i: Item) => i.name === itemName)) {
-          setItemName(undefined);
-        }
+        setLocationItems(data.items || []);
       } catch (error) {
         console.error('Error loading filtered items:', error);
       }
@@ -150,48 +389,299 @@ export default function HomePage() {
   }, [provinceId, districtId, currentLocale]); // Re-run when location or locale changes
 
   // ---------------------------------------------------------------------------
-  // EFFECT: Reload price data and overview stats when filters change
+  // EFFECT: Drop picked items the selected location doesn't have
   // ---------------------------------------------------------------------------
   useEffect(() => {
-    async function loadData() {
-      setLoading(true);
-      setVisibleRows(10); // Reset pagination when filters change
-      
+    if (!locationItems) return;
+    const picked = itemId ? [itemId] : itemsParam.split(",").filter(Boolean);
+    const available = picked.filter((id) => locationItems.some((i) => i.id === id));
+    if (available.length === picked.length) return;
+    // A single item is cleared; of several, the ones still available stay picked
+    updateQuery(itemId ? { item: undefined } : selectionQuery(available), "replace");
+  }, [locationItems, itemId, itemsParam, updateQuery]);
+
+  // ---------------------------------------------------------------------------
+  // EFFECT: Reload overview stats when filters change
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    async function loadOverview() {
       try {
         // Build query string from active filters
-        const query = new URLSearchParams();
+        const query = new URLSearchParams(periodQuery);
         query.append("locale", currentLocale);
-        if (provinceId) query.append("province", String(provinceId));
-        if (districtId) query.append("district", String(districtId));
-        if (itemName) query.append("item", itemName);
-
-        // Fetch price data and overview stats in parallel
-        const [pricesRes, overviewRes] = await Promise.all([
-          fetch(`/api/prices?${query.toString()}`, { cache: "no-store" }),
-          fetch(`/api/overview?${query.toString()}`, { cache: "no-store" }),
-        ]);
-
-        if (!pricesRes.ok || !overviewRes.ok) {
-          console.error('Failed to load data:', pricesRes.status, overviewRes.status);
-          setLoading(false);
+        if (provinceId) query.append("province", provinceId);
+        if (districtId) query.append("district", districtId);
+        if (itemId) query.append("item", itemId);
+        if (itemsParam) query.append("items", itemsParam);
+        if (categoryId) query.append("categories", categoryId);
+        query.append("quality", qualityFilter);
+        query.append("currency", currency);
+
+        // Browser-cached for a minute, like the filters
+        const res = await fetch(`/api/overview?${query.toString()}`);
+        if (!res.ok) {
+          console.error('Failed to load overview:', res.status);
           return;
         }
+        const data = await res.json();
+        setOverview(data.overview || null);
+        setAverages(data.averages || []);
+        setDistrictAverages(data.districtAverages || []);
+      } catch (error) {
+        console.error('Error loading overview:', error);
+      }
+    }
 
-        const pricesJson = await pricesRes.json();
-        const overviewJson = await overviewRes.json();
+    loadOverview();
+  }, [provinceId, districtId, itemId, itemsParam, categoryId, qualityFilter, currency, periodQuery, currentLocale]); // Re-run when any filter, period, currency or locale changes
 
-        // Update state with fetched data
-        setPrices(pricesJson.data || []);
-        setOverview(overviewJson.overview || null);
-        setAverages(overviewJson.averages || []);
+  // ---------------------------------------------------------------------------
+  // EFFECT: Load the requested page of the price table
+  // Grouping, sorting and paging happen server-side, so only one page is fetched
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    async function loadPrices() {
+      setLoading(true);
+
+      try {
+        const query = new URLSearchParams(periodQuery);
+        query.append("locale", currentLocale);
+        if (provinceId) query.append("province", provinceId);
+        if (districtId) query.append("district", districtId);
+        if (itemId) query.append("item", itemId);
+        if (itemsParam) query.append("items", itemsParam);
+        if (categoryId) query.append("categories", categoryId);
+        query.append("quality", qualityFilter);
+        query.append("currency", currency);
+        query.append("page", String(page));
+        query.append("pageSize", String(PAGE_SIZE));
+        if (sort) {
+          query.append("sort", sort);
+          query.append("order", order);
+        }
+
+        const res = await fetch(`/api/prices?${query.toString()}`, { cache: "no-store" });
+        if (!res.ok) {
+          console.error('Failed to load prices:', res.status);
+          setLoading(false);
+          return;
+        }
+        const data = await res.json();
+        setPrices(data.data || []);
+        setTotalRows(data.total ?? 0);
       } catch (error) {
-        console.error('Error loading data:', error);
+        console.error('Error loading prices:', error);
       }
       setLoading(false);
     }
 
-    loadData();
-  }, [provinceId, districtId, itemName, currentLocale]); // Re-run when any filter or locale changes
+    loadPrices();
+  }, [provinceId, districtId, itemId, itemsParam, categoryId, qualityFilter, currency, periodQuery, page, sort, order, currentLocale]); // Re-run when filters, period, page or sort change
+
+  // ---------------------------------------------------------------------------
+  // EFFECT: Reload the price history when the item, location or interval changes
+  // History is per item, so nothing is fetched until a food item is selected
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    if (!itemId) return;
+
+    async function loadHistory(item: string) {
+      try {
+        const query = new URLSearchParams(periodQuery);
+        query.append("locale", currentLocale);
+        query.append("item", item);
+        query.append("interval", historyInterval);
+        query.append("quality", qualityFilter);
+        query.append("currency", currency);
+        if (provinceId) query.append("province", provinceId);
+        if (districtId) query.append("district", districtId);
+
+        const res = await fetch(`/api/prices/history?${query.toString()}`, { cache: "no-store" });
+        if (!res.ok) {
+          console.error('Failed to load price history:', res.status);
+          return;
+        }
+        const data = await res.json();
+        setHistory(data.data || []);
+      } catch (error) {
+        console.error('Error loading price history:', error);
+      }
+    }
+    loadHistory(itemId);
+  }, [provinceId, districtId, itemId, historyInterval, qualityFilter, currency, periodQuery, currentLocale]); // Re-run when item, location, interval, period, currency or locale changes
+
+  // ---------------------------------------------------------------------------
+  // EFFECT: Reload the forecast when the item or location changes
+  // Forecasts are monthly, so the weekly history is shown without one
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    if (!itemId || historyInterval !== "month") return;
+
+    async function loadForecast(item: string) {
+      try {
+        const query = new URLSearchParams(periodQuery);
+        query.append("locale", currentLocale);
+        query.append("item", item);
+        query.append("quality", qualityFilter);
+        query.append("currency", currency);
+        if (provinceId) query.append("province", provinceId);
+        if (districtId) query.append("district", districtId);
+
+        const res = await fetch(`/api/forecast?${query.toString()}`, { cache: "no-store" });
+        if (!res.ok) {
+          console.error('Failed to load forecast:', res.status);
+          setForecast(null);
+          return;
+        }
+        setForecast(await res.json());
+      } catch (error) {
+        console.error('Error loading forecast:', error);
+      }
+    }
+    loadForecast(itemId);
+  }, [provinceId, districtId, itemId, historyInterval, qualityFilter, currency, periodQuery, currentLocale]); // Re-run when item, location, interval, period, currency or locale changes
+
+  // ---------------------------------------------------------------------------
+  // EFFECT: Reload the seasonal index when the item or location changes
+  // Like the history, nothing is fetched until a food item is selected
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    if (!itemId) return;
+
+    async function loadSeasonality(item: string) {
+      try {
+        const query = new URLSearchParams(periodQuery);
+        query.append("locale", currentLocale);
+        query.append("item", item);
+        query.append("quality", qualityFilter);
+        query.append("currency", currency);
+        if (provinceId) query.append("province", provinceId);
+        if (districtId) query.append("district", districtId);
+
+        const res = await fetch(`/api/seasonality?${query.toString()}`, { cache: "no-store" });
+        if (!res.ok) {
+          console.error('Failed to load seasonal index:', res.status);
+          setSeasonality(null);
+          return;
+        }
+        setSeasonality(await res.json());
+      } catch (error) {
+        console.error('Error loading seasonal index:', error);
+      }
+    }
+    loadSeasonality(itemId);
+  }, [provinceId, districtId, itemId, qualityFilter, currency, periodQuery, currentLocale]); // Re-run when item, location, period, currency or locale changes
+
+  // ---------------------------------------------------------------------------
+  // EFFECT: Reload price changes for the biggest movers when the location,
+  // basis, quality filter, currency or locale changes
+  // Movers are compared across items, so a single picked item doesn't apply;
+  // a category or several picked items narrow them down
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    async function loadChanges() {
+      try {
+        const query = new URLSearchParams(periodQuery);
+        query.append("locale", currentLocale);
+        if (provinceId) query.append("province", provinceId);
+        if (districtId) query.append("district", districtId);
+        query.append("sort", moversBasis);
+        if (itemsParam) query.append("items", itemsParam);
+        if (categoryId) query.append("categories", categoryId);
+        query.append("quality", qualityFilter);
+        query.append("currency", currency);
+
+        const res = await fetch(`/api/changes?${query.toString()}`, { cache: "no-store" });
+        if (!res.ok) {
+          console.error('Failed to load price changes:', res.status);
+          return;
+        }
+        const data = await res.json();
+        setChanges(data.data || []);
+      } catch (error) {
+        console.error('Error loading price changes:', error);
+      }
+    }
+    loadChanges();
+  }, [provinceId, districtId, itemsParam, categoryId, moversBasis, qualityFilter, currency, periodQuery, currentLocale]); // Re-run when location, items, basis, period, currency or locale changes
+
+  // ---------------------------------------------------------------------------
+  // EFFECT: Load the configured food baskets, named in the current locale
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    async function loadBaskets() {
+      try {
+        const res = await fetch(`/api/baskets?locale=${currentLocale}`);
+        if (!res.ok) {
+          console.error('Failed to load food baskets:', res.status);
+          return;
+        }
+        const data = await res.json();
+        setBaskets(data.data || []);
+      } catch (error) {
+        console.error('Error loading food baskets:', error);
+      }
+    }
+    loadBaskets();
+  }, [currentLocale]);
+
+  // ---------------------------------------------------------------------------
+  // EFFECT: Reload the basket cost when the basket, quality filter, currency or locale changes
+  // Baskets are priced per province, so the location and item filters don't apply
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    async function loadBasketCost() {
+      try {
+        const query = new URLSearchParams(periodQuery);
+        query.append("locale", currentLocale);
+        if (basketId) query.append("basket", basketId);
+        query.append("quality", qualityFilter);
+        query.append("currency", currency);
+
+        const res = await fetch(`/api/baskets/cost?${query.toString()}`, { cache: "no-store" });
+        if (!res.ok) {
+          console.error('Failed to load basket cost:', res.status);
+          setBasketCost(null);
+          return;
+        }
+        setBasketCost(await res.json());
+      } catch (error) {
+        console.error('Error loading basket cost:', error);
+      }
+    }
+    loadBasketCost();
+  }, [basketId, qualityFilter, currency, periodQuery, currentLocale]); // Re-run when the basket, quality filter, period, currency or locale changes
+
+  // ---------------------------------------------------------------------------
+  // EFFECT: Load the comparison when its places, items, currency or locale change
+  // Nothing is fetched until two places and an item are picked
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    if (!compareMode || compareLocations.length < 2 || !compareItems.length) return;
+
+    async function loadComparison() {
+      try {
+        const query = new URLSearchParams(periodQuery);
+        query.append("locale", currentLocale);
+        query.append("locations", compareLocations.join(","));
+        query.append("items", compareItems.join(","));
+        query.append("interval", historyInterval);
+        query.append("quality", qualityFilter);
+        query.append("currency", currency);
+
+        const res = await fetch(`/api/compare?${query.toString()}`, { cache: "no-store" });
+        if (!res.ok) {
+          console.error('Failed to load comparison:', res.status);
+          setComparison(null);
+          return;
+        }
+        setComparison(await res.json());
+      } catch (error) {
+        console.error('Error loading comparison:', error);
+      }
+    }
+    loadComparison();
+  }, [compareMode, compareLocations, compareItems, historyInterval, qualityFilter, currency, periodQuery, currentLocale]); // Re-run when the comparison, period, currency or locale changes
 
   // ---------------------------------------------------------------------------
   // COMPUTED: Get districts for the currently selected province
@@ -202,114 +692,115 @@ export default function HomePage() {
   }, [provinceId, provinces]);
 
   // ---------------------------------------------------------------------------
-  // COMPUTED: Number formatter for displaying prices and counts
+  // COMPUTED: Province names in the current locale, for map tooltips
   // ---------------------------------------------------------------------------
-  const numberFormat = useMemo(() => new Intl.NumberFormat("en-KH"), []);
+  const provinceNames = useMemo(() => new Map(provinces.map((p) => [p.id, p.name])), [provinces]);
 
   // ---------------------------------------------------------------------------
-  // COMPUTED: Deduplicate prices with different grouping strategies:
-  // - No filters: Group by item, show all 19 food items with highest price among 25 provinces
-  // - Only food filter: Group by item + province, show all 25 provinces ordered by highest price
-  // - Province filter: Group by item + district, show all districts
-  // - Province + District filter: Group by item only
+  // COMPUTED: Places offered by the comparison picker, and names of picked ones
   // ---------------------------------------------------------------------------
-  const deduplicatedPrices = useMemo((): DeduplicatedPriceRow[] => {
-    // Helper function to check if price is non-zero (handles string/number)
-    const isNonZeroPrice = (price: number | string): boolean => {
-      const numPrice = typeof price === 'string' ? parseFloat(price) : price;
-      return numPrice !== 0 && !isNaN(numPrice) && numPrice !== null && numPrice !== undefined;
+  const locationOptions = useMemo(() => {
+    const districts = provinces.flatMap((p) => p.districts.map((d) => ({ province: p, district: d })));
+    const options: Record<LocationLevel, { value: string; label: string }[]> = {
+      province: provinces.map((p) => ({ value: `province:${p.id}`, label: p.name })),
+      district: districts.map(({ province, district }) => ({ value: `district:${district.id}`, label: `${province.name} › ${district.name}` })),
+      market: districts.flatMap(({ district }) =>
+        district.markets.map((m) => ({ value: `market:${m.id}`, label: `${district.name} › ${m.name}` }))),
     };
+    return options;
+  }, [provinces]);
+  const locationLabels = useMemo(
+    () => new Map(Object.values(locationOptions).flat().map((o) => [o.value, o.label])),
+    [locationOptions]
+  );
+  // ---------------------------------------------------------------------------
+  // COMPUTED: Biggest movers - the five largest rises and falls on the chosen basis
+  // Changes arrive largest rise first, so falls are read from the end
+  // ---------------------------------------------------------------------------
+  const risers = changes.filter((c) => (c[moversBasis] ?? 0) > 0).slice(0, 5);
+  const fallers = changes.filter((c) => (c[moversBasis] ?? 0) < 0).reverse().slice(0, 5);
 
-    // Determine grouping strategy based on filters
-    // Case 1: No province, no item filter - group by item only, show highest price per item
-    // Case 2: No province, has item filter - group by item + province, show all provinces sorted by price
-    // Case 3: Has province (with or without district) - group by item only, show highest price per item in that province
-    let groupingMode: 'no-filters' | 'food-only' | 'province-selected';
-    
-    if (!provinceId && !itemName) {
-      groupingMode = 'no-filters';
-    } else if (!provinceId && itemName) {
-      groupingMode = 'food-only';
-    } else {
-      // Province is selected (with or without district filter)
-      groupingMode = 'province-selected';
-    }
+  // ---------------------------------------------------------------------------
+  // COMPUTED: Provinces charted in the basket panel - the selected one, the
+  // dearest and the cheapest - each with the months its whole basket was priced
+  // ---------------------------------------------------------------------------
+  const basketSeries = useMemo(() => {
+    const ranked = (basketCost?.provinces ?? []).filter((p) => p.latest);
+    const charted = [ranked.find((p) => p.provinceId === provinceId), ranked[0], ranked[ranked.length - 1]]
+      .filter((p, i, all): p is NonNullable<typeof p> => p !== undefined && all.indexOf(p) === i);
+    return charted.map((p) => ({
+      label: p.province,
+      points: p.series.flatMap((point) => (point.cost === null ? [] : [{ period: point.period, averagePrice: point.cost }])),
+    }));
+  }, [basketCost, provinceId]);
 
-    const itemGroups = new Map<string, PriceRow[]>();
-    
-    prices.forEach((row) => {
-      // Skip rows with missing item name
-      if (!row.item) return;
-      
-      let groupKey: string;
-      if (groupingMode === 'no-filters') {
-        // Group by item only - show one entry per food item with highest price
-        groupKey = row.item;
-      } else if (groupingMode === 'food-only') {
-        // Group by item + province - show all provinces for the selected food
-        groupKey = `${row.item}|||${row.province}`;
-      } else {
-        // Province selected - group by item only, show highest price per food in this province
-        groupKey = row.item;
-      }
-      const existing = itemGroups.get(groupKey) || [];
-      existing.push(row);
-      itemGroups.set(groupKey, existing);
-    });
+  const comparisonReady = compareLocations.length >= 2 && compareItems.length > 0 && comparison !== null;
+  const chartItem = comparison?.items.find((i) => i.itemId === chartItemId) ?? comparison?.items[0];
 
-    // For each group, get the appropriate price based on grouping mode
-    const result: DeduplicatedPriceRow[] = [];
-    
-    itemGroups.forEach((rows, key) => {
-      // Filter to only non-zero prices first
-      const nonZeroRows = rows.filter(row => isNonZeroPrice(row.price));
-      
-      // If no non-zero price exists, skip this item
-      if (nonZeroRows.length === 0) {
-        return;
-      }
+  // ---------------------------------------------------------------------------
+  // COMPUTED: Number formatter for displaying prices and counts
+  // ---------------------------------------------------------------------------
+  const numberFormat = useMemo(() => new Intl.NumberFormat("en-KH"), []);
+  // Riel prices are whole numbers, dollar prices keep cents
+  const priceFormat = useMemo(
+    () => new Intl.NumberFormat("en-KH", { maximumFractionDigits: currency === "USD" ? 2 : 0 }),
+    [currency]
+  );
 
-      let latest: PriceRow;
-      let previous: PriceRow | null = null;
-
-      // For all modes: find the highest non-zero price in the group
-      const sortedByPrice = [...nonZeroRows].sort((a, b) => b.price - a.price);
-      latest = sortedByPrice[0];
-      // Previous is the second highest price for trend comparison
-      previous = sortedByPrice[1] || null;
-      
-      // Determine price trend
-      let trend: "up" | "down" | "same" | null = null;
-      if (previous) {
-        if (latest.price > previous.price) {
-          trend = "up";
-        } else if (latest.price < previous.price) {
-          trend = "down";
-        } else {
-          trend = "same";
-        }
-      }
+  // ---------------------------------------------------------------------------
+  // COMPUTED: Items offered in the items filter, narrowed to the picked category
+  // ---------------------------------------------------------------------------
+  const categoryItems = categoryId ? items.filter((i) => i.categoryId === categoryId) : items;
 
-      result.push({
-        ...latest,
-        previousPrice: previous?.price || null,
-        trend,
-      });
-    });
+  // ---------------------------------------------------------------------------
+  // COMPUTED: Description of the selected period for the KPIs, table and bars
+  // ---------------------------------------------------------------------------
+  const periodLabel = dateRange
+    ? t(`lastMonths.${dateRange}`)
+    : periodFrom && periodTo
+      ? `${periodFrom} – ${periodTo}`
+      : periodFrom
+        ? `${t('since')} ${periodFrom}`
+        : periodTo
+          ? `${t('until')} ${periodTo}`
+          : t('allTime');
 
-    // Sort based on grouping mode
-    if (groupingMode === 'food-only') {
-      // When filtering by food only, sort by price descending (highest first)
-      return result.sort((a, b) => b.price - a.price);
-    } else {
-      // Otherwise sort by item name, then by province/district
-      return result.sort((a, b) => {
-        const itemCompare = a.item.localeCompare(b.item);
-        if (itemCompare !== 0) return itemCompare;
-        return a.province.localeCompare(b.province);
-      });
+  // ---------------------------------------------------------------------------
+  // COMPUTED: Download link for the current filters, minus the format
+  // ---------------------------------------------------------------------------
+  const exportHref = useMemo(() => {
+    const query = new URLSearchParams(periodQuery);
+    query.append("locale", currentLocale);
+    query.append("view", exportView);
+    query.append("quality", qualityFilter);
+    query.append("currency", currency);
+    if (provinceId) query.append("province", provinceId);
+    if (districtId) query.append("district", districtId);
+    if (itemId) query.append("item", itemId);
+    if (itemsParam) query.append("items", itemsParam);
+    if (categoryId) query.append("categories", categoryId);
+    if (sort) {
+      query.append("sort", sort);
+      query.append("order", order);
     }
-  }, [prices, provinceId, districtId, itemName]);
+    return `/api/export?${query.toString()}`;
+  }, [currentLocale, exportView, qualityFilter, currency, provinceId, districtId, itemId, itemsParam, categoryId, sort, order, periodQuery]);
+
+  // ---------------------------------------------------------------------------
+  // COMPUTED: Table paging and header sorting
+  // The server groups rows (see lib/price-table.ts) before sorting and paging
+  // ---------------------------------------------------------------------------
+  const pageCount = Math.max(1, Math.ceil(totalRows / PAGE_SIZE));
+  const firstRow = (page - 1) * PAGE_SIZE + 1;
+
+  // Clicking the sorted column flips the order; a new column starts with
+  // the highest price / newest date, or alphabetically for text columns
+  const sortBy = (key: SortKey) => {
+    const nextOrder = sort === key
+      ? (order === "asc" ? "desc" : "asc")
+      : (key === "price" || key === "date" ? "desc" : "asc");
+    updateQuery({ sort: key, order: nextOrder, page: undefined }, "replace");
+  };
 
   // ===========================================================================
   // RENDER: Main dashboard layout
@@ -322,8 +813,44 @@ export default function HomePage() {
             HEADER SECTION: Title, subtitle, and filter controls
         ------------------------------------------------------------------- */}
         <header className="flex flex-col gap-4">
-          {/* Language Switcher */}
-          <div className="flex justify-end">
+          {/* API docs link, Mode, Currency and Language Switchers */}
+          <div className="flex flex-wrap justify-end gap-2">
+            <Link
+              href={`/${currentLocale}/api-docs`}
+              className="inline-flex items-center rounded-full bg-slate-100 px-4 py-1.5 text-sm font-medium text-slate-500 ring-1 ring-slate-200 transition-all duration-200 hover:text-slate-800"
+            >
+              {t('apiDocs')}
+            </Link>
+            <div className="inline-flex items-center rounded-full bg-slate-100 p-1 ring-1 ring-slate-200">
+              {(["dashboard", "compare"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  className={`px-4 py-1.5 text-sm font-medium rounded-full transition-all duration-200 ${
+                    compareMode === (mode === "compare")
+                      ? 'bg-cyan-500 text-white shadow-lg shadow-cyan-500/25'
+                      : 'text-slate-500 hover:text-slate-800'
+                  }`}
+                  onClick={() => updateQuery({ mode: mode === "compare" ? mode : undefined })}
+                >
+                  {mode === "compare" ? t('compareMode') : t('dashboardMode')}
+                </button>
+              ))}
+            </div>
+            <div className="inline-flex items-center rounded-full bg-slate-100 p-1 ring-1 ring-slate-200" title={t('currency')}>
+              {(["KHR", "USD"] as const).map((code) => (
+                <button
+                  key={code}
+                  className={`px-4 py-1.5 text-sm font-medium rounded-full transition-all duration-200 ${
+                    currency === code
+                      ? 'bg-cyan-500 text-white shadow-lg shadow-cyan-500/25'
+                      : 'text-slate-500 hover:text-slate-800'
+                  }`}
+                  onClick={() => updateQuery({ currency: code === "KHR" ? undefined : code }, "replace")}
+                >
+                  {code}
+                </button>
+              ))}
+            </div>
             <div className="inline-flex items-center rounded-full bg-slate-100 p-1 ring-1 ring-slate-200">
               <button
                 className={`px-4 py-1.5 text-sm font-medium rounded-full transition-all duration-200 ${
@@ -332,7 +859,9 @@ export default function HomePage() {
                     : 'text-slate-500 hover:text-slate-800'
                 }`}
                 onClick={() => {
-                  if (currentLocale !== 'en') router.push(`/en${pathname.replace(/^\/[a-z]{2}/, '')}`);
+                  // Keep the query string: IDs are the same in every locale, and a district
+                  // the other locale doesn't know is dropped once its catalogue loads
+                  if (currentLocale !== 'en') router.push(`/en${pathname.replace(/^\/[a-z]{2}/, '')}${currentQuery}`);
                 }}
               >
                 EN
@@ -344,7 +873,7 @@ export default function HomePage() {
                     : 'text-slate-500 hover:text-slate-800'
                 }`}
                 onClick={() => {
-                  if (currentLocale !== 'km') router.push(`/km${pathname.replace(/^\/[a-z]{2}/, '')}`);
+                  if (currentLocale !== 'km') router.push(`/km${pathname.replace(/^\/[a-z]{2}/, '')}${currentQuery}`);
                 }}
               >
                 ខ្មែរ
@@ -362,162 +891,617 @@ export default function HomePage() {
             </span>
           </div>
 
-          {/* Filter dropdowns: Province → District → Food Item */}
-          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+          {/* Filter dropdowns: Province → District → Category → Food items (the comparison has its own pickers) */}
+          {!compareMode && <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
             {/* Province filter - resets district when changed */}
             <FilterSelect
               label={t('province')}
-              value={provinceId ? String(provinceId) : ""}
-              onChange={(value) => {
-                const nextProvince = value ? Number(value) : undefined;
-                setProvinceId(nextProvince);
-                setDistrictId(undefined);
-              }}
-              options={[{ value: "", label: t('allProvinces') }, ...provinces.map((p) => ({ value: String(p.id), label: p.name }))]}
+              value={provinceId ?? ""}
+              onChange={(value) => updateQuery({ province: value, district: undefined, page: undefined })}
+              options={[{ value: "", label: t('allProvinces') }, ...provinces.map((p) => ({ value: p.id, label: p.name }))]}
             />
             {/* District filter - disabled until province is selected */}
             <FilterSelect
               label={t('district')}
-              value={districtId ? String(districtId) : ""}
-              onChange={(value) => setDistrictId(value ? Number(value) : undefined)}
+              value={districtId ?? ""}
+              onChange={(value) => updateQuery({ district: value, page: undefined })}
               options={[
                 { value: "", label: provinceId ? t('allDistricts') : t('pickProvince') },
-                ...filteredDistricts.map((d) => ({ value: String(d.id), label: d.name })),
+                ...filteredDistricts.map((d) => ({ value: d.id, label: d.name })),
               ]}
               disabled={!provinceId}
             />
-            {/* Food item filter - shows items available in selected location */}
+            {/* Category filter - picked items outside the new category are dropped */}
             <FilterSelect
-              label={t('foodItem')}
-              value={itemName || ""}
-              onChange={(value) => setItemName(value || undefined)}
+              label={t('category')}
+              value={categoryId ?? ""}
+              onChange={(value) => updateQuery({ category: value, item: undefined, items: undefined, page: undefined })}
+              options={[{ value: "", label: t('allCategories') }, ...categories.map((c) => ({ value: c.id, label: c.name }))]}
+            />
+            {/* Food items filter - several can be picked; shows items available in selected location and category */}
+            <FilterSelect
+              multiple
+              label={`${t('foodItems')} · ${selectedItemIds.length ? selectedItemIds.length : provinceId ? `${t('allItemsIn')} ${provinces.find(p => p.id === provinceId)?.name || t('location')}` : t('allFoodItems')}`}
+              value={selectedItemIds}
+              onChange={(values) => updateQuery({ ...selectionQuery(values), page: undefined })}
+              options={categoryItems.map((i) => ({ value: i.id, label: `${i.name} (${i.unit})` }))}
+            />
+          </div>}
+          {/* Period: a preset ending today, or a custom range of months; applies in both modes */}
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <FilterSelect
+              label={t('period')}
+              value={dateRange ?? (periodFrom || periodTo ? "custom" : "")}
+              onChange={(value) => updateQuery({ range: value === "custom" ? undefined : value, from: undefined, to: undefined, page: undefined })}
               options={[
-                { value: "", label: provinceId ? `${t('allItemsIn')} ${provinces.find(p => p.id === provinceId)?.name || t('location')}` : t('allFoodItems') },
-                ...items.map((i) => ({ value: i.name, label: `${i.name} (${i.unit})` }))
+                { value: "", label: t('allTime') },
+                ...DATE_RANGES.map((range) => ({ value: range, label: t(`lastMonths.${range}`) })),
+                ...(periodFrom || periodTo ? [{ value: "custom", label: t('customPeriod') }] : []),
               ]}
             />
+            <MonthInput
+              label={t('fromMonth')}
+              value={periodFrom ?? ""}
+              max={periodTo}
+              onChange={(value) => updateQuery({ from: value, range: undefined, page: undefined })}
+            />
+            <MonthInput
+              label={t('toMonth')}
+              value={periodTo ?? ""}
+              min={periodFrom}
+              onChange={(value) => updateQuery({ to: value, range: undefined, page: undefined })}
+            />
           </div>
         </header>
 
-        {/* -------------------------------------------------------------------
-            KPI SECTION: Summary statistics cards
-        ------------------------------------------------------------------- */}
-        <section className="grid grid-cols-1 gap-4 sm:grid-cols-3">
-          <KpiCard title={t('averagePrice')} value={overview?.averagePrice ? `${numberFormat.format(Math.round(overview.averagePrice))} KHR` : "—"} detail={t('simpleMean')} />
-          <KpiCard title={t('marketsTracked')} value={overview ? numberFormat.format(overview.totalMarkets) : "—"} detail={t('uniqueMarkets')} />
-          <KpiCard title={t('foodItems')} value={overview ? numberFormat.format(overview.totalItems) : "—"} detail={t('distinctItems')} />
-        </section>
+        {compareMode ? (
+          /* -----------------------------------------------------------------
+              COMPARE SECTION: Places and items pickers, price table and chart
+          ----------------------------------------------------------------- */
+          <section className="flex flex-col gap-4">
+            <div className="rounded-2xl bg-white p-4 ring-1 ring-slate-200 shadow-sm">
+              <h2 className="text-lg font-semibold text-slate-900">{t('comparePrices')}</h2>
+              <p className="text-sm text-slate-600">{t('comparePricesDetail')}</p>
+              {/* Pickers: level of place, then a place of that level, and items */}
+              <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-3">
+                <FilterSelect
+                  label={t('placeLevel')}
+                  value={compareLevel}
+                  onChange={(value) => setCompareLevel(value as LocationLevel)}
+                  options={[
+                    { value: "province", label: t('province') },
+                    { value: "district", label: t('district') },
+                    { value: "market", label: t('market') },
+                  ]}
+                />
+                <FilterSelect
+                  label={t('addPlace')}
+                  value=""
+                  onChange={(value) => value && updateQuery({ compare: [...compareLocations, value].join(",") })}
+                  options={[
+                    { value: "", label: compareLocations.length >= MAX_COMPARED ? t('compareLimit') : t('pickPlace') },
+                    ...locationOptions[compareLevel].filter((o) => !compareLocations.includes(o.value)),
+                  ]}
+                  disabled={compareLocations.length >= MAX_COMPARED}
+                />
+                <FilterSelect
+                  label={t('addItem')}
+                  value=""
+                  onChange={(value) => value && updateQuery({ compareItems: [...compareItems, value].join(",") })}
+                  options={[
+                    { value: "", label: compareItems.length >= MAX_COMPARED ? t('compareLimit') : t('pickItem') },
+                    ...catalogueItems
+                      .filter((i) => !compareItems.includes(i.id))
+                      .map((i) => ({ value: i.id, label: `${i.name} (${i.unit})` })),
+                  ]}
+                  disabled={compareItems.length >= MAX_COMPARED}
+                />
+              </div>
+              {/* Picked places and items; removing one updates the comparison */}
+              <div className="mt-3 flex flex-wrap gap-2">
+                {compareLocations.map((key) => (
+                  <RemovableChip
+                    key={key}
+                    label={locationLabels.get(key) ?? key}
+                    removeLabel={t('remove')}
+                    onRemove={() => updateQuery({ compare: compareLocations.filter((k) => k !== key).join(",") })}
+                  />
+                ))}
+                {compareItems.map((id) => (
+                  <RemovableChip
+                    key={id}
+                    label={catalogueItems.find((i) => i.id === id)?.name ?? id}
+                    removeLabel={t('remove')}
+                    tone="item"
+                    onRemove={() => updateQuery({ compareItems: compareItems.filter((i) => i !== id).join(",") })}
+                  />
+                ))}
+              </div>
+            </div>
 
-        {/* -------------------------------------------------------------------
-            MAIN CONTENT: Price table and sidebar widgets
-        ------------------------------------------------------------------- */}
-        <section className="grid grid-cols-1 gap-4 lg:grid-cols-3 items-start">
-          
-          {/* Price data table - spans 2 columns on large screens */}
-          <div className="rounded-2xl bg-white p-4 ring-1 ring-slate-200 shadow-sm lg:col-span-2">
-            <div className="mb-3 flex items-center justify-between">
+            {!comparisonReady ? (
+              <p className="rounded-2xl bg-white p-8 text-center text-sm text-slate-500 ring-1 ring-slate-200 shadow-sm">{t('pickToCompare')}</p>
+            ) : (
+              <>
+                {/* Current prices: one row per item, one column per place, then the spread */}
+                <div className="rounded-2xl bg-white p-4 ring-1 ring-slate-200 shadow-sm">
+                  <h3 className="mb-3 text-base font-semibold text-slate-900">{t('currentPrices')}</h3>
+                  <div className="overflow-x-auto rounded-xl border border-slate-200 bg-slate-50">
+                    <table className="w-full text-sm text-slate-800 min-w-[400px]">
+                      <thead className="bg-slate-100 text-left text-xs uppercase tracking-wide text-slate-600">
+                        <tr>
+                          <th className="px-3 py-2">{t('item')}</th>
+                          {comparison.locations.map((location) => (
+                            <th key={location.key} className="px-3 py-2 text-right">
+                              <div>{location.name}</div>
+                              {location.parent && <div className="text-[10px] normal-case tracking-normal text-slate-500">{location.parent}</div>}
+                            </th>
+                          ))}
+                          <th className="px-3 py-2 text-right" title={t('spreadDetail')}>{t('spread')}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {comparison.items.map((item) => (
+                          <tr key={item.itemId} className="border-t border-slate-200 hover:bg-slate-100">
+                            <td className="px-3 py-2">
+                              <div className="font-semibold text-slate-900">{item.item}</div>
+                              <div className="text-xs text-slate-500">{item.units.join(", ")}</div>
+                            </td>
+                            {item.prices.map((p) => (
+                              <td key={p.location} className="px-3 py-2 text-right">
+                                {/* Cheapest place in green, dearest in red */}
+                                <div className={`font-semibold ${
+                                  p.location === item.spread?.cheapest ? "text-green-600" : p.location === item.spread?.dearest ? "text-red-600" : "text-slate-900"
+                                }`}>
+                                  {p.price === null ? "—" : `${priceFormat.format(p.price)} ${comparison.currency}`}
+                                </div>
+                                {p.date && <div className="text-xs text-slate-500">{p.date}</div>}
+                              </td>
+                            ))}
+                            <td className="px-3 py-2 text-right">
+                              {item.spread ? (
+                                <>
+                                  <div className="font-semibold text-slate-900">+{item.spread.percent.toFixed(1)}%</div>
+                                  <div className="text-xs text-slate-500">{priceFormat.format(item.spread.difference)} {comparison.currency}</div>
+                                </>
+                              ) : "—"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+
+                {/* Price histories of one item, one line per place */}
+                <div className="rounded-2xl bg-white p-4 ring-1 ring-slate-200 shadow-sm">
+                  <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+                    <h3 className="text-base font-semibold text-slate-900">{t('priceHistory')}</h3>
+                    {comparison.items.length > 1 && (
+                      <select
+                        value={chartItem?.itemId}
+                        onChange={(e) => setChartItemId(e.target.value)}
+                        aria-label={t('foodItem')}
+                        className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 outline-none focus:border-cyan-400"
+                      >
+                        {comparison.items.map((item) => (
+                          <option key={item.itemId} value={item.itemId}>{item.item}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  {chartItem && chartItem.history.some((h) => h.points.length) ? (
+                    <ComparisonChart
+                      series={chartItem.history.map((h) => ({
+                        label: comparison.locations.find((l) => l.key === h.location)?.name ?? h.location,
+                        points: h.points,
+                      }))}
+                      formatter={(v) => priceFormat.format(v)}
+                    />
+                  ) : (
+                    <p className="py-8 text-center text-sm text-slate-500">{t('noDataDisplay')}</p>
+                  )}
+                </div>
+              </>
+            )}
+          </section>
+        ) : (
+          <>
+          {/* -------------------------------------------------------------------
+              KPI SECTION: Summary statistics cards
+          ------------------------------------------------------------------- */}
+          <section className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <KpiCard title={t('averagePrice')} value={overview?.averagePrice ? `${priceFormat.format(overview.averagePrice)} ${overview.currency}` : "—"} detail={`${t('normalisedMean')} · ${periodLabel}`} />
+            <KpiCard title={t('marketsTracked')} value={overview ? numberFormat.format(overview.totalMarkets) : "—"} detail={t('uniqueMarkets')} />
+            <KpiCard title={t('foodItems')} value={overview ? numberFormat.format(overview.totalItems) : "—"} detail={t('distinctItems')} />
+          </section>
+
+          {/* -------------------------------------------------------------------
+              HISTORY SECTION: Price trend of the selected item over time
+          ------------------------------------------------------------------- */}
+          <section className="rounded-2xl bg-white p-4 ring-1 ring-slate-200 shadow-sm">
+            <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
               <div>
-                <h2 className="text-lg font-semibold text-slate-900">{t('latestPricePrints')}</h2>
-                <p className="text-sm text-slate-600">{t('uniqueItems')}</p>
+                <h2 className="text-lg font-semibold text-slate-900">{t('priceHistory')}</h2>
+                <p className="text-sm text-slate-600">{t('priceHistoryDetail')}</p>
+              </div>
+              {/* Month / week toggle */}
+              <div className="inline-flex items-center rounded-full bg-slate-100 p-1 ring-1 ring-slate-200">
+                {(["month", "week"] as const).map((interval) => (
+                  <button
+                    key={interval}
+                    className={`px-3 py-1 text-xs font-medium rounded-full transition-all duration-200 ${
+                      historyInterval === interval
+                        ? 'bg-cyan-500 text-white shadow-lg shadow-cyan-500/25'
+                        : 'text-slate-500 hover:text-slate-800'
+                    }`}
+                    onClick={() => updateQuery({ interval: interval === "month" ? undefined : interval }, "replace")}
+                  >
+                    {interval === "month" ? t('monthly') : t('weekly')}
+                  </button>
+                ))}
               </div>
-              {loading && <span className="text-xs text-cyan-600">{t('loading')}</span>}
             </div>
-            <div className="overflow-x-auto rounded-xl border border-slate-200 bg-slate-50">
-              <table className="w-full text-sm text-slate-800 min-w-[400px]">
-                <thead className="bg-slate-100 text-left text-xs uppercase tracking-wide text-slate-600">
-                  <tr>
-                    <th className="px-2 py-2 min-[426px]:px-3">{t('item')}</th>
-                    <th className="px-2 py-2 min-[426px]:px-3">{t('location')}</th>
-                    <th className="px-2 py-2 min-[426px]:px-3">{t('market')}</th>
-                    <th className="px-2 py-2 min-[426px]:px-3 text-right">{t('price')}</th>
-                    <th className="hidden min-[426px]:table-cell px-3 py-2 text-center">{t('trend')}</th>
-                    <th className="hidden min-[426px]:table-cell px-3 py-2 text-right">{t('date')}</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {/* Display deduplicated price records with trend indicators */}
-                  {deduplicatedPrices.slice(0, visibleRows).map((row) => (
-                    <tr key={row.id} className="border-t border-slate-200 hover:bg-slate-100">
-                      <td className="px-2 py-2 min-[426px]:px-3">
-                        <div className="font-semibold text-slate-900 text-xs min-[426px]:text-sm">{row.item}</div>
-                        <div className="text-[10px] min-[426px]:text-xs text-slate-500">{row.category} · {row.unit}</div>
-                      </td>
-                      <td className="px-2 py-2 min-[426px]:px-3">
-                        <div className="text-xs min-[426px]:text-sm text-slate-900">{row.province}</div>
-                        <div className="text-[10px] min-[426px]:text-xs text-slate-500">{row.district}</div>
-                      </td>
-                      <td className="px-2 py-2 min-[426px]:px-3 text-xs min-[426px]:text-sm text-slate-700">{row.market}</td>
-                      <td className="px-2 py-2 min-[426px]:px-3 text-right">
-                        <div className="font-semibold text-cyan-600 text-xs min-[426px]:text-sm">{numberFormat.format(row.price)} {row.currency}</div>
-                        {row.previousPrice && (
-                          <div className="text-[10px] min-[426px]:text-xs text-slate-500">
-                            {t('was')} {numberFormat.format(row.previousPrice)} {row.currency}
-                          </div>
-                        )}
-                      </td>
-                      <td className="hidden min-[426px]:table-cell px-3 py-2 text-center">
-                        <PriceTrendBadge trend={row.trend} labels={{ up: t('up'), down: t('down'), same: t('same') }} />
-                      </td>
-                      <td className="hidden min-[426px]:table-cell px-3 py-2 text-right text-slate-600">{row.date}</td>
-                    </tr>
+            {!itemId ? (
+              <p className="py-8 text-center text-sm text-slate-500">{t('pickItemForHistory')}</p>
+            ) : history.length ? (
+              <>
+                <PriceHistoryChart
+                  points={history}
+                  forecast={historyInterval === "month" && forecast?.model ? forecast.points : []}
+                  formatter={(v) => priceFormat.format(v)}
+                  labels={{ average: t('average'), range: t('minMaxRange'), forecast: t('forecastInterval') }}
+                />
+                {historyInterval === "month" && forecast?.model && (
+                  <p className="mt-1 text-xs text-slate-500">
+                    {`${t('forecastModel')}: ${t(FORECAST_MODEL_LABELS[forecast.model])} · ${t('forecastError')}: ±${forecast.backtests[0].metrics[0].mape.toFixed(1)}%`}
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="py-8 text-center text-sm text-slate-500">{t('noDataDisplay')}</p>
+            )}
+            {/* Seasonal pattern of the selected item */}
+            {itemId && (
+              <div className="mt-4 border-t border-slate-200 pt-4">
+                <h3 className="text-base font-semibold text-slate-900">{t('seasonalPattern')}</h3>
+                <p className="mb-2 text-xs text-slate-600">
+                  {seasonality?.years.length
+                    ? `${t('seasonalPatternDetail')} (${seasonality.years.join(", ")})`
+                    : t('seasonalPatternDetail')}
+                </p>
+                {seasonality?.years.length ? (
+                  <SeasonalityChart
+                    months={seasonality.months}
+                    monthName={(month) => new Intl.DateTimeFormat(currentLocale, { month: "short", timeZone: "UTC" }).format(Date.UTC(2000, month - 1, 1))}
+                  />
+                ) : (
+                  <p className="py-4 text-center text-sm text-slate-500">{t('notEnoughHistory')}</p>
+                )}
+              </div>
+            )}
+          </section>
+
+          {/* -------------------------------------------------------------------
+              BASKET SECTION: Food basket cost per province, ranked and over time
+          ------------------------------------------------------------------- */}
+          <section className="rounded-2xl bg-white p-4 ring-1 ring-slate-200 shadow-sm">
+            <div className="mb-3 flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h2 className="text-lg font-semibold text-slate-900">{t('basketCost')}</h2>
+                <p className="text-sm text-slate-600">{basketCost?.basket.description ?? t('basketCostDetail')}</p>
+              </div>
+              {baskets.length > 1 && (
+                <select
+                  value={basketId ?? baskets[0].id}
+                  onChange={(e) => updateQuery({ basket: e.target.value === baskets[0].id ? undefined : e.target.value }, "replace")}
+                  aria-label={t('basket')}
+                  className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 outline-none focus:border-cyan-400"
+                >
+                  {baskets.map((b) => (
+                    <option key={b.id} value={b.id}>{b.name}</option>
                   ))}
-                  {/* Empty state when no data matches filters */}
-                  {!deduplicatedPrices.length && !loading && (
+                </select>
+              )}
+            </div>
+            {!basketCost?.provinces.length ? (
+              <p className="py-8 text-center text-sm text-slate-500">{t('noDataDisplay')}</p>
+            ) : (
+              <>
+                {/* What the basket holds, per month */}
+                <p className="mb-3 text-xs text-slate-500">
+                  {basketCost.basket.items
+                    .map((i) => `${i.item} ${numberFormat.format(i.quantity)} ${t(`standardUnits.${i.unit}`)}`)
+                    .join(" · ")}
+                </p>
+                <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+                  {/* Ranking by the latest monthly cost, with the change since the month before */}
+                  <div className="flex flex-col gap-2">
+                    {basketCost.provinces.map((p) => (
+                      <div key={p.provinceId} className="flex items-end gap-2">
+                        <div className="flex-1">
+                          {p.latest ? (
+                            <BarRow
+                              label={p.province}
+                              value={p.latest.cost}
+                              max={basketCost.provinces[0].latest?.cost || 1}
+                              formatter={(v) => `${priceFormat.format(v)} ${basketCost.currency}`}
+                            />
+                          ) : (
+                            <div className="flex items-center justify-between text-xs text-slate-600">
+                              <span className="text-slate-800">{p.province}</span>
+                              <span title={t('basketIncompleteDetail')}>{t('basketIncomplete')}</span>
+                            </div>
+                          )}
+                        </div>
+                        <PriceTrendBadge
+                          trend={p.changePercent === null ? null : p.changePercent > 0 ? "up" : p.changePercent < 0 ? "down" : "same"}
+                          changePercent={p.changePercent}
+                          labels={{ up: t('up'), down: t('down'), same: t('same') }}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  {/* Cost over time of the selected, dearest and cheapest provinces */}
+                  <div className="lg:col-span-2">
+                    {basketSeries.length ? (
+                      <ComparisonChart series={basketSeries} formatter={(v) => priceFormat.format(v)} />
+                    ) : (
+                      <p className="py-8 text-center text-sm text-slate-500">{t('noDataDisplay')}</p>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </section>
+
+          {/* -------------------------------------------------------------------
+              MAIN CONTENT: Price table and sidebar widgets
+          ------------------------------------------------------------------- */}
+          <section className="grid grid-cols-1 gap-4 lg:grid-cols-3 items-start">
+          
+            {/* Price data table - spans 2 columns on large screens */}
+            <div className="rounded-2xl bg-white p-4 ring-1 ring-slate-200 shadow-sm lg:col-span-2">
+              <div className="mb-3 flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-slate-900">{t('latestPricePrints')}</h2>
+                  <p className="text-sm text-slate-600">{`${t('uniqueItems')} · ${periodLabel}`}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {loading && <span className="text-xs text-cyan-600">{t('loading')}</span>}
+                  {/* Flagged records toggle: hidden by default, highlighted when shown */}
+                  <label className="flex items-center gap-1 text-xs text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={showFlagged}
+                      onChange={(e) => updateQuery({ flagged: e.target.checked ? "show" : undefined, page: undefined })}
+                      className="accent-amber-500"
+                    />
+                    {t('showFlagged')}
+                  </label>
+                  {/* Export controls: choose table vs raw records, then download as CSV or Excel */}
+                  <select
+                    value={exportView}
+                    onChange={(e) => setExportView(e.target.value as "table" | "raw")}
+                    aria-label={t('export')}
+                    className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 outline-none focus:border-cyan-400"
+                  >
+                    <option value="table">{t('exportTable')}</option>
+                    <option value="raw">{t('exportRaw')}</option>
+                  </select>
+                  <a
+                    href={`${exportHref}&format=csv`}
+                    download
+                    className="rounded-lg px-2 py-1 text-xs font-medium text-cyan-600 ring-1 ring-cyan-200 hover:bg-cyan-50"
+                  >
+                    CSV
+                  </a>
+                  <a
+                    href={`${exportHref}&format=xlsx`}
+                    download
+                    className="rounded-lg px-2 py-1 text-xs font-medium text-cyan-600 ring-1 ring-cyan-200 hover:bg-cyan-50"
+                  >
+                    Excel
+                  </a>
+                </div>
+              </div>
+              <div className="overflow-x-auto rounded-xl border border-slate-200 bg-slate-50">
+                <table className="w-full text-sm text-slate-800 min-w-[400px]">
+                  <thead className="bg-slate-100 text-left text-xs uppercase tracking-wide text-slate-600">
                     <tr>
-                      <td colSpan={6} className="px-3 py-8 text-center text-slate-500">
-                        {t('noData')}
-                      </td>
+                      <SortableHeader label={t('item')} column="item" sort={sort} order={order} onSort={sortBy} className="px-2 py-2 min-[426px]:px-3" />
+                      <SortableHeader label={t('location')} column="location" sort={sort} order={order} onSort={sortBy} className="px-2 py-2 min-[426px]:px-3" />
+                      <SortableHeader label={t('market')} column="market" sort={sort} order={order} onSort={sortBy} className="px-2 py-2 min-[426px]:px-3" />
+                      <SortableHeader label={t('price')} column="price" sort={sort} order={order} onSort={sortBy} className="px-2 py-2 min-[426px]:px-3 text-right" />
+                      <th className="hidden min-[426px]:table-cell px-3 py-2 text-center">{t('trend')}</th>
+                      <SortableHeader label={t('date')} column="date" sort={sort} order={order} onSort={sortBy} className="hidden min-[426px]:table-cell px-3 py-2 text-right" />
                     </tr>
-                  )}
-                </tbody>
-              </table>
-              {/* Show More / Show Less buttons */}
-              {deduplicatedPrices.length > 0 && (
-                <div className="flex justify-center gap-3 py-3 border-t border-slate-200 bg-slate-50">
-                  {visibleRows < deduplicatedPrices.length ? (
+                  </thead>
+                  <tbody>
+                    {/* Display the current page of grouped price records with trend indicators */}
+                    {prices.map((row) => (
+                      <tr
+                        key={row.id}
+                        className={`border-t border-slate-200 ${row.quality?.flagged ? "bg-amber-50 hover:bg-amber-100" : "hover:bg-slate-100"}`}
+                      >
+                        <td className="px-2 py-2 min-[426px]:px-3">
+                          <div className="font-semibold text-slate-900 text-xs min-[426px]:text-sm">
+                            {row.item}
+                            {row.quality?.flagged && (
+                              <span
+                                className="ml-1 text-amber-600"
+                                title={row.quality.reasons.map((reason) => t(`qualityReasons.${reason}`)).join(", ")}
+                              >
+                                ⚠
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-[10px] min-[426px]:text-xs text-slate-500">{row.category} · {row.unit}</div>
+                        </td>
+                        <td className="px-2 py-2 min-[426px]:px-3">
+                          <div className="text-xs min-[426px]:text-sm text-slate-900">{row.province}</div>
+                          <div className="text-[10px] min-[426px]:text-xs text-slate-500">{row.district}</div>
+                        </td>
+                        <td className="px-2 py-2 min-[426px]:px-3 text-xs min-[426px]:text-sm text-slate-700">{row.market}</td>
+                        <td className="px-2 py-2 min-[426px]:px-3 text-right">
+                          <div className="font-semibold text-cyan-600 text-xs min-[426px]:text-sm">{priceFormat.format(row.price)} {row.currency}</div>
+                          {row.normalisedPrice !== null && row.normalisedPrice !== row.price && (
+                            <div className="text-[10px] min-[426px]:text-xs text-slate-600">
+                              ≈ {priceFormat.format(row.normalisedPrice)} {row.currency}/{t(`standardUnits.${row.normalisedUnit}`)}
+                            </div>
+                          )}
+                          {row.previousPrice !== null && (
+                            <div className="text-[10px] min-[426px]:text-xs text-slate-500" title={row.previousDate ?? undefined}>
+                              {t('was')} {priceFormat.format(row.previousPrice)} {row.currency}
+                              {row.previousDate && <span className="hidden min-[426px]:inline"> · {row.previousDate}</span>}
+                            </div>
+                          )}
+                        </td>
+                        <td className="hidden min-[426px]:table-cell px-3 py-2 text-center">
+                          <PriceTrendBadge trend={row.trend} changePercent={row.changePercent} labels={{ up: t('up'), down: t('down'), same: t('same') }} />
+                        </td>
+                        <td className="hidden min-[426px]:table-cell px-3 py-2 text-right text-slate-600">{row.date}</td>
+                      </tr>
+                    ))}
+                    {/* Empty state when no data matches filters */}
+                    {!prices.length && !loading && (
+                      <tr>
+                        <td colSpan={6} className="px-3 py-8 text-center text-slate-500">
+                          {t('noData')}
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+                {/* Pagination: previous / next page */}
+                {totalRows > 0 && (
+                  <div className="flex items-center justify-center gap-3 py-3 border-t border-slate-200 bg-slate-50">
                     <button
-                      onClick={() => setVisibleRows(prev => Math.min(prev + 10, deduplicatedPrices.length))}
-                      className="px-4 py-2 text-sm font-medium text-cyan-600 hover:text-cyan-700 hover:bg-cyan-50 rounded-lg transition-colors"
+                      onClick={() => updateQuery({ page: page > 2 ? String(page - 1) : undefined }, "replace")}
+                      disabled={page <= 1}
+                      className="px-4 py-2 text-sm font-medium text-cyan-600 hover:text-cyan-700 hover:bg-cyan-50 rounded-lg transition-colors disabled:text-slate-300 disabled:hover:bg-transparent"
                     >
-                      {t('showMore')} ({Math.min(10, deduplicatedPrices.length - visibleRows)} {t('moreItems')})
+                      {t('previousPage')}
                     </button>
-                  ) : visibleRows > 10 ? (
+                    <span className="px-3 py-2 text-xs text-slate-500">
+                      {t('showing')} {firstRow}–{Math.min(firstRow + PAGE_SIZE - 1, totalRows)} {t('of')} {totalRows} {t('items')}
+                    </span>
                     <button
-                      onClick={() => setVisibleRows(10)}
-                      className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+                      onClick={() => updateQuery({ page: String(page + 1) }, "replace")}
+                      disabled={page >= pageCount}
+                      className="px-4 py-2 text-sm font-medium text-cyan-600 hover:text-cyan-700 hover:bg-cyan-50 rounded-lg transition-colors disabled:text-slate-300 disabled:hover:bg-transparent"
                     >
-                      {t('showLess')}
+                      {t('nextPage')}
                     </button>
-                  ) : null}
-                  <span className="px-3 py-2 text-xs text-slate-500">
-                    {t('showing')} {Math.min(visibleRows, deduplicatedPrices.length)} {t('of')} {deduplicatedPrices.length} {t('items')}
-                  </span>
-                </div>
-              )}
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
 
-          {/* Sidebar: Bar chart and guidance panel */}
-          <div className="lg:sticky lg:top-4">
-            {/* Average price by province - horizontal bar chart */}
-            <div className="rounded-2xl bg-white p-4 ring-1 ring-slate-200 shadow-sm">
-              <h3 className="text-base font-semibold text-slate-900">{t('averageByProvince')}</h3>
-              <p className="text-xs text-slate-600">{t('meanPrice')}</p>
-              <div className="mt-3 flex flex-col gap-2 overflow-y-auto max-h-[500px]">
-                {averages.map((item) => (
-                  <BarRow
-                    key={item.province}
-                    label={item.province}
-                    value={item.averagePrice}
-                    max={averages[0]?.averagePrice || 1}
-                    formatter={(v) => `${numberFormat.format(Math.round(v))} KHR`}
+            {/* Sidebar: Province map or bar chart */}
+            <div className="lg:sticky lg:top-4">
+              {/* Average price by province - map with district drill-down, or horizontal bar chart */}
+              <div className="rounded-2xl bg-white p-4 ring-1 ring-slate-200 shadow-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <h3 className="text-base font-semibold text-slate-900">{t('averageByProvince')}</h3>
+                    <p className="text-xs text-slate-600">{`${t('meanPrice')} · ${periodLabel}`}</p>
+                  </div>
+                  {/* Map / list toggle */}
+                  <div className="inline-flex items-center rounded-full bg-slate-100 p-1 ring-1 ring-slate-200">
+                    {(["map", "list"] as const).map((view) => (
+                      <button
+                        key={view}
+                        className={`px-3 py-1 text-xs font-medium rounded-full transition-all duration-200 ${
+                          averagesView === view
+                            ? 'bg-cyan-500 text-white shadow-lg shadow-cyan-500/25'
+                            : 'text-slate-500 hover:text-slate-800'
+                        }`}
+                        onClick={() => updateQuery({ averages: view === "map" ? undefined : view }, "replace")}
+                      >
+                        {view === "map" ? t('mapView') : t('listView')}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {averagesView === "map" ? (
+                  <ProvinceMap
+                    shapes={provinceShapes}
+                    averages={averages}
+                    districtAverages={districtAverages}
+                    provinceNames={provinceNames}
+                    provinceId={provinceId}
+                    districtId={districtId}
+                    formatter={(v) => `${priceFormat.format(v)} ${overview?.currency ?? currency}`}
+                    onSelectProvince={(id) => updateQuery({ province: id, district: undefined, page: undefined })}
+                    onSelectDistrict={(id) => updateQuery({ district: id, page: undefined })}
+                    labels={{ noData: t('noPrices'), allProvinces: t('allProvinces'), approximateDistricts: t('approximateDistricts') }}
                   />
-                ))}
-                {!averages.length && <p className="text-sm text-slate-500">{t('noDataDisplay')}</p>}
+                ) : (
+                  <div className="mt-3 flex flex-col gap-2 overflow-y-auto max-h-[500px]">
+                    {averages.map((item) => (
+                      <BarRow
+                        key={item.provinceId}
+                        label={item.province}
+                        value={item.averagePrice}
+                        max={averages[0]?.averagePrice || 1}
+                        formatter={(v) => `${priceFormat.format(v)} ${overview?.currency ?? currency}`}
+                      />
+                    ))}
+                    {!averages.length && <p className="text-sm text-slate-500">{t('noDataDisplay')}</p>}
+                  </div>
+                )}
+              </div>
+
+              {/* Biggest movers: items with the largest rises and falls in the selected location */}
+              <div className="mt-4 rounded-2xl bg-white p-4 ring-1 ring-slate-200 shadow-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <h3 className="text-base font-semibold text-slate-900">{t('biggestMovers')}</h3>
+                    <p className="text-xs text-slate-600">{t('biggestMoversDetail')}</p>
+                  </div>
+                  {/* Month-over-month / year-over-year toggle */}
+                  <div className="inline-flex items-center rounded-full bg-slate-100 p-1 ring-1 ring-slate-200">
+                    {(["mom", "yoy"] as const).map((basis) => (
+                      <button
+                        key={basis}
+                        className={`px-3 py-1 text-xs font-medium rounded-full transition-all duration-200 ${
+                          moversBasis === basis
+                            ? 'bg-cyan-500 text-white shadow-lg shadow-cyan-500/25'
+                            : 'text-slate-500 hover:text-slate-800'
+                        }`}
+                        onClick={() => updateQuery({ movers: basis === "mom" ? undefined : basis }, "replace")}
+                      >
+                        {basis === "mom" ? t('monthOverMonth') : t('yearOverYear')}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {!risers.length && !fallers.length ? (
+                  <p className="mt-3 text-sm text-slate-500">{t('noDataDisplay')}</p>
+                ) : (
+                  <div className="mt-3 flex flex-col gap-3">
+                    {[{ title: t('rises'), rows: risers }, { title: t('falls'), rows: fallers }].map(({ title, rows }) => rows.length > 0 && (
+                      <div key={title} className="flex flex-col gap-1">
+                        <p className="text-xs uppercase tracking-wide text-slate-500">{title}</p>
+                        {rows.map((row) => (
+                          <MoverRow
+                            key={`${row.itemId}-${row.unit}`}
+                            label={row.item}
+                            detail={`${priceFormat.format(row.price)} ${currency}/${row.unit} · ${row.period}`}
+                            changePercent={row[moversBasis]!}
+                            labels={{ up: t('up'), down: t('down'), same: t('same') }}
+                          />
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
-          </div>
-        </section>
+          </section>
+          </>
+        )}
       </div>
     </div>
   );
@@ -530,27 +1514,35 @@ export default function HomePage() {
 /**
  * FilterSelect - Reusable styled dropdown component with label
  * @param label - Display label above the dropdown
- * @param value - Currently selected value
- * @param onChange - Callback when selection changes
+ * @param value - Currently selected value, or values when `multiple`
+ * @param onChange - Callback when selection changes, with every selected value when `multiple`
  * @param options - Array of { value, label } pairs for dropdown options
  * @param disabled - Whether the dropdown is disabled
+ * @param multiple - Show a list box where several options can be picked
  */
 type FilterSelectProps = {
   label: string;
-  value: string;
-  onChange: (value: string) => void;
   options: { value: string; label: string }[];
   disabled?: boolean;
-};
+} & (
+  | { multiple?: false; value: string; onChange: (value: string) => void }
+  | { multiple: true; value: string[]; onChange: (values: string[]) => void }
+);
 
-function FilterSelect({ label, value, onChange, options, disabled }: FilterSelectProps) {
+function FilterSelect(props: FilterSelectProps) {
+  const { label, options, disabled } = props;
   return (
     <label className="flex flex-col gap-1 text-sm text-slate-700">
       <span className="text-xs uppercase tracking-wide text-slate-500">{label}</span>
       <select
-        value={value}
+        value={props.value}
+        multiple={props.multiple}
+        size={props.multiple ? 3 : undefined}
         disabled={disabled}
-        onChange={(e) => onChange(e.target.value)}
+        onChange={(e) => {
+          if (props.multiple) props.onChange([...new Set(Array.from(e.target.selectedOptions, (o) => o.value))]);
+          else props.onChange(e.target.value);
+        }}
         className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-200 disabled:opacity-60"
       >
         {options.map((opt, index) => (
@@ -563,6 +1555,38 @@ function FilterSelect({ label, value, onChange, options, disabled }: FilterSelec
   );
 }
 
+/**
+ * MonthInput - Styled month picker with label, matching FilterSelect
+ * @param label - Display label above the picker
+ * @param value - Selected month ("2024-06"), or "" for none
+ * @param onChange - Callback with the new month, or "" when cleared
+ * @param min - Earliest month that can be picked
+ * @param max - Latest month that can be picked
+ */
+type MonthInputProps = {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  min?: string;
+  max?: string;
+};
+
+function MonthInput({ label, value, onChange, min, max }: MonthInputProps) {
+  return (
+    <label className="flex flex-col gap-1 text-sm text-slate-700">
+      <span className="text-xs uppercase tracking-wide text-slate-500">{label}</span>
+      <input
+        type="month"
+        value={value}
+        min={min}
+        max={max}
+        onChange={(e) => onChange(e.target.value)}
+        className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-200"
+      />
+    </label>
+  );
+}
+
 /**
  * KpiCard - Card component displaying a key performance indicator
  * @param title - KPI title text
@@ -581,6 +1605,42 @@ function KpiCard({ title, value, detail }: KpiCardProps) {
   );
 }
 
+/**
+ * SortableHeader - Table header cell that sorts the table by its column
+ * @param label - Column title
+ * @param column - Sort key sent to /api/prices
+ * @param sort - Column the table is currently sorted by, if any
+ * @param order - Current sort direction
+ * @param onSort - Callback when the header is clicked
+ * @param className - Cell classes (padding, alignment, responsive visibility)
+ */
+type SortableHeaderProps = {
+  label: string;
+  column: SortKey;
+  sort: SortKey | undefined;
+  order: "asc" | "desc";
+  onSort: (column: SortKey) => void;
+  className?: string;
+};
+
+function SortableHeader({ label, column, sort, order, onSort, className }: SortableHeaderProps) {
+  const active = sort === column;
+  return (
+    <th className={className} aria-sort={active ? (order === "asc" ? "ascending" : "descending") : undefined}>
+      <button
+        type="button"
+        onClick={() => onSort(column)}
+        className={`inline-flex items-center gap-1 uppercase tracking-wide hover:text-cyan-600 ${active ? "text-cyan-600" : ""}`}
+      >
+        {label}
+        <span aria-hidden="true" className={active ? "" : "text-slate-300"}>
+          {active && order === "desc" ? "▼" : "▲"}
+        </span>
+      </button>
+    </th>
+  );
+}
+
 /**
  * BarRow - Horizontal bar chart row with label and value
  * @param label - Text label for the bar
@@ -611,17 +1671,231 @@ function BarRow({ label, value, max, formatter }: BarRowProps) {
   );
 }
 
+/**
+ * SeasonalityChart - Bars of each calendar month's deviation from the annual mean
+ * Bars above the line are dearer months, below it cheaper ones; the whisker
+ * spans the lowest and highest single-year deviation.
+ * @param months - Twelve months, January first, with percent deviations
+ * @param monthName - Function naming a month (1-12) in the current locale
+ */
+type SeasonalityChartProps = {
+  months: SeasonalProfile["months"];
+  monthName: (month: number) => string;
+};
+
+function SeasonalityChart({ months, monthName }: SeasonalityChartProps) {
+  // Chart geometry in viewBox units; the SVG scales to the container width
+  const width = 640;
+  const height = 140;
+  const padding = { top: 8, right: 12, bottom: 20, left: 40 };
+  const plotHeight = height - padding.top - padding.bottom;
+  const slot = (width - padding.left - padding.right) / 12;
+
+  // Symmetric scale around zero, at least ±1% so flat profiles stay readable
+  const extent = Math.max(1, ...months.flatMap((m) => [Math.abs(m.low ?? 0), Math.abs(m.high ?? 0)]));
+  const y = (value: number) => padding.top + plotHeight / 2 - (value / extent) * (plotHeight / 2);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img">
+      {[extent, 0, -extent].map((tick) => (
+        <g key={tick}>
+          <line x1={padding.left} x2={width - padding.right} y1={y(tick)} y2={y(tick)} className={tick === 0 ? "stroke-slate-400" : "stroke-slate-200"} />
+          <text x={padding.left - 6} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-slate-500 text-[10px]">
+            {`${tick > 0 ? "+" : ""}${tick.toFixed(0)}%`}
+          </text>
+        </g>
+      ))}
+      {months.map((m, i) => {
+        const centre = padding.left + slot * (i + 0.5);
+        return (
+          <g key={m.month}>
+            {m.deviation !== null && (
+              <rect
+                x={centre - slot * 0.3}
+                width={slot * 0.6}
+                y={Math.min(y(m.deviation), y(0))}
+                height={Math.abs(y(m.deviation) - y(0))}
+                className={m.deviation > 0 ? "fill-red-300" : "fill-green-300"}
+              >
+                <title>{`${monthName(m.month)}: ${m.deviation > 0 ? "+" : ""}${m.deviation.toFixed(1)}%`}</title>
+              </rect>
+            )}
+            {m.low !== null && m.high !== null && m.years > 1 && (
+              <line x1={centre} x2={centre} y1={y(m.high)} y2={y(m.low)} className="stroke-slate-500" />
+            )}
+            <text x={centre} y={height - 6} textAnchor="middle" className="fill-slate-500 text-[10px]">
+              {monthName(m.month)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/**
+ * MoverRow - Item with its price and percent change, for the biggest movers
+ * @param label - Item name
+ * @param detail - Latest price, unit and month
+ * @param changePercent - Percent change on the chosen basis
+ * @param labels - Translated trend labels for the badge
+ */
+type MoverRowProps = {
+  label: string;
+  detail: string;
+  changePercent: number;
+  labels: { up: string; down: string; same: string };
+};
+
+function MoverRow({ label, detail, changePercent, labels }: MoverRowProps) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <div>
+        <div className="text-sm text-slate-800">{label}</div>
+        <div className="text-[10px] text-slate-500">{detail}</div>
+      </div>
+      <PriceTrendBadge trend={changePercent > 0 ? "up" : "down"} changePercent={changePercent} labels={labels} />
+    </div>
+  );
+}
+
+/** Fill classes of the map's five price classes, cheapest first */
+const MAP_FILLS = ["fill-cyan-100", "fill-cyan-300", "fill-cyan-500", "fill-cyan-700", "fill-cyan-900"];
+const MAP_SWATCHES = ["bg-cyan-100", "bg-cyan-300", "bg-cyan-500", "bg-cyan-700", "bg-cyan-900"];
+
+/**
+ * ProvinceMap - Choropleth of average price per province, drilling down to districts
+ * With no province selected every province is shaded; clicking one selects it.
+ * With a province selected its districts are shaded and clicking one selects it.
+ * District areas are approximate: the province is split between the positions of
+ * each district's markets, as no district boundaries are bundled.
+ * @param shapes - Province outlines (public/geo/cambodia-admin1.json)
+ * @param averages - Average price per province
+ * @param districtAverages - Average price per district of the selected province
+ * @param provinceNames - Province names in the current locale, by ID
+ * @param provinceId - Selected province, if any
+ * @param districtId - Selected district, if any
+ * @param formatter - Function to format prices in tooltips and the legend
+ * @param onSelectProvince - Callback with a province ID, or undefined to go back to all provinces
+ * @param onSelectDistrict - Callback with a district ID
+ * @param labels - Translated labels for missing data, the way back and the district caveat
+ */
+type ProvinceMapProps = {
+  shapes: ProvinceFeature[];
+  averages: ProvinceAverage[];
+  districtAverages: DistrictAverage[];
+  provinceNames: Map<string, string>;
+  provinceId?: string;
+  districtId?: string;
+  formatter: (value: number) => string;
+  onSelectProvince: (id: string | undefined) => void;
+  onSelectDistrict: (id: string) => void;
+  labels: { noData: string; allProvinces: string; approximateDistricts: string };
+};
+
+function ProvinceMap({
+  shapes, averages, districtAverages, provinceNames, provinceId, districtId, formatter, onSelectProvince, onSelectDistrict, labels,
+}: ProvinceMapProps) {
+  // Map geometry in viewBox units; the SVG scales to the sidebar width
+  const width = 320;
+  const height = 280;
+  const selectedShape = provinceId ? shapes.find((s) => s.properties.ADM1_PCODE === provinceId) : undefined;
+
+  // Areas to draw: every province, or the districts of the selected one
+  const areas = useMemo(() => {
+    if (selectedShape) {
+      const rings = outerRings(selectedShape.geometry);
+      const project = fitProjection(rings, width, height);
+      const located = districtAverages.filter((d) => d.latitude !== null && d.longitude !== null);
+      const cells = powerCells(located.map((d) => ({ point: project([d.longitude!, d.latitude!] as Point) })), rings.map((ring) => ring.map(project)));
+      return located.map((d, i) => ({ id: d.districtId, name: d.district, value: d.averagePrice, path: ringsToPath(cells[i]) }));
+    }
+    const project = fitProjection(shapes.flatMap((s) => outerRings(s.geometry)), width, height);
+    const values = new Map(averages.map((a) => [a.provinceId, a.averagePrice]));
+    return shapes.map((s) => ({
+      id: s.properties.ADM1_PCODE,
+      name: provinceNames.get(s.properties.ADM1_PCODE) ?? s.properties.ADM1_EN,
+      value: values.get(s.properties.ADM1_PCODE) ?? null,
+      path: ringsToPath(outerRings(s.geometry).map((ring) => ring.map(project))),
+    }));
+  }, [selectedShape, shapes, averages, districtAverages, provinceNames]);
+
+  // Five equal price classes between the cheapest and dearest area shown
+  const values = areas.map((a) => a.value).filter((v): v is number => v !== null);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const classOf = (value: number) => (max > min ? Math.min(4, Math.floor(((value - min) / (max - min)) * 5)) : 2);
+  const selectedId = selectedShape ? districtId : provinceId;
+  const select = (id: string) => (selectedShape ? onSelectDistrict(id) : onSelectProvince(id));
+
+  if (!shapes.length) return null;
+
+  return (
+    <div className="mt-3 flex flex-col gap-2">
+      {selectedShape && (
+        <button
+          type="button"
+          onClick={() => onSelectProvince(undefined)}
+          className="self-start text-xs font-medium text-cyan-600 hover:text-cyan-700"
+        >
+          ← {labels.allProvinces}
+        </button>
+      )}
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img">
+        {areas.map((area) => (
+          <path
+            key={area.id}
+            d={area.path}
+            role="button"
+            tabIndex={0}
+            aria-label={area.name}
+            className={`cursor-pointer stroke-white outline-none transition-opacity hover:opacity-80 focus:opacity-80 ${
+              area.value === null ? "fill-slate-200" : MAP_FILLS[classOf(area.value)]
+            } ${area.id === selectedId ? "stroke-slate-900" : ""}`}
+            strokeWidth={area.id === selectedId ? 2 : 1}
+            onClick={() => select(area.id)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") select(area.id);
+            }}
+          >
+            <title>{`${area.name}: ${area.value === null ? labels.noData : formatter(area.value)}`}</title>
+          </path>
+        ))}
+      </svg>
+      {/* Legend: price classes, then areas without prices */}
+      {values.length > 0 && (
+        <div className="flex flex-col gap-1 text-[10px] text-slate-600">
+          {MAP_SWATCHES.map((swatch, i) => (
+            <span key={swatch} className="inline-flex items-center gap-2">
+              <span className={`inline-block h-2 w-4 rounded-sm ${swatch}`} />
+              {formatter(min + ((max - min) * i) / 5)} – {formatter(min + ((max - min) * (i + 1)) / 5)}
+            </span>
+          ))}
+          {!selectedShape && (
+            <span className="inline-flex items-center gap-2">
+              <span className="inline-block h-2 w-4 rounded-sm bg-slate-200" /> {labels.noData}
+            </span>
+          )}
+        </div>
+      )}
+      {selectedShape && <p className="text-[10px] text-slate-500">{labels.approximateDistricts}</p>}
+    </div>
+  );
+}
+
 /**
  * PriceTrendBadge - Badge showing price trend with arrow icon and color
  * @param trend - "up" (price increased), "down" (price decreased), "same" (no change), or null (no previous data)
+ * @param changePercent - Percent change since the previous observation, shown next to the arrow
  * @param labels - Translated labels for up, down, same
  */
 type PriceTrendBadgeProps = {
   trend: "up" | "down" | "same" | null;
+  changePercent?: number | null;
   labels: { up: string; down: string; same: string };
 };
 
-function PriceTrendBadge({ trend, labels }: PriceTrendBadgeProps) {
+function PriceTrendBadge({ trend, changePercent, labels }: PriceTrendBadgeProps) {
   if (!trend) {
     return (
       <span className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-500">
@@ -651,9 +1925,243 @@ function PriceTrendBadge({ trend, labels }: PriceTrendBadgeProps) {
   const { icon, label, className } = config[trend];
 
   return (
-    <span className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${className}`}>
+    <span className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${className}`} title={label}>
       <span>{icon}</span>
-      <span>{label}</span>
+      <span>{changePercent != null && trend !== "same" ? `${Math.abs(changePercent).toFixed(1)}%` : label}</span>
+    </span>
+  );
+}
+
+/**
+ * PriceHistoryChart - SVG line chart of average price per period with a min/max band
+ * A forecast continues the line dashed after the last period, inside a dashed interval band.
+ * @param points - Aggregated price points sorted oldest first
+ * @param forecast - Forecast months following the last point, or an empty list
+ * @param formatter - Function to format axis and tooltip values
+ * @param labels - Translated legend labels for the average line, min/max band and forecast
+ */
+type PriceHistoryChartProps = {
+  points: PriceHistoryPoint[];
+  forecast: PriceForecast["points"];
+  formatter: (value: number) => string;
+  labels: { average: string; range: string; forecast: string };
+};
+
+function PriceHistoryChart({ points, forecast, formatter, labels }: PriceHistoryChartProps) {
+  // Chart geometry in viewBox units; the SVG scales to the container width
+  const width = 640;
+  const height = 220;
+  const padding = { top: 12, right: 12, bottom: 28, left: 56 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  const minValue = Math.min(...points.map((p) => p.minPrice), ...forecast.map((f) => f.lower80));
+  const maxValue = Math.max(...points.map((p) => p.maxPrice), ...forecast.map((f) => f.upper80));
+  // Avoid a zero-height scale when every value is identical
+  const span = maxValue - minValue || maxValue || 1;
+  const yMin = Math.max(0, minValue - span * 0.1);
+  const yMax = maxValue + span * 0.1;
+
+  // Forecast months take the slots after the history
+  const slots = points.length + forecast.length;
+  const x = (index: number) =>
+    padding.left + (slots === 1 ? plotWidth / 2 : (index / (slots - 1)) * plotWidth);
+  const y = (value: number) => padding.top + plotHeight - ((value - yMin) / (yMax - yMin)) * plotHeight;
+
+  const averageLine = points.map((p, i) => `${i === 0 ? "M" : "L"}${x(i)},${y(p.averagePrice)}`).join(" ");
+  const rangeBand = [
+    ...points.map((p, i) => `${x(i)},${y(p.maxPrice)}`),
+    ...points.map((p, i) => `${x(i)},${y(p.minPrice)}`).reverse(),
+  ].join(" ");
+  // The forecast line and band start from the last actual average
+  const last = points.length - 1;
+  const forecastLine = [
+    `M${x(last)},${y(points[last].averagePrice)}`,
+    ...forecast.map((f, i) => `L${x(points.length + i)},${y(f.price)}`),
+  ].join(" ");
+  const forecastBand = [
+    `${x(last)},${y(points[last].averagePrice)}`,
+    ...forecast.map((f, i) => `${x(points.length + i)},${y(f.upper80)}`),
+    ...forecast.map((f, i) => `${x(points.length + i)},${y(f.lower80)}`).reverse(),
+  ].join(" ");
+
+  const yTicks = [yMin, (yMin + yMax) / 2, yMax];
+  // Label at most ~6 periods on the x axis so they don't overlap
+  const labelEvery = Math.max(1, Math.ceil(slots / 6));
+
+  return (
+    <div className="flex flex-col gap-2">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img">
+        {yTicks.map((tick) => (
+          <g key={tick}>
+            <line x1={padding.left} x2={width - padding.right} y1={y(tick)} y2={y(tick)} className="stroke-slate-200" />
+            <text x={padding.left - 6} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-slate-500 text-[10px]">
+              {formatter(tick)}
+            </text>
+          </g>
+        ))}
+        <polygon points={rangeBand} className="fill-cyan-100" />
+        <path d={averageLine} fill="none" className="stroke-cyan-500" strokeWidth={2} />
+        {points.map((p, i) => (
+          <g key={p.period}>
+            <circle cx={x(i)} cy={y(p.averagePrice)} r={3} className="fill-cyan-600">
+              <title>{`${p.period}: ${formatter(p.averagePrice)} (${formatter(p.minPrice)} – ${formatter(p.maxPrice)})`}</title>
+            </circle>
+            {(i % labelEvery === 0 || i === slots - 1) && (
+              <text x={x(i)} y={height - 8} textAnchor="middle" className="fill-slate-500 text-[10px]">
+                {p.period}
+              </text>
+            )}
+          </g>
+        ))}
+        {forecast.length > 0 && (
+          <g>
+            <polygon points={forecastBand} className="fill-amber-50 stroke-amber-400" strokeDasharray="4 3" />
+            <path d={forecastLine} fill="none" className="stroke-amber-500" strokeWidth={2} strokeDasharray="6 4" />
+            {forecast.map((f, i) => (
+              <g key={f.period}>
+                <circle cx={x(points.length + i)} cy={y(f.price)} r={3} className="fill-white stroke-amber-500">
+                  <title>{`${f.period}: ${formatter(f.price)} (${formatter(f.lower80)} – ${formatter(f.upper80)})`}</title>
+                </circle>
+                {(points.length + i === slots - 1 || (points.length + i) % labelEvery === 0) && (
+                  <text x={x(points.length + i)} y={height - 8} textAnchor="middle" className="fill-amber-600 text-[10px]">
+                    {f.period}
+                  </text>
+                )}
+              </g>
+            ))}
+          </g>
+        )}
+      </svg>
+      <div className="flex items-center gap-4 text-xs text-slate-600">
+        <span className="inline-flex items-center gap-1">
+          <span className="inline-block h-0.5 w-4 bg-cyan-500" /> {labels.average}
+        </span>
+        <span className="inline-flex items-center gap-1">
+          <span className="inline-block h-2 w-4 rounded-sm bg-cyan-100" /> {labels.range}
+        </span>
+        {forecast.length > 0 && (
+          <span className="inline-flex items-center gap-1">
+            <span className="inline-block h-2 w-4 rounded-sm border border-dashed border-amber-400 bg-amber-50" /> {labels.forecast}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * RemovableChip - Picked place or item with a button to remove it
+ * @param label - Name of the place or item
+ * @param removeLabel - Translated accessible label of the remove button
+ * @param onRemove - Callback when the remove button is clicked
+ * @param tone - "place" (default) or "item", to tell the two kinds apart
+ */
+type RemovableChipProps = {
+  label: string;
+  removeLabel: string;
+  onRemove: () => void;
+  tone?: "place" | "item";
+};
+
+function RemovableChip({ label, removeLabel, onRemove, tone = "place" }: RemovableChipProps) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full px-3 py-1 text-xs font-medium ring-1 ${
+        tone === "item" ? "bg-amber-50 text-amber-700 ring-amber-200" : "bg-cyan-50 text-cyan-700 ring-cyan-200"
+      }`}
+    >
+      {label}
+      <button type="button" onClick={onRemove} aria-label={`${removeLabel} ${label}`} className="hover:text-slate-900">
+        ×
+      </button>
     </span>
   );
 }
+
+/** Line and legend colours of the compared places, in order */
+const SERIES_STROKES = ["stroke-cyan-500", "stroke-amber-500", "stroke-violet-500", "stroke-emerald-500", "stroke-rose-500"];
+const SERIES_FILLS = ["fill-cyan-500", "fill-amber-500", "fill-violet-500", "fill-emerald-500", "fill-rose-500"];
+const SERIES_SWATCHES = ["bg-cyan-500", "bg-amber-500", "bg-violet-500", "bg-emerald-500", "bg-rose-500"];
+
+/**
+ * ComparisonChart - SVG line chart of several price or cost series on one axis
+ * Periods missing from a series are skipped, so its line joins the periods it has.
+ * @param series - One labelled series per place, each sorted oldest first
+ * @param formatter - Function to format axis and tooltip values
+ */
+type ComparisonChartProps = {
+  series: { label: string; points: Pick<PriceHistoryPoint, "period" | "averagePrice">[] }[];
+  formatter: (value: number) => string;
+};
+
+function ComparisonChart({ series, formatter }: ComparisonChartProps) {
+  // Chart geometry in viewBox units; the SVG scales to the container width
+  const width = 640;
+  const height = 220;
+  const padding = { top: 12, right: 12, bottom: 28, left: 56 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  // Shared x axis: every period any series has
+  const periods = [...new Set(series.flatMap((s) => s.points.map((p) => p.period)))].sort();
+  const values = series.flatMap((s) => s.points.map((p) => p.averagePrice));
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+  // Avoid a zero-height scale when every value is identical
+  const span = maxValue - minValue || maxValue || 1;
+  const yMin = Math.max(0, minValue - span * 0.1);
+  const yMax = maxValue + span * 0.1;
+
+  const x = (period: string) => {
+    const index = periods.indexOf(period);
+    return padding.left + (periods.length === 1 ? plotWidth / 2 : (index / (periods.length - 1)) * plotWidth);
+  };
+  const y = (value: number) => padding.top + plotHeight - ((value - yMin) / (yMax - yMin)) * plotHeight;
+
+  const yTicks = [yMin, (yMin + yMax) / 2, yMax];
+  // Label at most ~6 periods on the x axis so they don't overlap
+  const labelEvery = Math.max(1, Math.ceil(periods.length / 6));
+
+  return (
+    <div className="flex flex-col gap-2">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img">
+        {yTicks.map((tick) => (
+          <g key={tick}>
+            <line x1={padding.left} x2={width - padding.right} y1={y(tick)} y2={y(tick)} className="stroke-slate-200" />
+            <text x={padding.left - 6} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-slate-500 text-[10px]">
+              {formatter(tick)}
+            </text>
+          </g>
+        ))}
+        {periods.map((period, i) => (i % labelEvery === 0 || i === periods.length - 1) && (
+          <text key={period} x={x(period)} y={height - 8} textAnchor="middle" className="fill-slate-500 text-[10px]">
+            {period}
+          </text>
+        ))}
+        {series.map((s, index) => (
+          <g key={s.label}>
+            <path
+              d={s.points.map((p, i) => `${i === 0 ? "M" : "L"}${x(p.period)},${y(p.averagePrice)}`).join(" ")}
+              fill="none"
+              className={SERIES_STROKES[index % SERIES_STROKES.length]}
+              strokeWidth={2}
+            />
+            {s.points.map((p) => (
+              <circle key={p.period} cx={x(p.period)} cy={y(p.averagePrice)} r={3} className={SERIES_FILLS[index % SERIES_FILLS.length]}>
+                <title>{`${s.label}, ${p.period}: ${formatter(p.averagePrice)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap items-center gap-4 text-xs text-slate-600">
+        {series.map((s, index) => (
+          <span key={s.label} className="inline-flex items-center gap-1">
+            <span className={`inline-block h-0.5 w-4 ${SERIES_SWATCHES[index % SERIES_SWATCHES.length]}`} /> {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
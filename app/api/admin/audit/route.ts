@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listAuditEntries } from "@/lib/admin";
+import { adminOf, notSignedIn } from "@/lib/admin-auth";
+import { field, invalidQuery, parseQuery, serverError } from "@/lib/query";
+import { locales } from "@/i18n";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 200;
+
+const AUDIT_QUERY = {
+  locale: field.optionalOneOf(locales),
+  recordId: field.id(),
+  page: field.integer({ min: 1, max: Number.MAX_SAFE_INTEGER, fallback: 1 }),
+  pageSize: field.integer({ min: 1, max: MAX_PAGE_SIZE, fallback: DEFAULT_PAGE_SIZE }),
+};
+
+/**
+ * GET /api/admin/audit
+ * Returns one page of the audit log of record changes, newest first
+ * - data: [{ id, at, user, action, locale, collection, recordId, reason, before, after, changes }]
+ *   with `before` and `after` the stored record (before is null for a creation)
+ *   and `changes` the fields whose value changed
+ * - total: Number of entries across all pages
+ * - page, pageSize: The page returned
+ *
+ * Query params:
+ * - locale: Only changes to this collection (en or km)
+ * - recordId: Only changes to this record (with locale)
+ * - page: 1-based page number (default 1)
+ * - pageSize: Entries per page (default 20, at most 200)
+ * Needs an admin session
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!adminOf(request)) return notSignedIn();
+    const query = parseQuery(new URL(request.url).searchParams, AUDIT_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { locale, recordId, page, pageSize } = query.values;
+
+    const { entries, total } = await listAuditEntries({ locale, recordId, page, pageSize });
+    return NextResponse.json({ data: entries, total, page, pageSize });
+  } catch (error) {
+    return serverError('Failed to load the audit log', error);
+  }
+}
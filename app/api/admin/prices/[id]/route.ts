@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteRecord, getAdminRecord, parseRecordInput, reasonField, updateRecord } from "@/lib/admin";
+import { adminOf, notSignedIn } from "@/lib/admin-auth";
+import { field, invalidBody, invalidQuery, parseQuery, serverError } from "@/lib/query";
+import { defaultLocale, locales } from "@/i18n";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const RECORD_QUERY = { locale: field.oneOf(locales, defaultLocale) };
+
+const DELETE_QUERY = { ...RECORD_QUERY, reason: reasonField() };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `No price record ${id}` }, { status: 404 });
+}
+
+/**
+ * GET /api/admin/prices/:id
+ * Returns a record as the console edits it:
+ * { id, locale, marketId, market, itemId, item, unit, date, price, currency, pricetype, editedAt, fields }
+ * with `fields` the stored record
+ *
+ * Query params:
+ * - locale: Collection of the record (en or km)
+ * Needs an admin session
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!adminOf(request)) return notSignedIn();
+    const query = parseQuery(new URL(request.url).searchParams, RECORD_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { id } = await params;
+
+    const record = await getAdminRecord(query.values.locale, id);
+    return record ? NextResponse.json(record) : notFound(id);
+  } catch (error) {
+    return serverError('Failed to load record', error);
+  }
+}
+
+/**
+ * PATCH /api/admin/prices/:id
+ * Corrects the given fields of a record (same fields as POST
+ * /api/admin/prices) and returns it; the change is audit-logged
+ *
+ * Query params:
+ * - locale: Collection of the record (en or km)
+ * Needs an admin session
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = adminOf(request);
+    if (!user) return notSignedIn();
+    const query = parseQuery(new URL(request.url).searchParams, RECORD_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { id } = await params;
+    const existing = await getAdminRecord(query.values.locale, id);
+    if (!existing) return notFound(id);
+
+    const parsed = parseRecordInput(await request.json().catch(() => undefined), existing);
+    if ('errors' in parsed) return invalidBody(parsed.errors);
+
+    const result = await updateRecord(query.values.locale, id, parsed.input, { user, reason: parsed.reason });
+    if (!result) return notFound(id);
+    if ('errors' in result) return invalidBody(result.errors);
+    return NextResponse.json(result.record);
+  } catch (error) {
+    return serverError('Failed to update record', error);
+  }
+}
+
+/**
+ * DELETE /api/admin/prices/:id
+ * Deletes a record, which stays stored but out of every query; answers 204.
+ * The change is audit-logged
+ *
+ * Query params:
+ * - locale: Collection of the record (en or km)
+ * - reason: Why the record is deleted, kept in the audit log
+ * Needs an admin session
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = adminOf(request);
+    if (!user) return notSignedIn();
+    const query = parseQuery(new URL(request.url).searchParams, DELETE_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { id } = await params;
+
+    const deleted = await deleteRecord(query.values.locale, id, { user, reason: query.values.reason ?? null });
+    return deleted ? new NextResponse(null, { status: 204 }) : notFound(id);
+  } catch (error) {
+    return serverError('Failed to delete record', error);
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createRecord, parseRecordInput } from "@/lib/admin";
+import { adminOf, notSignedIn } from "@/lib/admin-auth";
+import { countPriceRows, getPriceRows } from "@/lib/db";
+import { DATE_RANGE_QUERY, field, invalidBody, invalidQuery, parseQuery, serverError, toDateRange } from "@/lib/query";
+import { defaultLocale, locales } from "@/i18n";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const ADMIN_PRICES_QUERY = {
+  province: field.id(),
+  district: field.id(),
+  market: field.id(),
+  item: field.item(),
+  locale: field.oneOf(locales, defaultLocale),
+  ...DATE_RANGE_QUERY,
+  page: field.integer({ min: 1, max: Number.MAX_SAFE_INTEGER, fallback: 1 }),
+  pageSize: field.integer({ min: 1, max: MAX_PAGE_SIZE, fallback: DEFAULT_PAGE_SIZE }),
+};
+
+const LOCALE_QUERY = { locale: field.oneOf(locales, defaultLocale) };
+
+/**
+ * GET /api/admin/prices
+ * Returns one page of the records of a collection, newest first, for the
+ * admin console; deleted records are left out
+ * - data: Price rows (see /api/v1/prices), prices in riel
+ * - total: Number of records across all pages
+ * - page, pageSize: The page returned
+ *
+ * Query params:
+ * - province, district, market, item: Place and item IDs to filter records
+ * - from, to, range: Period of the records, as for /api/prices
+ * - page: 1-based page number (default 1)
+ * - pageSize: Records per page (default 50, at most 200)
+ * - locale: Collection to list (en: food_prices_en, km: food_prices_kh)
+ * Needs an admin session
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!adminOf(request)) return notSignedIn();
+    const query = parseQuery(new URL(request.url).searchParams, ADMIN_PRICES_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { page, pageSize, province, district, market, item, locale } = query.values;
+    const scope = { ...toDateRange(query.values), provinceId: province, districtId: district, marketId: market, itemId: item, locale };
+
+    const [data, total] = await Promise.all([
+      getPriceRows({ ...scope, limit: pageSize, offset: (page - 1) * pageSize }),
+      countPriceRows(scope),
+    ]);
+    return NextResponse.json({ data, total, page, pageSize });
+  } catch (error) {
+    return serverError('Failed to load records', error);
+  }
+}
+
+/**
+ * POST /api/admin/prices
+ * Enters a record and returns it with status 201; the change is audit-logged
+ *
+ * JSON body:
+ * - marketId: Market of the observation (required); place fields are copied
+ *   from the market's existing records
+ * - itemId: Food item (required); its name and category are copied likewise
+ * - unit: Unit the price is for, e.g. "KG" (required)
+ * - date: Day of the observation, YYYY-MM-DD, not in the future (required)
+ * - price: Price per unit, above 0 (required)
+ * - currency: "KHR" (default) or "USD"
+ * - pricetype: "Retail" (default) or "Wholesale"
+ * - reason: Why the record is entered, kept in the audit log
+ *
+ * Query params:
+ * - locale: Collection to add the record to (en or km)
+ * Needs an admin session
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = adminOf(request);
+    if (!user) return notSignedIn();
+    const query = parseQuery(new URL(request.url).searchParams, LOCALE_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+
+    const parsed = parseRecordInput(await request.json().catch(() => undefined));
+    if ('errors' in parsed) return invalidBody(parsed.errors);
+
+    const result = await createRecord(query.values.locale, parsed.input, { user, reason: parsed.reason });
+    if ('errors' in result) return invalidBody(result.errors);
+    return NextResponse.json(result.record, { status: 201 });
+  } catch (error) {
+    return serverError('Failed to create record', error);
+  }
+}
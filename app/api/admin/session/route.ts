@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  adminConsoleConfigured, adminOf, ADMIN_NAME_PATTERN, clearAdminSession, notSignedIn, setAdminSession, verifyAdminPassword,
+} from "@/lib/admin-auth";
+import { clientIp } from "@/lib/api-access";
+import { InvalidField, invalidBody, serverError } from "@/lib/query";
+import { consume, peek, rateLimitHeaders, RateLimitResult } from "@/lib/rate-limit";
+
+/** Sign-in attempts a client may make per minute */
+const LOGIN_ATTEMPTS = 10;
+
+/** Failed sign-ins an admin name may have per minute, from any number of clients */
+const FAILED_LOGINS_PER_NAME = 5;
+
+const MAX_PASSWORD_LENGTH = 200;
+
+// Helper for the 429 response of a sign-in limit
+function tooManyAttempts(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    { error: `Too many sign-in attempts, retry in ${result.reset} seconds`, retryAfter: result.reset },
+    { status: 429, headers: rateLimitHeaders(result) }
+  );
+}
+
+/**
+ * GET /api/admin/session
+ * Returns the signed-in admin as { user }, or 401
+ */
+export async function GET(request: NextRequest) {
+  const user = adminOf(request);
+  return user ? NextResponse.json({ user }) : notSignedIn();
+}
+
+/**
+ * POST /api/admin/session
+ * Signs an admin in and sets the session cookie; returns { user }
+ *
+ * JSON body:
+ * - name, password: An admin listed in ADMIN_USERS
+ * Answers 401 for a wrong name or password, 429 after too many attempts from
+ * the client or failed ones for the name, and 503 when no admin is configured
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const attempt = consume(`admin-login:${clientIp(request)}`, LOGIN_ATTEMPTS);
+    if (!attempt.allowed) return tooManyAttempts(attempt);
+    if (!adminConsoleConfigured()) {
+      return NextResponse.json({ error: 'No admin is configured; set ADMIN_USERS' }, { status: 503 });
+    }
+
+    const body = await request.json().catch(() => undefined);
+    const { name, password } = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+    const errors: InvalidField[] = [];
+    if (typeof name !== 'string' || !ADMIN_NAME_PATTERN.test(name)) errors.push({ field: 'name', message: 'must be an admin name' });
+    if (typeof password !== 'string' || !password || password.length > MAX_PASSWORD_LENGTH) {
+      errors.push({ field: 'password', message: 'is required' });
+    }
+    if (errors.length) return invalidBody(errors);
+
+    // Guessing one admin's password from many IPs still hits this limit
+    const failuresBucket = `admin-login-failures:${name}`;
+    const failures = peek(failuresBucket, FAILED_LOGINS_PER_NAME);
+    if (!failures.allowed) return tooManyAttempts(failures);
+    if (!await verifyAdminPassword(name as string, password as string)) {
+      consume(failuresBucket, FAILED_LOGINS_PER_NAME);
+      return NextResponse.json({ error: 'Wrong name or password' }, { status: 401 });
+    }
+    return setAdminSession(NextResponse.json({ user: name }), name as string);
+  } catch (error) {
+    return serverError('Failed to sign in', error);
+  }
+}
+
+/**
+ * DELETE /api/admin/session
+ * Signs out; answers 204
+ */
+export async function DELETE() {
+  return clearAdminSession(new NextResponse(null, { status: 204 }));
+}
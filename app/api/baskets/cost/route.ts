@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Basket, basketItemField, getBasket, getBasketCost, loadBaskets } from "@/lib/basket";
+import { DATE_RANGE_QUERY, field, invalidQuery, parseQuery, SCOPE_QUERY, serverError, toDateRange } from "@/lib/query";
+
+/** Items an inline basket lists at most */
+const MAX_BASKET_ITEMS = 30;
+
+const BASKET_COST_QUERY = {
+  basket: field.id(),
+  items: field.list(basketItemField(), { min: 0, max: MAX_BASKET_ITEMS }),
+  quality: SCOPE_QUERY.quality,
+  currency: SCOPE_QUERY.currency,
+  locale: SCOPE_QUERY.locale,
+  ...DATE_RANGE_QUERY,
+};
+
+/**
+ * GET /api/baskets/cost
+ * Returns the monthly cost of a food basket in every province
+ * - basket: { id, name, description, items: [{ itemId, item, quantity, unit }] }
+ * - periods: Months with prices, oldest first
+ * - provinces: [{ provinceId, province, latest: { period, cost }, changePercent, series }]
+ *   ranked dearest first; series is [{ period, cost, missing }] oldest first,
+ *   with a null cost (and the unpriced items in missing) when an item had no price
+ * - currency: Currency the costs are in
+ *
+ * Query params:
+ * - basket: ID of a basket from /api/baskets (default the first one)
+ * - items: Inline basket instead, as comma-separated <item ID>:<quantity>
+ *   pairs with quantities in kg, litres or pieces (e.g. 52:12,96:0.6)
+ * - quality: "include" (default) flagged records, "exclude" them, or "only" use them
+ * - currency: "KHR" (default) or "USD"; prices are converted at the rate of their date
+ * - from, to: First and last day (YYYY-MM-DD) or month (YYYY-MM) of the period, either optional
+ * - range: "3m", "6m" or "12m" for the months up to today, instead of from and to
+ * - locale: Language locale (en or km) to select database
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseQuery(searchParams, BASKET_COST_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { basket: basketId, items, quality, currency, locale } = query.values;
+
+    if (basketId && items.length) {
+      return invalidQuery([{ field: 'items', message: 'cannot be combined with basket' }]);
+    }
+    let basket: Basket | undefined = items.length ? { id: 'custom', name: {}, items } : loadBaskets()[0];
+    if (basketId) {
+      basket = getBasket(basketId);
+      if (!basket) return invalidQuery([{ field: 'basket', message: `no basket ${basketId}` }]);
+    }
+    if (!basket) return invalidQuery([{ field: 'basket', message: 'no baskets are defined; pass items instead' }]);
+
+    const result = await getBasketCost({ basket, quality, currency, locale, ...toDateRange(query.values) });
+    if ('errors' in result) return invalidQuery(result.errors);
+    return NextResponse.json(result.report);
+  } catch (error) {
+    return serverError('Failed to cost food basket', error);
+  }
+}
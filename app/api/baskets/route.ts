@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { describeBasket, loadBaskets } from "@/lib/basket";
+import { invalidQuery, parseQuery, SCOPE_QUERY, serverError } from "@/lib/query";
+
+const BASKETS_QUERY = {
+  locale: SCOPE_QUERY.locale,
+};
+
+/**
+ * GET /api/baskets
+ * Returns the food baskets defined in data/food-baskets.json
+ * - data: [{ id, name, description, items: [{ itemId, quantity }] }]
+ *   with quantities per month in kg, litres or pieces
+ *
+ * Query params:
+ * - locale: Language locale (en or km) of the basket names and descriptions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseQuery(searchParams, BASKETS_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { locale } = query.values;
+
+    const data = loadBaskets().map((basket) => ({
+      id: basket.id,
+      ...describeBasket(basket, locale),
+      items: basket.items,
+    }));
+    return NextResponse.json({ data });
+  } catch (error) {
+    return serverError('Failed to load food baskets', error);
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CHANGE_GROUPINGS, CHANGE_SORTS, DEFAULT_CHANGE_SPANS, getPriceChanges, MAX_CHANGE_SPAN } from "@/lib/changes";
+import { field, invalidQuery, ITEM_LIST_QUERY, parseQuery, SCOPE_QUERY, serverError, toScope } from "@/lib/query";
+
+const CHANGES_QUERY = {
+  ...SCOPE_QUERY,
+  ...ITEM_LIST_QUERY,
+  by: field.oneOf(CHANGE_GROUPINGS, 'item'),
+  spans: field.list(field.integer({ min: 1, max: MAX_CHANGE_SPAN, fallback: 1 }), { min: 0, max: 6 }),
+  sort: field.oneOf(CHANGE_SORTS, 'item'),
+};
+
+/**
+ * GET /api/changes
+ * Returns the percent price change of each item over one month, a year and
+ * other spans, measured on the median of the markets' monthly mean prices
+ * - data: [{ itemId, item, unit, provinceId, province, period, price, markets,
+ *   mom, yoy, changes: [{ months, period, price, percent }] }]
+ *   where period/price are the series' newest month and its median price;
+ *   a change is null when the month compared with has no prices
+ * - currency: Currency the prices are in
+ *
+ * Query params:
+ * - by: "item" (default) for one series per item, or "province" for one per item and province
+ * - spans: Comma-separated spans in months (1 to 60) for `changes` (default 1,3,6,12)
+ * - sort: "item" (default) by name, or "mom" / "yoy" for the largest rise first
+ * - province: Province ID (pcode, e.g. KH02) to scope the series
+ * - district: District ID to scope the series (requires province)
+ * - item: Food item ID (canonical commodity key) to scope the series
+ * - items: Comma-separated food item IDs, with or instead of item
+ * - categories: Comma-separated category IDs (from /api/filters); with items,
+ *   only the listed items in those categories
+ * - quality: "include" (default) flagged records, "exclude" them, or "only" use them
+ * - currency: "KHR" (default) or "USD"; prices are converted at the rate of their date
+ * - from, to: First and last day (YYYY-MM-DD) or month (YYYY-MM) of the period, either optional
+ * - range: "3m", "6m" or "12m" for the months up to today, instead of from and to
+ * - locale: Language locale (en or km) to select database
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseQuery(searchParams, CHANGES_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { by, spans, sort, currency } = query.values;
+
+    const data = await getPriceChanges({
+      ...toScope(query.values),
+      by,
+      spans: spans.length ? spans : DEFAULT_CHANGE_SPANS,
+      sort,
+    });
+    return NextResponse.json({ currency, data });
+  } catch (error) {
+    return serverError('Failed to compute price changes', error);
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { comparePrices } from "@/lib/compare";
+import { HISTORY_INTERVALS } from "@/lib/db";
+import { DATE_RANGE_QUERY, field, invalidQuery, parseQuery, SCOPE_QUERY, serverError, toDateRange } from "@/lib/query";
+
+/** Places and items one comparison covers at most */
+const MAX_LOCATIONS = 5;
+const MAX_ITEMS = 5;
+
+const COMPARE_QUERY = {
+  locations: field.list(field.location(), { min: 2, max: MAX_LOCATIONS }),
+  items: field.list(SCOPE_QUERY.item, { min: 1, max: MAX_ITEMS }),
+  interval: field.oneOf(HISTORY_INTERVALS, 'month'),
+  quality: SCOPE_QUERY.quality,
+  currency: SCOPE_QUERY.currency,
+  locale: SCOPE_QUERY.locale,
+  ...DATE_RANGE_QUERY,
+};
+
+/**
+ * GET /api/compare
+ * Compares item prices across two to five provinces, districts or markets
+ * - locations: [{ key, level, id, name, parent }] in the order requested
+ * - items: [{ itemId, item, units, prices, spread, history }] where
+ *   - prices: [{ location, price, date, markets }], price being the mean of
+ *     each market's latest price in the period (null if the place has none)
+ *   - spread: { cheapest, dearest, difference, percent } between the places
+ *     with prices, null if fewer than two have one
+ *   - history: [{ location, points: [{ period, averagePrice, minPrice, maxPrice, count }] }]
+ * - currency, interval: As requested
+ *
+ * Query params:
+ * - locations: Comma-separated places, each province:<ID>, district:<ID> or
+ *   market:<ID> (IDs as returned by /api/filters), 2 to 5 (required)
+ * - items: Comma-separated food item IDs, 1 to 5 (required)
+ * - interval: "month" (default) or "week" for the histories
+ * - quality: "include" (default) flagged records, "exclude" them, or "only" use them
+ * - currency: "KHR" (default) or "USD"; prices are converted at the rate of their date
+ * - from, to: First and last day (YYYY-MM-DD) or month (YYYY-MM) of the period, either optional
+ * - range: "3m", "6m" or "12m" for the months up to today, instead of from and to
+ * - locale: Language locale (en or km) to select database
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseQuery(searchParams, COMPARE_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { locations, items, interval, quality, currency, locale } = query.values;
+
+    const result = await comparePrices({ locations, itemIds: items, interval, quality, currency, locale, ...toDateRange(query.values) });
+    if ('errors' in result) return invalidQuery(result.errors);
+    return NextResponse.json(result.comparison);
+  } catch (error) {
+    return serverError('Failed to compare prices', error);
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest } from "next/server";
+import { PassThrough, Readable } from "node:stream";
+import ExcelJS from "exceljs";
+import { getLatestPrices, LatestPriceRow, PriceRow, streamPriceRows } from "@/lib/db";
+import { groupLatestPrices, PRICE_SORT_KEYS, SORT_ORDERS, sortPriceRows } from "@/lib/price-table";
+import { toCsvLine, UTF8_BOM } from "@/lib/csv";
+import { field, invalidQuery, ITEM_LIST_QUERY, parseQuery, SCOPE_QUERY, serverError, toScope } from "@/lib/query";
+
+const EXPORT_VIEWS = ['table', 'latest', 'raw'] as const;
+const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+
+const EXPORT_QUERY = {
+  ...SCOPE_QUERY,
+  ...ITEM_LIST_QUERY,
+  format: field.oneOf(EXPORT_FORMATS, 'csv'),
+  view: field.oneOf(EXPORT_VIEWS, 'table'),
+  sort: field.optionalOneOf(PRICE_SORT_KEYS),
+  order: field.oneOf(SORT_ORDERS, 'asc'),
+};
+
+type ExportRow = PriceRow & Partial<LatestPriceRow>;
+type Column = { header: string; value: (row: ExportRow) => unknown };
+
+const BASE_COLUMNS: Column[] = [
+  { header: 'date', value: (r) => r.date },
+  { header: 'province_id', value: (r) => r.provinceId },
+  { header: 'province', value: (r) => r.province },
+  { header: 'district_id', value: (r) => r.districtId },
+  { header: 'district', value: (r) => r.district },
+  { header: 'market_id', value: (r) => r.marketId },
+  { header: 'market', value: (r) => r.market },
+  { header: 'category_id', value: (r) => r.categoryId },
+  { header: 'category', value: (r) => r.category },
+  { header: 'item_id', value: (r) => r.itemId },
+  { header: 'item', value: (r) => r.item },
+  { header: 'unit', value: (r) => r.unit },
+  { header: 'price', value: (r) => r.price },
+  { header: 'currency', value: (r) => r.currency },
+  { header: 'normalised_price', value: (r) => r.normalisedPrice },
+  { header: 'normalised_unit', value: (r) => r.normalisedUnit },
+  { header: 'quality_flagged', value: (r) => r.quality?.flagged },
+  { header: 'quality_reasons', value: (r) => r.quality?.reasons.join(' ') },
+];
+
+const TREND_COLUMNS: Column[] = [
+  { header: 'previous_price', value: (r) => r.previousPrice },
+  { header: 'previous_date', value: (r) => r.previousDate },
+  { header: 'change', value: (r) => r.change },
+  { header: 'change_percent', value: (r) => r.changePercent },
+  { header: 'trend', value: (r) => r.trend },
+];
+
+// Helper to adapt an array to the async iteration used by the raw cursor
+async function* fromArray<T>(rows: T[]): AsyncGenerator<T> {
+  yield* rows;
+}
+
+function csvStream(rows: AsyncIterable<ExportRow>, columns: Column[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = rows[Symbol.asyncIterator]();
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(encoder.encode(UTF8_BOM + toCsvLine(columns.map((c) => c.header))));
+    },
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(toCsvLine(columns.map((c) => c.value(value)))));
+      }
+    },
+    async cancel() {
+      await iterator.return?.(undefined);
+    },
+  });
+}
+
+function xlsxStream(rows: AsyncIterable<ExportRow>, columns: Column[]): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+  const sheet = workbook.addWorksheet('Prices');
+  sheet.columns = columns.map((c) => ({ header: c.header, key: c.header }));
+  (async () => {
+    for await (const row of rows) {
+      sheet.addRow(columns.map((c) => c.value(row))).commit();
+    }
+    sheet.commit();
+    await workbook.commit();
+  })().catch((error) => output.destroy(error));
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+}
+
+/**
+ * GET /api/export
+ * Streams matching price rows as a CSV (UTF-8 with BOM) or XLSX download
+ *
+ * Query params:
+ * - province, district, item, items, categories, quality, currency, locale,
+ *   from, to, range: Same as /api/prices
+ * - format: "csv" (default) or "xlsx"
+ * - view: "table" (default) - the dashboard's deduplicated table
+ *         "latest" - latest price of every item in every market
+ *         "raw" - every matching record
+ * - sort, order: Order of the "table" view, as in /api/prices
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseQuery(searchParams, EXPORT_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { format, view, sort, order } = query.values;
+    const scope = toScope(query.values);
+
+    let rows: AsyncIterable<ExportRow>;
+    if (view === 'raw') {
+      rows = streamPriceRows(scope);
+    } else {
+      const latest = await getLatestPrices({ ...scope, limit: null });
+      rows = fromArray(view === 'table'
+        ? sortPriceRows(groupLatestPrices(latest, scope), sort, order)
+        : latest);
+    }
+    const columns = view === 'raw' ? BASE_COLUMNS : [...BASE_COLUMNS, ...TREND_COLUMNS];
+
+    const filename = `food-prices-${view}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const body = format === 'xlsx' ? xlsxStream(rows, columns) : csvStream(rows, columns);
+    return new Response(body, {
+      headers: {
+        'Content-Type': format === 'xlsx'
+          ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+          : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return serverError('Failed to export prices', error);
+  }
+}
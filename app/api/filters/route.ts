@@ -1,38 +1,62 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
 import { getFilters, getItemsByLocation } from "@/lib/db";
+import { cachedJson } from "@/lib/http-cache";
+import { invalidQuery, ITEM_LIST_QUERY, parseQuery, SCOPE_QUERY, serverError } from "@/lib/query";
+
+const FILTERS_QUERY = {
+  province: SCOPE_QUERY.province,
+  district: SCOPE_QUERY.district,
+  locale: SCOPE_QUERY.locale,
+  ...ITEM_LIST_QUERY,
+};
+
+/** Seconds clients may reuse filter options; they only change on ingestion */
+const FILTERS_MAX_AGE = 300;
 
 /**
  * GET /api/filters
  * Returns filter options for the dashboard
- * - provinces: List of provinces with nested districts
- * - items: Food items (optionally filtered by province/district)
+ * - provinces: List of provinces with nested districts, and markets within those
+ * - items: Food items [{ id, name, unit, category, categoryId }] (optionally
+ *   filtered by province/district, categories or items)
+ * - categories: [{ id, name }] of every item, whatever the filters
+ * Cacheable for 5 minutes, with an ETag for revalidation
  * 
  * Query params:
- * - province: Province ID to filter items
+ * - province: Province ID (pcode, e.g. KH02) to filter items
  * - district: District ID to filter items (requires province)
+ * - categories: Comma-separated category IDs to filter items
+ * - items: Comma-separated item IDs to filter items
  * - locale: Language locale (en or km) to select database
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const provinceId = searchParams.get("province") ? Number(searchParams.get("province")) : undefined;
-    const districtId = searchParams.get("district") ? Number(searchParams.get("district")) : undefined;
-    const locale = searchParams.get("locale") || 'en';
+    const query = parseQuery(searchParams, FILTERS_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { province: provinceId, district: districtId, locale, items, categories } = query.values;
 
     // Get base filters (provinces with districts)
     const filters = await getFilters(locale);
 
-    // If province or district is specified, get filtered items
-    if (provinceId || districtId) {
-      const filteredItems = await getItemsByLocation({ provinceId, districtId, locale });
-      return NextResponse.json({
+    // If a location, categories or items are specified, get filtered items
+    if (provinceId || districtId || items.length || categories.length) {
+      const filteredItems = await getItemsByLocation({
+        provinceId,
+        districtId,
+        itemIds: items.length ? items : undefined,
+        categoryIds: categories.length ? categories : undefined,
+        locale,
+      });
+      return cachedJson(request, {
         provinces: filters.provinces,
         items: filteredItems,
-      });
+        categories: filters.categories,
+      }, FILTERS_MAX_AGE);
     }
 
-    return NextResponse.json(filters);
+    return cachedJson(request, filters, FILTERS_MAX_AGE);
   } catch (error) {
-    return NextResponse.json({ error: 'Failed to load filters', details: error instanceof Error ? error.message : error }, { status: 500 });
+    return serverError('Failed to load filters', error);
   }
 }
\ No newline at end of file
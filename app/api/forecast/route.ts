@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FORECAST_MODELS, getForecast, MAX_FORECAST_HORIZON } from "@/lib/forecast";
+import { field, invalidQuery, parseQuery, SCOPE_QUERY, serverError, toScope } from "@/lib/query";
+
+const FORECAST_QUERY = {
+  ...SCOPE_QUERY,
+  item: field.required(SCOPE_QUERY.item),
+  horizon: field.integer({ min: 1, max: MAX_FORECAST_HORIZON, fallback: MAX_FORECAST_HORIZON }),
+  model: field.oneOf(FORECAST_MODELS, 'auto'),
+};
+
+/**
+ * GET /api/forecast
+ * Forecasts the monthly average price of one food item one to three months ahead
+ * - model: "naive", "seasonal-naive" or "holt", null if there are too few
+ *   months of prices to forecast
+ * - lastPeriod: Newest month with prices; the forecast starts the month after
+ * - months: Months of prices the forecast is built from
+ * - points: [{ period, horizon, price, lower80, upper80, lower95, upper95 }]
+ * - backtests: [{ model, metrics: [{ horizon, count, mae, mape, rmse }] }] for
+ *   every model scored, the chosen (lowest mean absolute error) first
+ *
+ * Query params:
+ * - item: Food item ID (canonical commodity key, required)
+ * - province: Province ID (pcode, e.g. KH02) to scope the forecast
+ * - district: District ID to scope the forecast (requires province)
+ * - horizon: Months to forecast, 1 to 3 (default 3)
+ * - model: "auto" (default) to pick the best back-tested model, or one of
+ *   "naive", "seasonal-naive", "holt"
+ * - quality: "include" (default) flagged records, "exclude" them, or "only" use them
+ * - currency: "KHR" (default) or "USD"; prices are converted at the rate of their date
+ * - from, to: First and last day (YYYY-MM-DD) or month (YYYY-MM) of the period, either optional
+ * - range: "3m", "6m" or "12m" for the months up to today, instead of from and to
+ * - locale: Language locale (en or km) to select database
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseQuery(searchParams, FORECAST_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { item: itemId, horizon, model, currency } = query.values;
+
+    const result = await getForecast({ ...toScope(query.values), itemId, horizon, model });
+    if ('errors' in result) return invalidQuery(result.errors);
+    return NextResponse.json({ itemId, currency, ...result.report });
+  } catch (error) {
+    return serverError('Failed to forecast prices', error);
+  }
+}
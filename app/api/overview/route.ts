@@ -1,21 +1,32 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getOverview, getAveragesByProvince } from "@/lib/db";
+import { NextRequest } from "next/server";
+import { getOverview, getAveragesByDistrict, getAveragesByProvince } from "@/lib/db";
+import { cachedJson } from "@/lib/http-cache";
+import { invalidQuery, ITEM_LIST_QUERY, parseQuery, SCOPE_QUERY, serverError, toScope } from "@/lib/query";
+
+/** Seconds clients may reuse overview stats before revalidating */
+const OVERVIEW_MAX_AGE = 60;
+
+const OVERVIEW_QUERY = {
+  ...SCOPE_QUERY,
+  ...ITEM_LIST_QUERY,
+};
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const provinceId = searchParams.get("province") ? Number(searchParams.get("province")) : undefined;
-    const districtId = searchParams.get("district") ? Number(searchParams.get("district")) : undefined;
-    const itemName = searchParams.get("item") || undefined;
-    const locale = searchParams.get("locale") || 'en';
+    const query = parseQuery(searchParams, OVERVIEW_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const scope = toScope(query.values);
 
-    const [overview, averages] = await Promise.all([
-      getOverview({ provinceId, districtId, itemName, locale }),
-      getAveragesByProvince(itemName, locale)
+    const [overview, averages, districtAverages] = await Promise.all([
+      getOverview(scope),
+      getAveragesByProvince({ itemId: scope.itemId, itemIds: scope.itemIds, categoryIds: scope.categoryIds, quality: scope.quality, currency: scope.currency, locale: scope.locale, from: scope.from, to: scope.to }),
+      // Districts of the selected province, for the map drill-down
+      scope.provinceId ? getAveragesByDistrict(scope) : [],
     ]);
 
-    return NextResponse.json({ overview, averages });
+    return cachedJson(request, { overview, averages, districtAverages }, OVERVIEW_MAX_AGE);
   } catch (error) {
-    return NextResponse.json({ error: 'Failed to load overview', details: error instanceof Error ? error.message : error }, { status: 500 });
+    return serverError('Failed to load overview', error);
   }
 }
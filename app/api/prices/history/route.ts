@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPriceHistory, HISTORY_INTERVALS } from "@/lib/db";
+import { field, invalidQuery, parseQuery, SCOPE_QUERY, serverError, toScope } from "@/lib/query";
+
+const HISTORY_QUERY = {
+  ...SCOPE_QUERY,
+  item: field.required(SCOPE_QUERY.item),
+  interval: field.oneOf(HISTORY_INTERVALS, 'month'),
+};
+
+/**
+ * GET /api/prices/history
+ * Returns the price series of one food item aggregated per period
+ * - data: [{ period, averagePrice, minPrice, maxPrice, count }] oldest first, priced per
+ *   kg, litre or piece; records in units without a fixed size are left out
+ * - currency: Currency the prices are in
+ *
+ * Query params:
+ * - item: Food item ID (canonical commodity key, required)
+ * - province: Province ID (pcode, e.g. KH02) to scope the series
+ * - district: District ID to scope the series (requires province)
+ * - interval: "month" (default) or "week"
+ * - quality: "include" (default) flagged records, "exclude" them, or "only" use them
+ * - currency: "KHR" (default) or "USD"; prices are converted at the rate of their date
+ * - from, to: First and last day (YYYY-MM-DD) or month (YYYY-MM) of the period, either optional
+ * - range: "3m", "6m" or "12m" for the months up to today, instead of from and to
+ * - locale: Language locale (en or km) to select database
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseQuery(searchParams, HISTORY_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { item: itemId, interval, currency } = query.values;
+
+    const data = await getPriceHistory({ ...toScope(query.values), itemId, interval });
+    return NextResponse.json({ interval, currency, data });
+  } catch (error) {
+    return serverError('Failed to load price history', error);
+  }
+}
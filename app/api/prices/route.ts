@@ -1,21 +1,57 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getPriceRows } from "@/lib/db";
+import { getPriceTable } from "@/lib/db";
+import { PRICE_SORT_KEYS, SORT_ORDERS } from "@/lib/price-table";
+import { field, invalidQuery, ITEM_LIST_QUERY, parseQuery, SCOPE_QUERY, serverError, toScope } from "@/lib/query";
 
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 200;
+
+const PRICES_QUERY = {
+  ...SCOPE_QUERY,
+  ...ITEM_LIST_QUERY,
+  page: field.integer({ min: 1, max: Number.MAX_SAFE_INTEGER, fallback: 1 }),
+  pageSize: field.integer({ min: 1, max: MAX_PAGE_SIZE, fallback: DEFAULT_PAGE_SIZE }),
+  sort: field.optionalOneOf(PRICE_SORT_KEYS),
+  order: field.oneOf(SORT_ORDERS, 'asc'),
+};
+
+/**
+ * GET /api/prices
+ * Returns one page of the latest price of each item, grouped like the
+ * dashboard table (see lib/price-table.ts)
+ * - data: Price rows with previousPrice, previousDate, change, changePercent
+ *   and trend measured against the same market's previous observation,
+ *   plus the record's quality flag (null if never validated)
+ * - total: Number of rows across all pages
+ * - page, pageSize: The page returned
+ *
+ * Query params:
+ * - province: Province ID (pcode, e.g. KH02) to filter rows
+ * - district: District ID to filter rows (requires province)
+ * - item: Food item ID (canonical commodity key) to filter rows
+ * - items: Comma-separated food item IDs, with or instead of item
+ * - categories: Comma-separated category IDs (from /api/filters); with items,
+ *   only the listed items in those categories
+ * - quality: "include" (default) flagged records, "exclude" them, or "only" return them
+ * - currency: "KHR" (default) or "USD"; prices are converted at the rate of their date
+ * - page: 1-based page number (default 1)
+ * - pageSize: Rows per page (default 20, at most 200)
+ * - sort: "item", "location", "market", "price" or "date"; omitted keeps the grouping order
+ * - order: "asc" (default) or "desc"
+ * - from, to: First and last day (YYYY-MM-DD) or month (YYYY-MM) of the period, either optional
+ * - range: "3m", "6m" or "12m" for the months up to today, instead of from and to
+ * - locale: Language locale (en or km) to select database
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const provinceId = searchParams.get("province") ? Number(searchParams.get("province")): undefined;
-    const districtId = searchParams.get("district") ? Number(searchParams.get("district")) : undefined;
-    const itemName = searchParams.get("item") || undefined;
-    const locale = searchParams.get("locale") || 'en';
-
-    // Increase limit when no filters applied to get all provinces × all items
-    // 25 provinces × 19 items × multiple records per combination = need larger limit
-    const limit = (!provinceId && !itemName) ? 5000 : (!provinceId || !districtId) ? 1000 : 500;
+    const query = parseQuery(searchParams, PRICES_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { page, pageSize, sort, order } = query.values;
 
-    const data = await getPriceRows({ provinceId, districtId, itemName, limit, locale });
-    return NextResponse.json({ data });
+    const { rows, total } = await getPriceTable({ ...toScope(query.values), page, pageSize, sort, order });
+    return NextResponse.json({ data: rows, total, page, pageSize });
   } catch (error) {
-    return NextResponse.json({ error: 'Failed to load prices', details: error instanceof Error ? error.message : error }, { status: 500 });
+    return serverError('Failed to load prices', error);
   }
 }
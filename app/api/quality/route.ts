@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getQualityReport } from "@/lib/db";
+import { DATE_RANGE_QUERY, invalidQuery, parseQuery, SCOPE_QUERY, serverError, toScope } from "@/lib/query";
+
+const QUALITY_QUERY = {
+  province: SCOPE_QUERY.province,
+  district: SCOPE_QUERY.district,
+  item: SCOPE_QUERY.item,
+  locale: SCOPE_QUERY.locale,
+  ...DATE_RANGE_QUERY,
+};
+
+/**
+ * GET /api/quality
+ * Returns a data quality summary per market, worst flagged rate first
+ * - data: [{ market, province, district, total, flagged, unchecked, flaggedRate, reasons, lastChecked }]
+ * - totals: Record counts across all returned markets
+ *
+ * Query params:
+ * - province: Province ID to scope the report
+ * - district: District ID to scope the report (requires province)
+ * - item: Food item ID to scope the report
+ * - from, to: First and last day (YYYY-MM-DD) or month (YYYY-MM) of the period, either optional
+ * - range: "3m", "6m" or "12m" for the months up to today, instead of from and to
+ * - locale: Language locale (en or km) to select database
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseQuery(searchParams, QUALITY_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+
+    const data = await getQualityReport(toScope(query.values));
+    const totals = data.reduce(
+      (sum, m) => ({ total: sum.total + m.total, flagged: sum.flagged + m.flagged, unchecked: sum.unchecked + m.unchecked }),
+      { total: 0, flagged: 0, unchecked: 0 }
+    );
+    return NextResponse.json({ data, totals });
+  } catch (error) {
+    return serverError('Failed to load quality report', error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { field, invalidQuery, parseQuery, SCOPE_QUERY, serverError, toScope } from "@/lib/query";
+import { getSeasonalProfile, MIN_MONTHS_PER_YEAR } from "@/lib/seasonality";
+
+const SEASONALITY_QUERY = {
+  ...SCOPE_QUERY,
+  item: field.required(SCOPE_QUERY.item),
+};
+
+/**
+ * GET /api/seasonality
+ * Returns the seasonal index of one food item: how far each calendar month's
+ * average price is from the mean of its year, averaged over the years
+ * - months: [{ month, deviation, low, high, years }] for January (1) to
+ *   December (12); deviations are percents, null for months without prices
+ * - years: Years the index is built from (those with prices in at least 10 months)
+ * - minMonthsPerYear: That threshold
+ *
+ * Query params:
+ * - item: Food item ID (canonical commodity key, required)
+ * - province: Province ID (pcode, e.g. KH02) to scope the index
+ * - district: District ID to scope the index (requires province)
+ * - quality: "include" (default) flagged records, "exclude" them, or "only" use them
+ * - currency: "KHR" (default) or "USD"; prices are converted at the rate of their date
+ * - from, to: First and last day (YYYY-MM-DD) or month (YYYY-MM) of the period, either optional
+ * - range: "3m", "6m" or "12m" for the months up to today, instead of from and to
+ * - locale: Language locale (en or km) to select database
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseQuery(searchParams, SEASONALITY_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { item: itemId } = query.values;
+
+    const profile = await getSeasonalProfile({ ...toScope(query.values), itemId });
+    return NextResponse.json({ itemId, ...profile, minMonthsPerYear: MIN_MONTHS_PER_YEAR });
+  } catch (error) {
+    return serverError('Failed to build seasonal index', error);
+  }
+}
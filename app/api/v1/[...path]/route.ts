@@ -0,0 +1,10 @@
+import { NextRequest } from "next/server";
+import { v1Error } from "@/lib/api-v1";
+
+/**
+ * Any other path below /api/v1, answered with the v1 error envelope rather
+ * than the app's HTML 404 page
+ */
+export async function GET(request: NextRequest) {
+  return v1Error(404, `No endpoint ${new URL(request.url).pathname}; see /api/v1/openapi.json`);
+}
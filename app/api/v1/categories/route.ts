@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import { V1_QUERIES, v1InvalidQuery, v1Json, v1ServerError } from "@/lib/api-v1";
+import { getFilters } from "@/lib/db";
+import { parseQuery } from "@/lib/query";
+
+/**
+ * GET /api/v1/categories
+ * Categories of the food items
+ * - data: [{ id, name }]
+ * - meta: { apiVersion, locale }
+ *
+ * Query params:
+ * - locale: Language (en or km) of the names; IDs are the same in both
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseQuery(new URL(request.url).searchParams, V1_QUERIES['/categories']);
+    if ('errors' in query) return v1InvalidQuery(query.errors);
+    const { locale } = query.values;
+
+    const { categories } = await getFilters(locale);
+    return v1Json(request, categories, { meta: { locale } });
+  } catch (error) {
+    return v1ServerError('Failed to load categories', error);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import { V1_QUERIES, v1InvalidQuery, v1Json, v1ServerError } from "@/lib/api-v1";
+import { getFilters, getItemsByLocation } from "@/lib/db";
+import { parseQuery } from "@/lib/query";
+
+/**
+ * GET /api/v1/items
+ * Food items, one entry per item and unit it is sold in
+ * - data: [{ id, name, unit, category, categoryId }]
+ * - meta: { apiVersion, locale }
+ *
+ * Query params:
+ * - province: Province ID, for the items with prices there
+ * - district: District ID, for the items with prices there
+ * - categories: Comma-separated category IDs
+ * - locale: Language (en or km) of the names; IDs are the same in both, except
+ *   districts missing from the gazetteer in lib/identifiers.ts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseQuery(new URL(request.url).searchParams, V1_QUERIES['/items']);
+    if ('errors' in query) return v1InvalidQuery(query.errors);
+    const { province: provinceId, district: districtId, categories, locale } = query.values;
+
+    const items = provinceId || districtId || categories.length
+      ? await getItemsByLocation({ provinceId, districtId, categoryIds: categories.length ? categories : undefined, locale })
+      : (await getFilters(locale)).items;
+    return v1Json(request, items, { meta: { locale } });
+  } catch (error) {
+    return v1ServerError('Failed to load items', error);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest } from "next/server";
+import { V1_QUERIES, v1InvalidQuery, v1Json, v1ServerError } from "@/lib/api-v1";
+import { getFilters } from "@/lib/db";
+import { parseQuery } from "@/lib/query";
+
+/**
+ * GET /api/v1/locations
+ * Provinces with their districts, and the markets within those
+ * - data: [{ id, name, districts: [{ id, name, markets: [{ id, name }] }] }]
+ * - meta: { apiVersion, locale }
+ *
+ * Query params:
+ * - locale: Language (en or km) of the names; IDs are the same in both, except
+ *   districts missing from the gazetteer in lib/identifiers.ts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseQuery(new URL(request.url).searchParams, V1_QUERIES['/locations']);
+    if ('errors' in query) return v1InvalidQuery(query.errors);
+    const { locale } = query.values;
+
+    const { provinces } = await getFilters(locale);
+    return v1Json(request, provinces, { meta: { locale } });
+  } catch (error) {
+    return v1ServerError('Failed to load locations', error);
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest } from "next/server";
+import { v1ServerError } from "@/lib/api-v1";
+import { cachedJson } from "@/lib/http-cache";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+/** Seconds clients may reuse the document; it only changes with a deployment */
+const OPENAPI_MAX_AGE = 3600;
+
+/**
+ * GET /api/v1/openapi.json
+ * The OpenAPI 3.1 document of /api/v1, as is rather than in an envelope so
+ * tools can read it directly
+ */
+export async function GET(request: NextRequest) {
+  try {
+    return cachedJson(request, buildOpenApiDocument(), OPENAPI_MAX_AGE);
+  } catch (error) {
+    return v1ServerError('Failed to build the API description', error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { scopeMeta, V1_QUERIES, v1InvalidQuery, v1Json, v1ServerError } from "@/lib/api-v1";
+import { getAveragesByProvince, getOverview } from "@/lib/db";
+import { parseQuery, toScope } from "@/lib/query";
+
+/**
+ * GET /api/v1/overview
+ * Summary of the records in scope
+ * - data: { lastUpdated, totalItems, totalMarkets, averagePrice, provinces }
+ *   where averagePrice is the mean price per kg, litre or piece and provinces
+ *   is [{ provinceId, province, averagePrice }], highest first
+ * - meta: { apiVersion, locale, currency, from, to }
+ *
+ * Query params: as /api/v1/prices, without market and paging
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseQuery(new URL(request.url).searchParams, V1_QUERIES['/overview']);
+    if ('errors' in query) return v1InvalidQuery(query.errors);
+    const scope = toScope(query.values);
+
+    const [overview, provinces] = await Promise.all([getOverview(scope), getAveragesByProvince(scope)]);
+    // The currency is in meta, like on the other price endpoints
+    const { lastUpdated, totalItems, totalMarkets, averagePrice } = overview;
+    return v1Json(request, { lastUpdated, totalItems, totalMarkets, averagePrice, provinces }, { meta: scopeMeta(scope) });
+  } catch (error) {
+    return v1ServerError('Failed to load overview', error);
+  }
+}
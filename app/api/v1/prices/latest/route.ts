@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { paginate, scopeMeta, toV1Scope, V1_QUERIES, v1InvalidQuery, v1Json, v1ServerError } from "@/lib/api-v1";
+import { getLatestPrices } from "@/lib/db";
+import { parseQuery } from "@/lib/query";
+
+/**
+ * GET /api/v1/prices/latest
+ * The latest price of every item in every market, newest first
+ * - data: Price records as in /api/v1/prices, each with previousPrice,
+ *   previousDate, change, changePercent and trend ("up", "down" or "same")
+ *   measured against the same market's previous observation
+ * - meta: { apiVersion, locale, currency, from, to }
+ * - pagination: { page, pageSize, total, totalPages }
+ *
+ * Query params: as /api/v1/prices
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseQuery(new URL(request.url).searchParams, V1_QUERIES['/prices/latest']);
+    if ('errors' in query) return v1InvalidQuery(query.errors);
+    const scope = toV1Scope(query.values);
+
+    const rows = await getLatestPrices({ ...scope, limit: null });
+    const { offset, ...pagination } = paginate(query.values, rows.length);
+    return v1Json(request, rows.slice(offset, offset + pagination.pageSize), { meta: scopeMeta(scope), pagination });
+  } catch (error) {
+    return v1ServerError('Failed to load latest prices', error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { paginate, scopeMeta, toV1Scope, V1_QUERIES, v1InvalidQuery, v1Json, v1ServerError } from "@/lib/api-v1";
+import { countPriceRows, getPriceRows } from "@/lib/db";
+import { parseQuery } from "@/lib/query";
+
+/**
+ * GET /api/v1/prices
+ * Price records one by one, newest first
+ * - data: [{ id, date, provinceId, province, districtId, district, marketId,
+ *   market, itemId, item, categoryId, category, unit, price, currency,
+ *   normalisedPrice, normalisedUnit, quality }]
+ * - meta: { apiVersion, locale, currency, from, to }
+ * - pagination: { page, pageSize, total, totalPages }
+ *
+ * Query params:
+ * - province, district, market: Place IDs (as listed by /api/v1/locations)
+ * - item: Food item ID
+ * - items, categories: Comma-separated item and category IDs; with both, only
+ *   the listed items in those categories
+ * - quality: "include" (default) flagged records, "exclude" them, or "only" return them
+ * - currency: "KHR" (default) or "USD"; prices are converted at the rate of their date
+ * - from, to: First and last day (YYYY-MM-DD) or month (YYYY-MM) of the period, either optional
+ * - range: "3m", "6m" or "12m" for the months up to today, instead of from and to
+ * - page: 1-based page number (default 1)
+ * - pageSize: Records per page (default 100, at most 1000)
+ * - locale: Language (en or km) of the names; IDs are the same in both, except
+ *   districts missing from the gazetteer in lib/identifiers.ts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseQuery(new URL(request.url).searchParams, V1_QUERIES['/prices']);
+    if ('errors' in query) return v1InvalidQuery(query.errors);
+    const scope = toV1Scope(query.values);
+
+    const { offset, ...pagination } = paginate(query.values, await countPriceRows(scope));
+    const rows = await getPriceRows({ ...scope, limit: pagination.pageSize, offset });
+    return v1Json(request, rows, { meta: scopeMeta(scope), pagination });
+  } catch (error) {
+    return v1ServerError('Failed to load prices', error);
+  }
+}
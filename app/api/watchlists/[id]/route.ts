@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hasWriteAccess, writeAccessRequired } from "@/lib/api-access";
+import { invalidBody, serverError } from "@/lib/query";
+import { deleteRule, getRule, parseRuleInput, updateRule } from "@/lib/watchlists";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `No watchlist rule ${id}` }, { status: 404 });
+}
+
+/**
+ * GET /api/watchlists/:id
+ * Returns one rule
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const rule = await getRule(id);
+    return rule ? NextResponse.json(rule) : notFound(id);
+  } catch (error) {
+    return serverError('Failed to load watchlist rule', error);
+  }
+}
+
+/**
+ * PATCH /api/watchlists/:id
+ * Updates the given fields of a rule (same fields as POST /api/watchlists)
+ * and returns it; `condition` is replaced as a whole
+ * Needs an API key or an admin session
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!(await hasWriteAccess(request))) return writeAccessRequired(request);
+    const { id } = await params;
+    const existing = await getRule(id);
+    if (!existing) return notFound(id);
+
+    const body = await request.json().catch(() => undefined);
+    const parsed = parseRuleInput(body, existing);
+    if ('errors' in parsed) return invalidBody(parsed.errors);
+
+    const rule = await updateRule(id, parsed.input);
+    return rule ? NextResponse.json(rule) : notFound(id);
+  } catch (error) {
+    return serverError('Failed to update watchlist rule', error);
+  }
+}
+
+/**
+ * DELETE /api/watchlists/:id
+ * Deletes a rule; answers 204
+ * Needs an API key or an admin session
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!(await hasWriteAccess(request))) return writeAccessRequired(request);
+    const { id } = await params;
+    return (await deleteRule(id)) ? new NextResponse(null, { status: 204 }) : notFound(id);
+  } catch (error) {
+    return serverError('Failed to delete watchlist rule', error);
+  }
+}
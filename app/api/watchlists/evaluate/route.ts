@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hasWriteAccess, writeAccessRequired } from "@/lib/api-access";
+import { field, invalidQuery, parseQuery, serverError } from "@/lib/query";
+import { evaluateWatchlists } from "@/lib/watchlists";
+
+const EVALUATE_QUERY = {
+  rule: field.id(),
+  dryRun: field.oneOf(['true', 'false'], 'false'),
+};
+
+/**
+ * POST /api/watchlists/evaluate
+ * Evaluates the active rules against the latest monthly prices and sends any
+ * alerts to WATCHLIST_WEBHOOK_URL
+ * - evaluated: Number of rules checked
+ * - alerts: Alerts raised, each rule at most once per month of data
+ * - webhook: "sent", "failed", "not-configured", "dry-run" or "nothing-to-send"
+ *
+ * Query params:
+ * - rule: Only evaluate this rule, even if it is paused
+ * - dryRun: "true" to return the alerts without sending or recording them
+ * Needs an API key or an admin session
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await hasWriteAccess(request))) return writeAccessRequired(request);
+    const { searchParams } = new URL(request.url);
+    const query = parseQuery(searchParams, EVALUATE_QUERY);
+    if ('errors' in query) return invalidQuery(query.errors);
+    const { rule, dryRun } = query.values;
+
+    const report = await evaluateWatchlists({ dryRun: dryRun === 'true', ruleIds: rule ? [rule] : undefined });
+    return NextResponse.json(report, { status: report.webhook === 'failed' ? 502 : 200 });
+  } catch (error) {
+    return serverError('Failed to evaluate watchlists', error);
+  }
+}
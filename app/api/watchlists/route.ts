@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hasWriteAccess, writeAccessRequired } from "@/lib/api-access";
+import { invalidBody, serverError } from "@/lib/query";
+import { createRule, listRules, parseRuleInput } from "@/lib/watchlists";
+
+/**
+ * GET /api/watchlists
+ * Returns every price alert rule, oldest first
+ * - data: [{ id, name, itemId, provinceId, districtId, condition, currency, locale, active, createdAt, updatedAt, lastAlert }]
+ */
+export async function GET() {
+  try {
+    const data = await listRules();
+    return NextResponse.json({ data });
+  } catch (error) {
+    return serverError('Failed to load watchlist rules', error);
+  }
+}
+
+/**
+ * POST /api/watchlists
+ * Creates a rule and returns it with status 201
+ *
+ * JSON body:
+ * - itemId: Food item ID (required)
+ * - provinceId, districtId: Location to watch; omitted watches the whole country
+ * - condition: { type: "above" | "below", price } or
+ *              { type: "change", percent, direction: "up" | "down" | "either" (default) }
+ *   Prices are compared with the item's monthly average; changes with the month before
+ * - currency: "KHR" (default) or "USD", the currency of condition.price
+ * - name: Label used in alerts (default describes the rule)
+ * - locale: Language of names in alerts (en or km)
+ * - active: false to pause the rule (default true)
+ * Needs an API key or an admin session
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await hasWriteAccess(request))) return writeAccessRequired(request);
+    const body = await request.json().catch(() => undefined);
+    const parsed = parseRuleInput(body);
+    if ('errors' in parsed) return invalidBody(parsed.errors);
+
+    const rule = await createRule(parsed.input);
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    return serverError('Failed to create watchlist rule', error);
+  }
+}
@@ -0,0 +1,107 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Sign-in of the admin console
+ *
+ * Admins are listed in ADMIN_USERS as comma-separated "name:salt:hash" entries,
+ * the hash being scrypt of the password (print an entry with
+ * `npm run admin:password`). Without any, nobody can sign in. A signed-in admin
+ * holds a session cookie signed with ADMIN_SESSION_SECRET for
+ * ADMIN_SESSION_SECONDS; removing an admin from ADMIN_USERS ends their sessions.
+ */
+
+export const ADMIN_COOKIE = 'fp_admin';
+
+/** Seconds an admin session lasts */
+export const ADMIN_SESSION_SECONDS = 8 * 60 * 60;
+
+/** Admin names: letters, digits, "_" and "-", so they can't break the cookie or user list apart */
+export const ADMIN_NAME_PATTERN = /^[\w-]{1,50}$/;
+
+const KEY_LENGTH = 64;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+// Without ADMIN_SESSION_SECRET, sessions only hold until the server restarts
+const fallbackSecret = randomBytes(32).toString('hex');
+
+// Helper to read ADMIN_USERS; malformed entries are ignored
+function adminUsers(): Map<string, { salt: Buffer; hash: Buffer }> {
+  const users = new Map<string, { salt: Buffer; hash: Buffer }>();
+  (process.env.ADMIN_USERS ?? '').split(',').forEach((entry) => {
+    const [name, salt, hash] = entry.trim().split(':');
+    if (!ADMIN_NAME_PATTERN.test(name ?? '') || !/^[0-9a-f]+$/i.test(salt ?? '') || !/^[0-9a-f]+$/i.test(hash ?? '')) return;
+    users.set(name, { salt: Buffer.from(salt, 'hex'), hash: Buffer.from(hash, 'hex') });
+  });
+  return users;
+}
+
+export function adminConsoleConfigured(): boolean {
+  return adminUsers().size > 0;
+}
+
+/** An ADMIN_USERS entry for a name and password */
+export async function hashAdminPassword(name: string, password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${name}:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+/**
+ * Check an admin's password
+ * Unknown names are hashed too, so response times don't tell which names exist
+ */
+export async function verifyAdminPassword(name: string, password: string): Promise<boolean> {
+  const user = adminUsers().get(name);
+  const hash = await scryptAsync(password, user?.salt ?? Buffer.alloc(16), KEY_LENGTH);
+  return !!user && user.hash.length === hash.length && timingSafeEqual(user.hash, hash);
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', process.env.ADMIN_SESSION_SECRET || fallbackSecret).update(payload).digest('base64url');
+}
+
+/**
+ * The admin a session cookie ("<name>.<issued at, ms>.<signature>") belongs
+ * to, null unless genuine, unexpired and of a listed admin
+ */
+export function adminFromSession(value: string | undefined, now: number = Date.now()): string | null {
+  const [name, issuedAt, signature] = value?.split('.') ?? [];
+  if (!name || !issuedAt || !signature) return null;
+  const expected = Buffer.from(sign(`${name}.${issuedAt}`));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+  const issued = Number(issuedAt);
+  if (!(issued <= now && now - issued < ADMIN_SESSION_SECONDS * 1000)) return null;
+  return adminUsers().has(name) ? name : null;
+}
+
+/** The admin signed in on a request, null if none */
+export function adminOf(request: NextRequest): string | null {
+  return adminFromSession(request.cookies.get(ADMIN_COOKIE)?.value);
+}
+
+/** Start a session for an admin on a response */
+export function setAdminSession(response: NextResponse, name: string): NextResponse {
+  const now = Date.now();
+  response.cookies.set(ADMIN_COOKIE, `${name}.${now}.${sign(`${name}.${now}`)}`, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: ADMIN_SESSION_SECONDS,
+  });
+  return response;
+}
+
+export function clearAdminSession(response: NextResponse): NextResponse {
+  response.cookies.set(ADMIN_COOKIE, '', { httpOnly: true, sameSite: 'strict', path: '/', maxAge: 0 });
+  return response;
+}
+
+/** 401 response for a request without an admin session */
+export function notSignedIn(): NextResponse {
+  return NextResponse.json({ error: 'Sign in to the admin console first' }, { status: 401 });
+}
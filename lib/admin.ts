@@ -0,0 +1,372 @@
+import { randomUUID } from 'node:crypto';
+import { convertPrice, CURRENCIES, Currency, DEFAULT_CURRENCY } from './currency';
+import { normaliseDate } from './dates';
+import { getCollection, getPriceRows, getRepository } from './db';
+import { sourceKeyOf } from './price-records';
+import { field, InvalidField, parseValue, positiveNumber, QueryField } from './query';
+import { PriceDocument, recordIds } from './repositories/rows';
+import { locales } from '../i18n';
+
+/**
+ * Manual price entry and corrections from the admin console (app/[locale]/admin)
+ *
+ * Admins create, correct and delete records of either locale collection. A
+ * record's place and item fields are copied from an existing record of the
+ * chosen market and item, so entries group with the ingested data. Both
+ * collections hold the same observations, so a correction or deletion also
+ * applies to the matching record of the other one, with its own audit entry. Deleting
+ * only sets `deleted_at`; every query leaves such records out. Changed records
+ * get `edited_at`, which keeps ingestion from overwriting them (lib/ingest.ts),
+ * and lose their quality flag until the next validation run. Ingested records
+ * also keep the natural key they were loaded with in `source_key`, so
+ * ingestion matches their source row to them rather than loading it again.
+ *
+ * Every change appends an entry to the audit log: who, when, and the record
+ * before and after. Stores only ever add entries to the log.
+ */
+
+export const PRICE_TYPES = ['Retail', 'Wholesale'] as const;
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete'] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+/** The fields of a record an admin sets */
+export type RecordInput = {
+  marketId: string;
+  itemId: string;
+  unit: string;
+  /** Day of the observation (YYYY-MM-DD) */
+  date: string;
+  price: number;
+  currency: Currency;
+  pricetype: typeof PRICE_TYPES[number];
+};
+
+/** A record's stored fields, without its ID and quality flag */
+export type RecordFields = Record<string, string | number>;
+
+/** A record as the console edits it */
+export type AdminRecord = RecordInput & {
+  id: string;
+  locale: string;
+  market: string;
+  item: string;
+  editedAt: string | null;
+  fields: RecordFields;
+};
+
+export type AuditEntry = {
+  id: string;
+  /** When the change was made (ISO timestamp) */
+  at: string;
+  /** Name of the admin who made it */
+  user: string;
+  action: AuditAction;
+  locale: string;
+  collection: string;
+  recordId: string;
+  reason: string | null;
+  /** The record before and after the change; null before a creation */
+  before: RecordFields | null;
+  after: RecordFields;
+  /** Fields whose value changed */
+  changes: string[];
+};
+
+/** Reads and writes of single price records, provided by each repository */
+export interface PriceRecordStore {
+  /** A record of a locale, deleted ones included; null when there is none */
+  get(locale: string, id: string): Promise<PriceDocument | null>;
+  /** Insert a record; returns its ID */
+  insert(locale: string, fields: RecordFields): Promise<string>;
+  /** Replace a record's fields, dropping its quality flag; returns false when there is no such record */
+  update(locale: string, id: string, fields: RecordFields): Promise<boolean>;
+}
+
+/** The append-only audit log, provided by each repository */
+export interface AuditLogStore {
+  append(entry: AuditEntry): Promise<void>;
+  /** Entries newest first, optionally only those of one record */
+  list(params: { locale?: string; recordId?: string; limit: number; offset: number }): Promise<{ entries: AuditEntry[]; total: number }>;
+}
+
+const MAX_UNIT_LENGTH = 50;
+const MAX_REASON_LENGTH = 500;
+
+/** Fields of a record copied from another record of the same market */
+const PLACE_FIELDS = ['admin1', 'admin2', 'admin1_pcode', 'admin2_pcode', 'market', 'market_id', 'latitude', 'longitude'] as const;
+
+/** Fields of a record copied from another record of the same item */
+const ITEM_FIELDS = ['category', 'commodity', 'commodity_id'] as const;
+
+/** Bookkeeping fields left out of the changes an entry lists */
+const UNLISTED_FIELDS = new Set(['edited_at', 'source_key']);
+
+// Parser of an observation day: a valid YYYY-MM-DD date, not in the future
+function day(): QueryField<string | undefined> {
+  return (raw) => {
+    if (raw === null) return { value: undefined };
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(raw) ? normaliseDate(raw) : null;
+    if (!date) return { error: 'must be a date (YYYY-MM-DD)' };
+    return date <= new Date().toISOString().slice(0, 10) ? { value: date } : { error: 'must not be in the future' };
+  };
+}
+
+// Parser of free text up to a length
+function text(maxLength: number): QueryField<string | undefined> {
+  return (raw) => {
+    if (raw === null) return { value: undefined };
+    return raw.length <= maxLength && !/[\u0000-\u001f\u007f]/.test(raw)
+      ? { value: raw }
+      : { error: `must be at most ${maxLength} characters, without control characters` };
+  };
+}
+
+/** Parser of the optional reason given for a change */
+export function reasonField(): QueryField<string | undefined> {
+  return text(MAX_REASON_LENGTH);
+}
+
+/**
+ * Validate a record from a request body
+ * With `base`, the body is a partial update applied on top of it
+ */
+export function parseRecordInput(body: unknown, base?: RecordInput): { input: RecordInput; reason: string | null } | { errors: InvalidField[] } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+  const raw: Record<string, unknown> = { ...base, ...body };
+  const errors: InvalidField[] = [];
+  const read = <T>(name: string, result: { value: T } | { error: string }): T | undefined => {
+    if ('error' in result) {
+      errors.push({ field: name, message: result.error });
+      return undefined;
+    }
+    return result.value;
+  };
+
+  const marketId = read('marketId', parseValue(field.required(field.id()), raw.marketId));
+  const itemId = read('itemId', parseValue(field.required(field.item()), raw.itemId));
+  const unit = read('unit', parseValue(field.required(text(MAX_UNIT_LENGTH)), raw.unit));
+  const date = read('date', parseValue(field.required(day()), raw.date));
+  const price = read('price', positiveNumber(raw.price));
+  const currency = read('currency', parseValue(field.oneOf(CURRENCIES, DEFAULT_CURRENCY), raw.currency));
+  const pricetype = read('pricetype', parseValue(field.oneOf(PRICE_TYPES, 'Retail'), raw.pricetype));
+  // The reason explains this change only, so it never comes from `base`
+  const reason = read('reason', parseValue(reasonField(), (body as Record<string, unknown>).reason));
+
+  if (errors.length || !marketId || !itemId || !unit || !date || price === undefined || !currency || !pricetype) return { errors };
+  return { input: { marketId, itemId, unit, date, price, currency, pricetype }, reason: reason ?? null };
+}
+
+// Helper for a record's stored fields, leaving out its ID, quality flag and empty values
+function fieldsOf(doc: PriceDocument): RecordFields {
+  return Object.fromEntries(
+    Object.entries(doc).filter(([name, value]) => name !== '_id' && name !== 'quality' && value !== null && value !== undefined)
+  ) as RecordFields;
+}
+
+function changedFields(before: RecordFields | null, after: RecordFields): string[] {
+  const names = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+  return [...names].filter((name) => !UNLISTED_FIELDS.has(name) && before?.[name] !== after[name]);
+}
+
+function toAdminRecord(locale: string, doc: PriceDocument): AdminRecord {
+  const ids = recordIds(doc);
+  const fields = fieldsOf(doc);
+  return {
+    id: doc._id.toString(),
+    locale,
+    marketId: ids.marketId,
+    market: doc.market,
+    itemId: ids.itemId,
+    item: doc.commodity,
+    unit: doc.unit,
+    date: doc.date,
+    price: Number(doc.price),
+    currency: CURRENCIES.find((c) => c === doc.currency?.toUpperCase()) ?? DEFAULT_CURRENCY,
+    pricetype: PRICE_TYPES.find((t) => t === doc.pricetype) ?? 'Retail',
+    editedAt: doc.edited_at ?? null,
+    fields,
+  };
+}
+
+// Helper to copy the given fields from a live record of a market or item, null when there is none
+async function templateFields(
+  locale: string,
+  scope: { marketId: string } | { itemId: string },
+  names: readonly string[]
+): Promise<RecordFields | null> {
+  const [row] = await getPriceRows({ ...scope, locale, limit: 1 });
+  const doc = row && await (await getRepository()).priceRecords.get(locale, row.id);
+  if (!doc) return null;
+  const fields = fieldsOf(doc);
+  return Object.fromEntries(names.filter((name) => fields[name] !== undefined).map((name) => [name, fields[name]]));
+}
+
+// Helper for the fields an input sets, with the place and item fields of its market and item when those changed
+async function inputFields(locale: string, input: RecordInput, current?: AdminRecord): Promise<{ fields: RecordFields } | { errors: InvalidField[] }> {
+  const [place, item] = await Promise.all([
+    current?.marketId === input.marketId ? {} : templateFields(locale, { marketId: input.marketId }, PLACE_FIELDS),
+    current?.itemId === input.itemId ? {} : templateFields(locale, { itemId: input.itemId }, ITEM_FIELDS),
+  ]);
+  const errors: InvalidField[] = [];
+  if (!place) errors.push({ field: 'marketId', message: 'must be a market of the dataset' });
+  if (!item) errors.push({ field: 'itemId', message: 'must be an item of the dataset' });
+  if (!place || !item) return { errors };
+
+  // Without a rate on the record's date there is no USD price, and a corrected record loses its old one
+  const usdprice = convertPrice(input.price, input.currency, 'USD', input.date);
+  return {
+    fields: {
+      date: input.date,
+      ...place,
+      ...item,
+      unit: input.unit,
+      pricetype: input.pricetype,
+      currency: input.currency,
+      price: input.price,
+      ...(usdprice !== null && { usdprice: Math.round(usdprice * 100) / 100 }),
+    },
+  };
+}
+
+// Helper for the source key an ingested record gets on its first change; created or already changed records have `edited_at`
+function sourceKeyFields(current: AdminRecord): RecordFields {
+  return current.editedAt ? {} : { source_key: sourceKeyOf(current.fields) };
+}
+
+async function appendAudit(entry: Omit<AuditEntry, 'id' | 'at' | 'collection' | 'changes'>, at: string): Promise<AuditEntry> {
+  const logged: AuditEntry = {
+    ...entry,
+    id: randomUUID(),
+    at,
+    collection: getCollection(entry.locale),
+    changes: changedFields(entry.before, entry.after),
+  };
+  await (await getRepository()).auditLog.append(logged);
+  return logged;
+}
+
+/**
+ * A record for the console; null when there is none or it was deleted
+ */
+export async function getAdminRecord(locale: string, id: string): Promise<AdminRecord | null> {
+  const doc = await (await getRepository()).priceRecords.get(locale, id);
+  return doc && !doc.deleted_at ? toAdminRecord(locale, doc) : null;
+}
+
+// Helper for the live record of the other locale collection with the same day, market, item, unit, price type and price, null if none
+async function counterpartOf(record: AdminRecord): Promise<AdminRecord | null> {
+  const other = locales.find((l) => getCollection(l) !== getCollection(record.locale));
+  if (!other) return null;
+  const rows = await getPriceRows({
+    locale: other, marketId: record.marketId, itemId: record.itemId, from: record.date, to: record.date, limit: 100,
+  });
+  for (const row of rows) {
+    const candidate = await getAdminRecord(other, row.id);
+    if (
+      candidate && candidate.unit === record.unit && candidate.pricetype === record.pricetype
+      && candidate.currency === record.currency && candidate.price === record.price
+    ) return candidate;
+  }
+  return null;
+}
+
+// Helper to store a record's new fields and log the change; false when the record is gone
+async function storeChange(
+  record: AdminRecord,
+  after: RecordFields,
+  change: { user: string; reason: string | null; action: AuditAction },
+  at: string
+): Promise<boolean> {
+  if (!await (await getRepository()).priceRecords.update(record.locale, record.id, after)) return false;
+  await appendAudit({ ...change, locale: record.locale, recordId: record.id, before: record.fields, after }, at);
+  return true;
+}
+
+/**
+ * Enter a new record
+ */
+export async function createRecord(
+  locale: string,
+  input: RecordInput,
+  change: { user: string; reason: string | null }
+): Promise<{ record: AdminRecord } | { errors: InvalidField[] }> {
+  const result = await inputFields(locale, input);
+  if ('errors' in result) return result;
+
+  const now = new Date().toISOString();
+  const fields: RecordFields = { ...result.fields, priceflag: 'actual', edited_at: now };
+  const id = await (await getRepository()).priceRecords.insert(locale, fields);
+  await appendAudit({ ...change, action: 'create', locale, recordId: id, before: null, after: fields }, now);
+  return { record: (await getAdminRecord(locale, id))! };
+}
+
+/**
+ * Correct a record and its counterpart in the other collection; null when
+ * there is none or it was deleted
+ * A correction that changes nothing in a record isn't stored or logged for it
+ */
+export async function updateRecord(
+  locale: string,
+  id: string,
+  input: RecordInput,
+  change: { user: string; reason: string | null }
+): Promise<{ record: AdminRecord } | { errors: InvalidField[] } | null> {
+  const current = await getAdminRecord(locale, id);
+  if (!current) return null;
+  const counterpart = await counterpartOf(current);
+  const records = counterpart ? [current, counterpart] : [current];
+  // Every record's fields are checked before any is stored
+  const results = await Promise.all(records.map((record) => inputFields(record.locale, input, record)));
+  const failed = results.find((result) => 'errors' in result);
+  if (failed) return failed;
+
+  const now = new Date().toISOString();
+  for (const [index, record] of records.entries()) {
+    const fields = (results[index] as { fields: RecordFields }).fields;
+    const after: RecordFields = { ...record.fields, ...sourceKeyFields(record), ...fields, edited_at: now };
+    if (fields.usdprice === undefined) delete after.usdprice;
+    if (!changedFields(record.fields, after).length) continue;
+    const stored = await storeChange(record, after, { ...change, action: 'update' }, now);
+    if (!stored && record === current) return null;
+  }
+  return { record: (await getAdminRecord(locale, id))! };
+}
+
+/**
+ * Delete a record and its counterpart in the other collection, keeping them
+ * stored with `deleted_at` set; false when there is no such record or it was
+ * already deleted
+ */
+export async function deleteRecord(locale: string, id: string, change: { user: string; reason: string | null }): Promise<boolean> {
+  const current = await getAdminRecord(locale, id);
+  if (!current) return false;
+  const counterpart = await counterpartOf(current);
+  const now = new Date().toISOString();
+  for (const record of counterpart ? [current, counterpart] : [current]) {
+    const after: RecordFields = { ...record.fields, ...sourceKeyFields(record), deleted_at: now, edited_at: now };
+    const stored = await storeChange(record, after, { ...change, action: 'delete' }, now);
+    if (!stored && record === current) return false;
+  }
+  return true;
+}
+
+/**
+ * One page of the audit log, newest first, optionally of one record
+ */
+export async function listAuditEntries(params: {
+  locale?: string;
+  recordId?: string;
+  page: number;
+  pageSize: number;
+}): Promise<{ entries: AuditEntry[]; total: number }> {
+  return (await getRepository()).auditLog.list({
+    locale: params.locale,
+    recordId: params.recordId,
+    limit: params.pageSize,
+    offset: (params.page - 1) * params.pageSize,
+  });
+}
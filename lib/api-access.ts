@@ -0,0 +1,170 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { adminOf } from './admin-auth';
+import { authenticateApiKey } from './api-keys';
+import { consume, RATE_LIMIT_WINDOW_SECONDS, rateLimitHeaders, RateLimitResult } from './rate-limit';
+
+/**
+ * Access control of the /api/* routes, applied by middleware.ts
+ *
+ * - Requests with an API key are limited per key: RATE_LIMIT_PER_KEY requests
+ *   a minute (default 600), or the key's own limit; an unknown or revoked key
+ *   is refused
+ * - The dashboard's own requests carry a signed session cookie, set whenever
+ *   one of its pages loads, and are limited per client IP: RATE_LIMIT_PER_SESSION
+ *   a minute (default 300). As any page load gets one, a session only stands in
+ *   for a key under API_KEYS_REQUIRED on same-origin browser requests
+ *   (Sec-Fetch-Site: same-origin, which pages of other sites can't forge)
+ * - Other requests are limited per client IP: RATE_LIMIT_PER_IP a minute
+ *   (default 60), or refused when API_KEYS_REQUIRED is "true"
+ * The client IP is taken from X-Forwarded-For, as appended by the
+ * TRUSTED_PROXY_HOPS (default 1) proxies in front of the app; entries to the
+ * left of theirs are up to the client and ignored.
+ * Limited responses carry RateLimit-* headers, and past the limit are a 429.
+ * Errors take the shape of the API asked: the v1 envelope under /api/v1.
+ */
+
+export const SESSION_COOKIE = 'fp_session';
+
+/** Seconds a dashboard session lasts; page loads renew it past half that */
+const SESSION_SECONDS = 12 * 60 * 60;
+
+const DEFAULT_IP_LIMIT = 60;
+const DEFAULT_SESSION_LIMIT = 300;
+const DEFAULT_KEY_LIMIT = 600;
+const DEFAULT_PROXY_HOPS = 1;
+
+// Without DASHBOARD_SESSION_SECRET, sessions only hold until the server restarts
+const fallbackSecret = randomBytes(32).toString('hex');
+
+function sign(issuedAt: string): string {
+  return createHmac('sha256', process.env.DASHBOARD_SESSION_SECRET || fallbackSecret).update(issuedAt).digest('base64url');
+}
+
+// Helper to read a session cookie ("<issued at, ms>.<signature>"), null unless genuine and unexpired
+function sessionIssuedAt(value: string | undefined, now: number): number | null {
+  const [issuedAt, signature] = value?.split('.') ?? [];
+  if (!issuedAt || !signature) return null;
+  const expected = Buffer.from(sign(issuedAt));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+  const issued = Number(issuedAt);
+  return issued <= now && now - issued < SESSION_SECONDS * 1000 ? issued : null;
+}
+
+/**
+ * Give a page response a dashboard session, unless the request's session has
+ * more than half its life left
+ */
+export function withDashboardSession(request: NextRequest, response: NextResponse): NextResponse {
+  const now = Date.now();
+  const issued = sessionIssuedAt(request.cookies.get(SESSION_COOKIE)?.value, now);
+  if (issued !== null && now - issued < (SESSION_SECONDS * 1000) / 2) return response;
+  response.cookies.set(SESSION_COOKIE, `${now}.${sign(String(now))}`, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_SECONDS,
+  });
+  return response;
+}
+
+// Helper to read a per-minute limit or other positive count from the environment
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * The client of a request: the X-Forwarded-For entry the outermost trusted
+ * proxy appended, TRUSTED_PROXY_HOPS from the right. With fewer entries, the
+ * leftmost, as the request passed fewer proxies than expected
+ */
+export function clientIp(request: NextRequest): string {
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+  const hops = limitFromEnv('TRUSTED_PROXY_HOPS', DEFAULT_PROXY_HOPS);
+  return forwarded[Math.max(0, forwarded.length - hops)] || 'unknown';
+}
+
+function apiKeyOf(request: NextRequest): string | null {
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer || request.headers.get('x-api-key')?.trim() || null;
+}
+
+// Helper for an error response in the shape of the API the request is for
+function accessError(
+  request: NextRequest,
+  status: number,
+  message: string,
+  extra: Record<string, unknown> = {},
+  headers: Record<string, string> = {}
+): NextResponse {
+  const body = request.nextUrl.pathname.startsWith('/api/v1/')
+    ? { error: { status, message, ...extra } }
+    : { error: message, ...extra };
+  return NextResponse.json(body, { status, headers });
+}
+
+/**
+ * Whether a request may change shared state, like watchlist rules: it carries
+ * a valid API key or comes from a signed-in admin. A dashboard session is not
+ * enough, as any page load gets one
+ */
+export async function hasWriteAccess(request: NextRequest): Promise<boolean> {
+  if (adminOf(request)) return true;
+  const secret = apiKeyOf(request);
+  return !!secret && (await authenticateApiKey(secret)) !== null;
+}
+
+/** 401 response for a change without an API key or admin session */
+export function writeAccessRequired(request: NextRequest): NextResponse {
+  return accessError(
+    request,
+    401,
+    'An API key ("Authorization: Bearer <key>" or "X-API-Key: <key>") or an admin session is required',
+    {},
+    { 'WWW-Authenticate': 'Bearer' }
+  );
+}
+
+/**
+ * Let an /api/* request through, with its rate limit headers, or refuse it
+ */
+export async function guardApiRequest(request: NextRequest): Promise<NextResponse> {
+  try {
+    const secret = apiKeyOf(request);
+    const session = sessionIssuedAt(request.cookies.get(SESSION_COOKIE)?.value, Date.now()) !== null
+      && (process.env.API_KEYS_REQUIRED !== 'true' || request.headers.get('sec-fetch-site') === 'same-origin');
+    let result: RateLimitResult;
+    if (secret) {
+      const key = await authenticateApiKey(secret);
+      if (!key) return accessError(request, 401, 'Invalid or revoked API key', {}, { 'WWW-Authenticate': 'Bearer' });
+      result = consume(`key:${key.id}`, key.rateLimit ?? limitFromEnv('RATE_LIMIT_PER_KEY', DEFAULT_KEY_LIMIT));
+    } else if (session) {
+      result = consume(`session:${clientIp(request)}`, limitFromEnv('RATE_LIMIT_PER_SESSION', DEFAULT_SESSION_LIMIT));
+    } else if (process.env.API_KEYS_REQUIRED === 'true') {
+      return accessError(request, 401, 'An API key is required, as "Authorization: Bearer <key>" or "X-API-Key: <key>"', {}, { 'WWW-Authenticate': 'Bearer' });
+    } else {
+      result = consume(`ip:${clientIp(request)}`, limitFromEnv('RATE_LIMIT_PER_IP', DEFAULT_IP_LIMIT));
+    }
+
+    const headers = rateLimitHeaders(result);
+    if (!result.allowed) {
+      const hint = secret ? '' : '; an API key gets a higher limit';
+      return accessError(
+        request,
+        429,
+        `Rate limit of ${result.limit} requests per ${RATE_LIMIT_WINDOW_SECONDS} seconds exceeded, retry in ${result.reset} seconds${hint}`,
+        { retryAfter: result.reset },
+        headers
+      );
+    }
+    return NextResponse.next({ headers });
+  } catch (error) {
+    // Like serverError: logged, and only detailed outside production
+    console.error('Failed to check API access:', error);
+    const details = process.env.NODE_ENV === 'production' ? undefined : error instanceof Error ? error.message : error;
+    return accessError(request, 500, 'Failed to check API access', { details });
+  }
+}
@@ -0,0 +1,104 @@
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { getRepository } from './db';
+
+/**
+ * API keys of external consumers
+ *
+ * A key is a random secret handed out once, when it is issued; the store keeps
+ * only its SHA-256 hash and first characters, so a leaked database doesn't leak
+ * usable keys. Clients send it as `Authorization: Bearer <key>` or `X-API-Key`.
+ * Keys are issued and revoked with `npm run api-keys` (scripts/api-keys.ts),
+ * and stored by the active repository.
+ */
+
+export type ApiKey = {
+  id: string;
+  /** Who the key was issued to */
+  name: string;
+  /** First characters of the secret, to recognise a key in lists */
+  prefix: string;
+  /** SHA-256 (hex) of the secret */
+  hash: string;
+  /** Requests per minute, null for the default limit of keys */
+  rateLimit: number | null;
+  createdAt: string;
+  revokedAt: string | null;
+};
+
+/** Storage of keys, provided by each repository */
+export interface ApiKeyStore {
+  /** Every key, revoked ones included, oldest first */
+  list(): Promise<ApiKey[]>;
+  get(id: string): Promise<ApiKey | null>;
+  findByHash(hash: string): Promise<ApiKey | null>;
+  /** Insert or replace a key by ID */
+  save(key: ApiKey): Promise<void>;
+}
+
+const KEY_PREFIX = 'fpk_';
+
+/** Characters of a secret kept to recognise it: the prefix and four more */
+const SHOWN_LENGTH = KEY_PREFIX.length + 4;
+
+/** Seconds a looked-up key is trusted before the store is asked again; revocations take this long to apply */
+const CACHE_SECONDS = 60;
+
+const lookups = new Map<string, { key: ApiKey | null; expires: number }>();
+
+export function hashApiKey(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * Issue a key; the secret is returned only here
+ */
+export async function issueApiKey(params: { name: string; rateLimit?: number | null }): Promise<{ key: ApiKey; secret: string }> {
+  const secret = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const key: ApiKey = {
+    id: randomUUID(),
+    name: params.name,
+    prefix: secret.slice(0, SHOWN_LENGTH),
+    hash: hashApiKey(secret),
+    rateLimit: params.rateLimit ?? null,
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+  };
+  await (await getRepository()).apiKeys.save(key);
+  return { key, secret };
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  return (await getRepository()).apiKeys.list();
+}
+
+/**
+ * Revoke a key; returns null when there is no such key
+ * Revoking twice keeps the first revocation time
+ */
+export async function revokeApiKey(id: string): Promise<ApiKey | null> {
+  const store = (await getRepository()).apiKeys;
+  const existing = await store.get(id);
+  if (!existing) return null;
+  const key = { ...existing, revokedAt: existing.revokedAt ?? new Date().toISOString() };
+  await store.save(key);
+  lookups.delete(key.hash);
+  return key;
+}
+
+/**
+ * The active key a secret belongs to, null for an unknown or revoked one
+ * Lookups are cached for CACHE_SECONDS so requests don't each query the store
+ */
+export async function authenticateApiKey(secret: string): Promise<ApiKey | null> {
+  const hash = hashApiKey(secret);
+  const now = Date.now();
+  const cached = lookups.get(hash);
+  if (cached && cached.expires > now) return cached.key;
+
+  const found = await (await getRepository()).apiKeys.findByHash(hash);
+  const key = found && !found.revokedAt ? found : null;
+  // Unknown secrets are cached too, but they could be anything, so keep the cache small
+  if (lookups.size > 10_000) lookups.clear();
+  lookups.set(hash, { key, expires: now + CACHE_SECONDS * 1000 });
+  return key;
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { ScopeParams } from './db';
+import { cachedJson } from './http-cache';
+import { field, InvalidField, ITEM_LIST_QUERY, SCOPE_QUERY, toScope } from './query';
+
+/**
+ * Envelopes and query schemas of the versioned public API (/api/v1/*)
+ *
+ * Every v1 response has the same shape, whatever the endpoint:
+ * - success: { data, meta, pagination? }, meta always carrying apiVersion and
+ *   pagination present on the endpoints that page
+ * - failure: { error: { status, message, fields? } }
+ * Places, items and categories are referred to by the stable IDs of
+ * lib/identifiers.ts, which are the same in every locale except for districts
+ * missing from its gazetteer: those get a slug of the localised name, listed
+ * by npm run check:ids. Within v1, fields are only ever added; the unversioned
+ * /api/* routes follow the dashboard instead.
+ */
+
+export const API_VERSION = 'v1';
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+export const MAX_PAGE_SIZE = 1000;
+
+/** Deepest page that can be asked for, so a page number can't make the store skip without end */
+const MAX_PAGE = 10_000;
+
+/** Seconds clients may reuse v1 responses before revalidating */
+export const V1_MAX_AGE = 60;
+
+export type Pagination = {
+  page: number;
+  pageSize: number;
+  /** Matching records over every page */
+  total: number;
+  totalPages: number;
+};
+
+const PAGINATION_QUERY = {
+  page: field.integer({ min: 1, max: MAX_PAGE, fallback: 1 }),
+  pageSize: field.integer({ min: 1, max: MAX_PAGE_SIZE, fallback: DEFAULT_PAGE_SIZE }),
+};
+
+/** Parameters of each v1 endpoint, keyed by its path below /api/v1; the OpenAPI document lists the same */
+export const V1_QUERIES = {
+  '/locations': {
+    locale: SCOPE_QUERY.locale,
+  },
+  '/categories': {
+    locale: SCOPE_QUERY.locale,
+  },
+  '/items': {
+    province: SCOPE_QUERY.province,
+    district: SCOPE_QUERY.district,
+    categories: ITEM_LIST_QUERY.categories,
+    locale: SCOPE_QUERY.locale,
+  },
+  '/prices': {
+    ...SCOPE_QUERY,
+    market: field.id(),
+    ...ITEM_LIST_QUERY,
+    ...PAGINATION_QUERY,
+  },
+  '/prices/latest': {
+    ...SCOPE_QUERY,
+    market: field.id(),
+    ...ITEM_LIST_QUERY,
+    ...PAGINATION_QUERY,
+  },
+  '/overview': {
+    ...SCOPE_QUERY,
+    ...ITEM_LIST_QUERY,
+  },
+};
+
+export type V1Path = keyof typeof V1_QUERIES;
+
+/** Scope of the price endpoints from their parsed parameters, a market included */
+export function toV1Scope(values: Parameters<typeof toScope>[0] & { market?: string }): ScopeParams {
+  return { ...toScope(values), marketId: values.market };
+}
+
+/** Meta of the price endpoints: the locale of names, the currency of prices and the period covered */
+export function scopeMeta(scope: ScopeParams): Record<string, unknown> {
+  return { locale: scope.locale, currency: scope.currency, from: scope.from ?? null, to: scope.to ?? null };
+}
+
+/** Pagination of `total` records, and the offset of the requested page */
+export function paginate(values: { page: number; pageSize: number }, total: number): Pagination & { offset: number } {
+  return {
+    page: values.page,
+    pageSize: values.pageSize,
+    total,
+    totalPages: Math.ceil(total / values.pageSize),
+    offset: (values.page - 1) * values.pageSize,
+  };
+}
+
+/** Cacheable success envelope */
+export function v1Json(
+  request: NextRequest,
+  data: unknown,
+  options: { meta?: Record<string, unknown>; pagination?: Pagination } = {}
+): NextResponse {
+  return cachedJson(request, {
+    data,
+    meta: { apiVersion: API_VERSION, ...options.meta },
+    ...(options.pagination && { pagination: options.pagination }),
+  }, V1_MAX_AGE);
+}
+
+/** Error envelope */
+export function v1Error(status: number, message: string, fields?: InvalidField[]): NextResponse {
+  return NextResponse.json({ error: { status, message, ...(fields && { fields }) } }, { status });
+}
+
+/** 400 envelope listing the invalid parameters */
+export function v1InvalidQuery(errors: InvalidField[]): NextResponse {
+  return v1Error(400, 'Invalid query parameters', errors);
+}
+
+/**
+ * 500 envelope for an unexpected error
+ * Logged like serverError, and like it only detailed outside production
+ */
+export function v1ServerError(message: string, error: unknown): NextResponse {
+  console.error(`${message}:`, error);
+  const details = process.env.NODE_ENV === 'production' ? undefined : error instanceof Error ? error.message : error;
+  return NextResponse.json({ error: { status: 500, message, details } }, { status: 500 });
+}
@@ -0,0 +1,202 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { Currency } from './currency';
+import { addMonths } from './dates';
+import { getFilters, getMonthlyItemAverages } from './db';
+import { field, InvalidField, QueryField } from './query';
+import type { QualityFilter } from './quality';
+import { parseUnit, StandardUnit } from './units';
+
+/**
+ * Food basket cost index
+ *
+ * A basket is a list of items with monthly quantities in the item's normalised
+ * unit (kg, litre or piece). Its cost in a province and month is the sum of
+ * quantity × mean normalised price of each item there that month. A month in
+ * which any item went unpriced has no cost, so costs always cover the whole
+ * basket. Baskets are read from data/food-baskets.json (or FOOD_BASKETS_FILE);
+ * the cost route also takes a basket inline.
+ */
+
+export type BasketItem = { itemId: string; quantity: number };
+
+export type Basket = {
+  id: string;
+  /** Name and description per locale */
+  name: Record<string, string>;
+  description?: Record<string, string>;
+  items: BasketItem[];
+};
+
+export type BasketCostPoint = {
+  period: string;
+  /** Null when an item had no price that month */
+  cost: number | null;
+  /** Items without a price that month */
+  missing: string[];
+};
+
+export type ProvinceBasketCost = {
+  provinceId: string;
+  province: string;
+  /** Newest month with a cost */
+  latest: { period: string; cost: number } | null;
+  /** Change since the month before `latest`, null if that month has no cost */
+  changePercent: number | null;
+  series: BasketCostPoint[];
+};
+
+export type BasketCostReport = {
+  basket: {
+    id: string;
+    name: string;
+    description: string | null;
+    items: { itemId: string; item: string; quantity: number; unit: StandardUnit }[];
+  };
+  currency: Currency;
+  /** Every month any province has prices for, oldest first */
+  periods: string[];
+  /** Dearest latest cost first; provinces without a cost come last */
+  provinces: ProvinceBasketCost[];
+};
+
+/** Default location of the basket definitions, overridable with FOOD_BASKETS_FILE */
+const BASKETS_FILE = path.join('data', 'food-baskets.json');
+
+/** Largest quantity of one item, well above any household's month */
+const MAX_QUANTITY = 100_000;
+
+let basketsCache: Basket[] | null = null;
+
+// Helper to check a quantity from the file or a query string
+function validQuantity(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= MAX_QUANTITY;
+}
+
+/**
+ * Read the basket definitions once per process
+ * Throws on a malformed file, naming the offending basket
+ */
+export function loadBaskets(): Basket[] {
+  if (!basketsCache) {
+    const file = path.resolve(process.cwd(), process.env.FOOD_BASKETS_FILE || BASKETS_FILE);
+    const parsed = JSON.parse(readFileSync(file, 'utf8')) as { baskets?: unknown };
+    if (!Array.isArray(parsed.baskets)) throw new Error(`${file} has no "baskets" list`);
+    basketsCache = parsed.baskets.map((basket: Basket, index: number) => {
+      const valid = typeof basket?.id === 'string' && basket.id !== '' &&
+        typeof basket.name === 'object' && basket.name !== null &&
+        Array.isArray(basket.items) && basket.items.length > 0 &&
+        basket.items.every((i) => typeof i?.itemId === 'string' && validQuantity(i.quantity));
+      if (!valid) throw new Error(`Invalid basket ${basket?.id ?? `#${index + 1}`} in ${file}`);
+      return basket;
+    });
+  }
+  return basketsCache;
+}
+
+export function getBasket(id: string): Basket | undefined {
+  return loadBaskets().find((b) => b.id === id);
+}
+
+/** A basket's name and description in a locale, falling back to English */
+export function describeBasket(basket: Basket, locale: string): { name: string; description: string | null } {
+  return {
+    name: basket.name[locale] ?? basket.name.en ?? basket.id,
+    description: basket.description?.[locale] ?? basket.description?.en ?? null,
+  };
+}
+
+/** Query field for one inline basket item, "<item ID>:<quantity>" (e.g. 52:12.5) */
+export function basketItemField(): QueryField<BasketItem | undefined> {
+  return (raw) => {
+    if (raw === null) return { value: undefined };
+    const separator = raw.lastIndexOf(':');
+    const item = field.item()(raw.slice(0, separator));
+    const quantity = Number(raw.slice(separator + 1));
+    return separator > 0 && 'value' in item && item.value && validQuantity(quantity)
+      ? { value: { itemId: item.value, quantity } }
+      : { error: `must be <item ID>:<quantity>, with a quantity above 0 and at most ${MAX_QUANTITY}` };
+  };
+}
+
+// Helper to sum a basket's cost from one province's monthly item prices
+function costOf(basket: Basket, prices: Map<string, number>): { cost: number | null; missing: string[] } {
+  const missing = basket.items.filter((i) => !prices.has(i.itemId)).map((i) => i.itemId);
+  const cost = basket.items.reduce((sum, i) => sum + i.quantity * (prices.get(i.itemId) ?? 0), 0);
+  return { cost: missing.length ? null : cost, missing };
+}
+
+/**
+ * Cost a basket per province and month
+ * Items unknown in the locale, or sold only in units without a fixed size, are errors
+ */
+export async function getBasketCost(params: {
+  basket: Basket;
+  quality?: QualityFilter;
+  currency: Currency;
+  locale: string;
+  from?: string;
+  to?: string;
+}): Promise<{ report: BasketCostReport } | { errors: InvalidField[] }> {
+  const { basket } = params;
+  const { items: catalogue } = await getFilters(params.locale);
+  const errors: InvalidField[] = [];
+  const items = basket.items.map((i) => {
+    const matches = catalogue.filter((c) => c.id === i.itemId);
+    const unit = matches.map((c) => parseUnit(c.unit)?.standard).find(Boolean);
+    if (!matches.length) errors.push({ field: 'items', message: `no item ${i.itemId}` });
+    else if (!unit) errors.push({ field: 'items', message: `item ${i.itemId} has no unit of fixed size to price a quantity in` });
+    return { itemId: i.itemId, item: matches[0]?.name ?? i.itemId, quantity: i.quantity, unit: unit! };
+  });
+  if (errors.length) return { errors };
+
+  const averages = await getMonthlyItemAverages({
+    itemIds: basket.items.map((i) => i.itemId),
+    quality: params.quality,
+    currency: params.currency,
+    locale: params.locale,
+    from: params.from,
+    to: params.to,
+  });
+
+  // Province → month → item → mean normalised price
+  const provinces = new Map<string, { province: string; months: Map<string, Map<string, number>> }>();
+  averages.forEach((a) => {
+    const entry = provinces.get(a.provinceId) ?? { province: a.province, months: new Map() };
+    const month = entry.months.get(a.period) ?? new Map<string, number>();
+    month.set(a.itemId, a.averagePrice);
+    entry.months.set(a.period, month);
+    provinces.set(a.provinceId, entry);
+  });
+  const periods = [...new Set(averages.map((a) => a.period))].sort();
+
+  const costs: ProvinceBasketCost[] = [...provinces.entries()].map(([provinceId, { province, months }]) => {
+    const series = [...months.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([period, prices]) => ({ period, ...costOf(basket, prices) }));
+    const latestPoint = series.findLast((p) => p.cost !== null);
+    const latest = latestPoint ? { period: latestPoint.period, cost: latestPoint.cost! } : null;
+    const previous = latest ? series.find((p) => p.period === addMonths(latest.period, -1))?.cost ?? null : null;
+    return {
+      provinceId,
+      province,
+      latest,
+      changePercent: latest && previous ? ((latest.cost - previous) / previous) * 100 : null,
+      series,
+    };
+  });
+  costs.sort((a, b) => (b.latest?.cost ?? -1) - (a.latest?.cost ?? -1) || a.province.localeCompare(b.province));
+
+  return {
+    report: {
+      basket: {
+        id: basket.id,
+        ...describeBasket(basket, params.locale),
+        items,
+      },
+      currency: params.currency,
+      periods,
+      provinces: costs,
+    },
+  };
+}
@@ -0,0 +1,270 @@
+import type { Collection } from 'mongodb';
+import type { FilterItem, Filters, ScopeParams } from './db';
+import { categoryIdFor, districtIdFor, itemIdFor, marketIdFor, provinceIdFor } from './identifiers';
+import { LIVE_RECORDS } from './price-records';
+import { qualityMatch } from './quality';
+
+/**
+ * Location and item catalogue of a locale collection, and the ID → name
+ * resolution every repository shares
+ *
+ * Mongo results are cached in memory per collection for CATALOGUE_TTL_SECONDS
+ * (default 300). Ingestion bumps a version stamp in the `data_versions`
+ * collection; servers check it at most every few seconds, so data loaded by
+ * another process shows up without waiting for the TTL.
+ */
+
+const TTL_MS = (Number(process.env.CATALOGUE_TTL_SECONDS) || 300) * 1000;
+
+/** How long a server trusts its last look at a collection's version stamp */
+const VERSION_CHECK_MS = 10_000;
+
+const VERSIONS_COLLECTION = 'data_versions';
+
+type CacheEntry = { value: Promise<unknown>; version: number; expires: number };
+type VersionDocument = { _id: string; version: number; updatedAt: string };
+
+const entries = new Map<string, CacheEntry>();
+const versions = new Map<string, { version: number; checkedAt: number }>();
+
+// Helper to read a collection's version stamp, re-checking it at most every VERSION_CHECK_MS
+async function dataVersion(collection: Collection): Promise<number> {
+  const known = versions.get(collection.collectionName);
+  if (known && Date.now() - known.checkedAt < VERSION_CHECK_MS) return known.version;
+  const stamp = await collection.db
+    .collection<VersionDocument>(VERSIONS_COLLECTION)
+    .findOne({ _id: collection.collectionName });
+  const version = stamp?.version ?? 0;
+  versions.set(collection.collectionName, { version, checkedAt: Date.now() });
+  return version;
+}
+
+// Helper to share one query per collection and key until it expires or the data changes
+async function cached<T>(collection: Collection, key: string, load: () => Promise<T>): Promise<T> {
+  const cacheKey = `${collection.collectionName}|${key}`;
+  const version = await dataVersion(collection);
+  const entry = entries.get(cacheKey);
+  if (entry && entry.version === version && entry.expires > Date.now()) return entry.value as Promise<T>;
+
+  const value = load();
+  entries.set(cacheKey, { value, version, expires: Date.now() + TTL_MS });
+  // Don't keep a failed query around for the whole TTL
+  value.catch(() => {
+    if (entries.get(cacheKey)?.value === value) entries.delete(cacheKey);
+  });
+  return value;
+}
+
+/**
+ * Drop the cached catalogue of a collection and bump its version stamp, so
+ * every server reloads it on its next version check
+ */
+export async function invalidateCatalogue(collection: Collection): Promise<void> {
+  await collection.db.collection<VersionDocument>(VERSIONS_COLLECTION).updateOne(
+    { _id: collection.collectionName },
+    { $inc: { version: 1 }, $set: { updatedAt: new Date().toISOString() } },
+    { upsert: true }
+  );
+  versions.delete(collection.collectionName);
+  [...entries.keys()]
+    .filter((key) => key.startsWith(`${collection.collectionName}|`))
+    .forEach((key) => entries.delete(key));
+}
+
+/** One distinct admin1/admin2/market of the source data */
+export type LocationRow = {
+  admin1: string;
+  admin2?: string | null;
+  market?: string | null;
+  admin1_pcode?: string | null;
+  admin2_pcode?: string | null;
+  market_id?: string | number | null;
+};
+
+/** One distinct commodity/unit/category of the source data */
+export type ItemRow = { commodity: string; unit: string; category: string; commodity_id?: string | number | null };
+
+/**
+ * Names a scope resolves to; null means the ID is unknown, so nothing matches
+ * Lists of items or categories resolve to the list of matching commodity names
+ */
+export type ResolvedScope = {
+  admin1?: string | null;
+  admin2?: string | null;
+  market?: string | null;
+  commodity?: string | string[] | null;
+};
+
+// Helper to order strings the way MongoDB sorts them (by code point)
+function byCodePoint(a = '', b = ''): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Build provinces with nested districts and markets, keyed by stable IDs, from distinct locations
+ */
+export function buildProvinces(rows: LocationRow[]): Filters['provinces'] {
+  const provinces = new Map<string, Filters['provinces'][number]>();
+  [...rows]
+    .sort((a, b) =>
+      byCodePoint(a.admin1, b.admin1) || byCodePoint(a.admin2 ?? '', b.admin2 ?? '') || byCodePoint(a.market ?? '', b.market ?? ''))
+    .forEach((r) => {
+      const id = provinceIdFor(r.admin1, r.admin1_pcode);
+      const province = provinces.get(id) ?? { id, name: r.admin1, districts: [] };
+      if (r.admin2) {
+        let district = province.districts.find((d) => d.name === r.admin2);
+        if (!district) {
+          district = { id: districtIdFor(id, r.admin2, r.admin2_pcode), name: r.admin2, markets: [] };
+          province.districts.push(district);
+        }
+        if (r.market && !district.markets.some((m) => m.name === r.market)) {
+          district.markets.push({ id: marketIdFor(district.id, r.market, r.market_id), name: r.market });
+        }
+      }
+      provinces.set(id, province);
+    });
+  return [...provinces.values()];
+}
+
+/**
+ * Build the item list, keyed by canonical commodity key, from distinct items
+ * An item sold in several units is listed once, with its units joined.
+ */
+export function buildItems(rows: ItemRow[]): FilterItem[] {
+  const items = new Map<string, FilterItem>();
+  [...rows]
+    .sort((a, b) =>
+      byCodePoint(a.category, b.category) || byCodePoint(a.commodity, b.commodity) || byCodePoint(a.unit, b.unit))
+    .forEach((i) => {
+      const id = itemIdFor(i.commodity, i.commodity_id);
+      const item = items.get(id);
+      if (!item) {
+        items.set(id, { id, name: i.commodity, unit: i.unit, category: i.category, categoryId: categoryIdFor(i.category) });
+      } else if (i.unit && !item.unit.split(', ').includes(i.unit)) {
+        item.unit = item.unit ? `${item.unit}, ${i.unit}` : i.unit;
+      }
+    });
+  return [...items.values()];
+}
+
+/**
+ * Distinct categories of an item list, in its order
+ */
+export function buildCategories(items: FilterItem[]): Filters['categories'] {
+  const categories = new Map(items.map((i) => [i.categoryId, { id: i.categoryId, name: i.category }]));
+  return [...categories.values()];
+}
+
+/**
+ * Translate province, district, market and item IDs into the names stored in a locale
+ * The catalogue is only loaded for the IDs that are set. A market also scopes
+ * to its province and district, as market names repeat across the country.
+ * Item and category lists keep the items in both; unknown IDs in a list are
+ * skipped, and a list matching no item matches nothing.
+ */
+export async function resolveScope(
+  params: Pick<ScopeParams, 'provinceId' | 'districtId' | 'marketId' | 'itemId' | 'itemIds' | 'categoryIds'>,
+  catalogue: { locations: () => Promise<Filters['provinces']>; items: () => Promise<FilterItem[]> }
+): Promise<ResolvedScope> {
+  const scope: ResolvedScope = {};
+  if (params.provinceId || params.districtId || params.marketId) {
+    const provinces = await catalogue.locations();
+    const province = params.provinceId ? provinces.find((p) => p.id === params.provinceId) : undefined;
+    if (params.provinceId) scope.admin1 = province?.name ?? null;
+    if (params.districtId) {
+      const district = (province ? [province] : provinces)
+        .flatMap((p) => p.districts)
+        .find((d) => d.id === params.districtId);
+      scope.admin2 = district?.name ?? null;
+    }
+    if (params.marketId) {
+      const found = (province ? [province] : provinces)
+        .flatMap((p) => p.districts.map((d) => ({ province: p, district: d })))
+        .filter(({ district }) => !params.districtId || district.id === params.districtId)
+        .flatMap(({ province: p, district: d }) => d.markets.map((m) => ({ province: p, district: d, market: m })))
+        .find(({ market }) => market.id === params.marketId);
+      scope.market = found?.market.name ?? null;
+      scope.admin1 ??= found?.province.name ?? null;
+      scope.admin2 ??= found?.district.name ?? null;
+    }
+  }
+  if (params.itemIds?.length || params.categoryIds?.length) {
+    const wanted = [...(params.itemIds ?? []), ...(params.itemId ? [params.itemId] : [])];
+    const names = (await catalogue.items())
+      .filter((i) => !wanted.length || wanted.includes(i.id) || wanted.includes(i.name))
+      .filter((i) => !params.categoryIds?.length || params.categoryIds.includes(i.categoryId))
+      .map((i) => i.name);
+    scope.commodity = names.length ? [...new Set(names)] : null;
+  } else if (params.itemId) {
+    const items = await catalogue.items();
+    // Exact commodity names are still accepted so older links keep working
+    const item = items.find((i) => i.id === params.itemId) ?? items.find((i) => i.name === params.itemId);
+    scope.commodity = item?.name ?? null;
+  }
+  return scope;
+}
+
+/**
+ * Get provinces with nested districts and markets from a Mongo collection
+ */
+export function getLocations(collection: Collection): Promise<Filters['provinces']> {
+  return cached(collection, 'locations', async () => {
+    const rows = await collection.aggregate<{
+      _id: { admin1: string; admin2?: string | null; market?: string | null };
+      admin1_pcode?: string;
+      admin2_pcode?: string;
+      market_id?: string | number;
+    }>([
+      { $match: { ...LIVE_RECORDS, admin1: { $ne: null } } },
+      {
+        $group: {
+          _id: { admin1: "$admin1", admin2: "$admin2", market: "$market" },
+          admin1_pcode: { $first: "$admin1_pcode" },
+          admin2_pcode: { $first: "$admin2_pcode" },
+          market_id: { $first: "$market_id" },
+        }
+      },
+    ]).toArray();
+    return buildProvinces(rows.map((r) => ({
+      ...r._id, admin1_pcode: r.admin1_pcode, admin2_pcode: r.admin2_pcode, market_id: r.market_id,
+    })));
+  });
+}
+
+/**
+ * Get the distinct food items of a Mongo collection matching a query
+ */
+export function getItemCatalogue(collection: Collection, match: Record<string, unknown>): Promise<FilterItem[]> {
+  return cached(collection, `items|${JSON.stringify(match)}`, async () => {
+    const items = await collection.aggregate<{ _id: { name: string; unit: string; category: string }; commodity_id?: string | number }>([
+      { $match: { ...LIVE_RECORDS, ...match, commodity: { $ne: null } } },
+      {
+        $group: {
+          _id: { name: "$commodity", unit: "$unit", category: "$category" },
+          commodity_id: { $first: "$commodity_id" },
+        }
+      },
+    ]).toArray();
+    return buildItems(items.map((i) => ({ commodity: i._id.name, unit: i._id.unit, category: i._id.category, commodity_id: i.commodity_id })));
+  });
+}
+
+/**
+ * Translate province, district, market and item IDs into a Mongo match on the locale's names,
+ * plus the date range if one is set; deleted records never match
+ * An ID that doesn't resolve matches nothing rather than silently widening the scope
+ */
+export async function buildScopeMatch(collection: Collection, params: ScopeParams): Promise<Record<string, unknown>> {
+  const match: Record<string, unknown> = { ...LIVE_RECORDS, ...qualityMatch(params.quality) };
+  const scope = await resolveScope(params, {
+    locations: () => getLocations(collection),
+    items: () => getItemCatalogue(collection, {}),
+  });
+  Object.entries(scope).forEach(([field, name]) => {
+    match[field] = Array.isArray(name) ? { $in: name } : name ?? { $in: [] };
+  });
+  if (params.from || params.to) {
+    match.date = { ...(params.from && { $gte: params.from }), ...(params.to && { $lte: params.to }) };
+  }
+  return match;
+}
@@ -0,0 +1,125 @@
+import { addMonths } from './dates';
+import { getMarketMonthlyPrices, getPriceRows, MarketMonthPrice, ScopeParams } from './db';
+
+/**
+ * Month-over-month, year-over-year and longer price changes
+ *
+ * Each market's prices are averaged per month, and a series' price for a month
+ * is the median of those market means, so one market with odd prices can't
+ * move it. A series is one item in one unit, nationally or per province.
+ * Changes compare a series' newest month with the same series N months before;
+ * a change is null when that month has no prices.
+ */
+
+export const CHANGE_GROUPINGS = ['item', 'province'] as const;
+
+export type ChangeGrouping = typeof CHANGE_GROUPINGS[number];
+
+export const CHANGE_SORTS = ['item', 'mom', 'yoy'] as const;
+
+export type ChangeSort = typeof CHANGE_SORTS[number];
+
+/** Spans reported when none are asked for: a month, a quarter, half a year and a year */
+export const DEFAULT_CHANGE_SPANS = [1, 3, 6, 12];
+
+/** Longest span that can be asked for, in months */
+export const MAX_CHANGE_SPAN = 60;
+
+export type PriceChange = {
+  months: number;
+  /** Month compared with ("2024-06") */
+  period: string;
+  /** Median price that month, null without prices */
+  price: number | null;
+  percent: number | null;
+};
+
+export type PriceChangeRow = {
+  itemId: string;
+  item: string;
+  unit: string;
+  /** Null unless grouped by province */
+  provinceId: string | null;
+  province: string | null;
+  /** Newest month of the series and its median price */
+  period: string;
+  price: number;
+  /** Markets with prices in the newest month */
+  markets: number;
+  mom: number | null;
+  yoy: number | null;
+  changes: PriceChange[];
+};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Helper to order rows by a percent change, largest rise first and unknown changes last
+function byChange(key: 'mom' | 'yoy') {
+  return (a: PriceChangeRow, b: PriceChangeRow) => (b[key] ?? -Infinity) - (a[key] ?? -Infinity);
+}
+
+/**
+ * Compute the price changes of every item in scope, per item or per item and province
+ * Only months within the longest span of the newest record in scope (and
+ * period) are read
+ */
+export async function getPriceChanges(params: ScopeParams & {
+  by: ChangeGrouping;
+  spans: number[];
+  sort: ChangeSort;
+}): Promise<PriceChangeRow[]> {
+  const [newest] = await getPriceRows({ ...params, limit: 1 });
+  if (!newest) return [];
+  const spans = [...new Set(params.spans)].sort((a, b) => a - b);
+  // Month-over-month and year-over-year are always reported; a later start of
+  // the requested period leaves the longer changes without a price to compare
+  const earliest = addMonths(newest.date.slice(0, 7), -Math.max(12, ...spans));
+  const from = params.from && params.from > earliest ? params.from : earliest;
+  const prices = await getMarketMonthlyPrices({ ...params, from });
+
+  // Series → month → the market means of that month
+  const series = new Map<string, { first: MarketMonthPrice; months: Map<string, number[]> }>();
+  prices.forEach((p) => {
+    const key = JSON.stringify([p.itemId, p.unit, params.by === 'province' ? p.provinceId : null]);
+    const entry = series.get(key) ?? { first: p, months: new Map() };
+    entry.months.set(p.period, [...(entry.months.get(p.period) ?? []), p.averagePrice]);
+    series.set(key, entry);
+  });
+
+  const rows = [...series.values()].map(({ first, months }): PriceChangeRow => {
+    const period = [...months.keys()].sort().at(-1)!;
+    const price = median(months.get(period)!);
+    const changeOver = (span: number): PriceChange => {
+      const before = months.get(addMonths(period, -span));
+      const beforePrice = before ? median(before) : null;
+      return {
+        months: span,
+        period: addMonths(period, -span),
+        price: beforePrice,
+        percent: beforePrice ? ((price - beforePrice) / beforePrice) * 100 : null,
+      };
+    };
+    return {
+      itemId: first.itemId,
+      item: first.item,
+      unit: first.unit,
+      provinceId: params.by === 'province' ? first.provinceId : null,
+      province: params.by === 'province' ? first.province : null,
+      period,
+      price,
+      markets: months.get(period)!.length,
+      mom: changeOver(1).percent,
+      yoy: changeOver(12).percent,
+      changes: spans.map(changeOver),
+    };
+  });
+
+  if (params.sort === 'item') {
+    return rows.sort((a, b) => a.item.localeCompare(b.item) || a.unit.localeCompare(b.unit) || (a.province ?? '').localeCompare(b.province ?? ''));
+  }
+  return rows.sort(byChange(params.sort));
+}
@@ -0,0 +1,170 @@
+import type { Currency } from './currency';
+import {
+  FilterItem, Filters, getFilters, getLatestPrices, getPriceHistory, HistoryInterval, PriceHistoryPoint, ScopeParams,
+} from './db';
+import type { InvalidField } from './query';
+import type { QualityFilter } from './quality';
+
+/**
+ * Side-by-side comparison of item prices in several places
+ *
+ * A place is a province, district or market. For every item, each place gets
+ * its current price (the mean of each of its markets' latest price), the
+ * spread between the cheapest and dearest place, and its price history.
+ */
+
+export const LOCATION_LEVELS = ['province', 'district', 'market'] as const;
+
+export type LocationLevel = typeof LOCATION_LEVELS[number];
+
+/** A place to compare, written "<level>:<ID>" in query strings */
+export type LocationRef = { level: LocationLevel; id: string };
+
+export type ComparedLocation = LocationRef & {
+  /** "<level>:<ID>", the key prices and histories refer to */
+  key: string;
+  name: string;
+  /** Province of a district, or "province › district" of a market */
+  parent: string | null;
+};
+
+export type ComparedPrice = {
+  location: string;
+  /** Mean of the latest price of each market, null without prices */
+  price: number | null;
+  /** Newest of those prices' dates */
+  date: string | null;
+  markets: number;
+};
+
+export type PriceSpread = {
+  cheapest: string;
+  dearest: string;
+  difference: number;
+  /** How much dearer the dearest place is than the cheapest, in percent */
+  percent: number;
+};
+
+export type ComparedItem = {
+  itemId: string;
+  item: string;
+  units: string[];
+  prices: ComparedPrice[];
+  /** Null unless at least two places have a price */
+  spread: PriceSpread | null;
+  history: { location: string; points: PriceHistoryPoint[] }[];
+};
+
+export type Comparison = {
+  currency: Currency;
+  interval: HistoryInterval;
+  locations: ComparedLocation[];
+  items: ComparedItem[];
+};
+
+export type ComparisonParams = {
+  locations: LocationRef[];
+  itemIds: string[];
+  interval: HistoryInterval;
+  quality: QualityFilter;
+  currency: Currency;
+  locale: string;
+  from?: string;
+  to?: string;
+};
+
+export function locationKey(ref: LocationRef): string {
+  return `${ref.level}:${ref.id}`;
+}
+
+// Helper to find a place in the catalogue, with its name and parent
+function findLocation(provinces: Filters['provinces'], ref: LocationRef): ComparedLocation | null {
+  const key = locationKey(ref);
+  for (const province of provinces) {
+    if (ref.level === 'province' && province.id === ref.id) return { ...ref, key, name: province.name, parent: null };
+    for (const district of province.districts) {
+      if (ref.level === 'district' && district.id === ref.id) return { ...ref, key, name: district.name, parent: province.name };
+      const market = ref.level === 'market' ? district.markets.find((m) => m.id === ref.id) : undefined;
+      if (market) return { ...ref, key, name: market.name, parent: `${province.name} › ${district.name}` };
+    }
+  }
+  return null;
+}
+
+// Helper for the scope parameters of a place
+function scopeOf(ref: LocationRef): Pick<ScopeParams, 'provinceId' | 'districtId' | 'marketId'> {
+  if (ref.level === 'province') return { provinceId: ref.id };
+  return ref.level === 'district' ? { districtId: ref.id } : { marketId: ref.id };
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+// Helper to measure the gap between the cheapest and dearest place with a price
+function spreadOf(prices: ComparedPrice[]): PriceSpread | null {
+  const priced = prices.filter((p) => p.price !== null).sort((a, b) => a.price! - b.price!);
+  if (priced.length < 2) return null;
+  const [cheapest, dearest] = [priced[0], priced[priced.length - 1]];
+  const difference = dearest.price! - cheapest.price!;
+  return { cheapest: cheapest.location, dearest: dearest.location, difference, percent: (difference / cheapest.price!) * 100 };
+}
+
+/**
+ * Compare the current prices and price histories of items across places
+ * Unknown places or items are returned as errors rather than compared as empty
+ */
+export async function comparePrices(params: ComparisonParams): Promise<{ comparison: Comparison } | { errors: InvalidField[] }> {
+  const filters = await getFilters(params.locale);
+  const errors: InvalidField[] = [];
+
+  const locations = params.locations.map((ref) => {
+    const location = findLocation(filters.provinces, ref);
+    if (!location) errors.push({ field: 'locations', message: `no ${ref.level} ${ref.id}` });
+    return location;
+  });
+  const items = params.itemIds.map((id) => {
+    // Exact commodity names are accepted, as everywhere else
+    const matches = filters.items.filter((i) => i.id === id || i.name === id);
+    if (!matches.length) errors.push({ field: 'items', message: `no item ${id}` });
+    return matches;
+  });
+  if (errors.length) return { errors };
+
+  const scope = { quality: params.quality, currency: params.currency, locale: params.locale, from: params.from, to: params.to };
+  const compared = await Promise.all(items.map(async (matches: FilterItem[]) => {
+    const itemId = matches[0].id;
+    const perLocation = await Promise.all((locations as ComparedLocation[]).map(async (location) => {
+      const where = { ...scope, ...scopeOf(location), itemId };
+      const [latest, points] = await Promise.all([
+        getLatestPrices({ ...where, limit: null }),
+        getPriceHistory({ ...where, interval: params.interval }),
+      ]);
+      const price: ComparedPrice = {
+        location: location.key,
+        price: mean(latest.map((row) => row.price)),
+        date: latest.reduce<string | null>((max, row) => (max === null || row.date > max ? row.date : max), null),
+        markets: latest.length,
+      };
+      return { price, history: { location: location.key, points } };
+    }));
+    const prices = perLocation.map((l) => l.price);
+    return {
+      itemId,
+      item: matches[0].name,
+      units: matches.map((i) => i.unit),
+      prices,
+      spread: spreadOf(prices),
+      history: perLocation.map((l) => l.history),
+    };
+  }));
+
+  return {
+    comparison: {
+      currency: params.currency,
+      interval: params.interval,
+      locations: locations as ComparedLocation[],
+      items: compared,
+    },
+  };
+}
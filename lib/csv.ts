@@ -0,0 +1,72 @@
+/**
+ * CSV helpers (RFC 4180)
+ */
+
+/** UTF-8 byte order mark, so Excel detects the encoding and shows Khmer text correctly */
+export const UTF8_BOM = '\uFEFF';
+
+/** Quote a value when it contains a delimiter, quote or line break */
+export function csvEscape(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Serialise one record, terminated with CRLF */
+export function toCsvLine(values: unknown[]): string {
+  return values.map(csvEscape).join(',') + '\r\n';
+}
+
+/**
+ * Parse CSV text into rows of fields
+ * Handles quoted fields with embedded delimiters, quotes and line breaks; blank lines are dropped
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.length > 1 || r[0] !== '');
+}
+
+/** Parse CSV text with a header row into records keyed by lower-cased column name */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((h) => h.trim().toLowerCase());
+  return rows.map((fields) =>
+    Object.fromEntries(columns.map((column, i) => [column, fields[i] ?? '']))
+  );
+}
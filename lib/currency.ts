@@ -0,0 +1,104 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseCsvRecords } from './csv';
+import { normaliseDate } from './dates';
+
+/**
+ * Conversion of prices between KHR and USD with historical exchange rates
+ *
+ * Rates are read from a CSV of `date,currency,per_usd` rows (units of the
+ * currency per US dollar), each in effect from its date until the next row for
+ * the same currency. A price is converted with the rates in effect on the date
+ * it was observed; dates before the first row use the earliest rate.
+ */
+
+export const CURRENCIES = ['KHR', 'USD'] as const;
+
+export type Currency = typeof CURRENCIES[number];
+
+/** Currency prices are reported in when none is asked for, and assumed for records without one */
+export const DEFAULT_CURRENCY: Currency = 'KHR';
+
+type RatePeriod = { from: string; perUsd: number };
+
+/** Default location of the exchange-rate table, overridable with EXCHANGE_RATES_FILE */
+const RATES_FILE = path.join('data', 'exchange-rates.csv');
+
+let ratesCache: Map<string, RatePeriod[]> | null = null;
+
+/**
+ * Read the exchange-rate table once per process
+ * Lines starting with # are comments; USD is always 1 per USD
+ */
+function loadRates(): Map<string, RatePeriod[]> {
+  if (!ratesCache) {
+    const file = path.resolve(process.cwd(), process.env.EXCHANGE_RATES_FILE || RATES_FILE);
+    const text = readFileSync(file, 'utf8')
+      .split(/\r?\n/)
+      .filter((line) => !line.trimStart().startsWith('#'))
+      .join('\n');
+    const rates = new Map<string, RatePeriod[]>([['USD', [{ from: '', perUsd: 1 }]]]);
+    parseCsvRecords(text).forEach((row) => {
+      const from = normaliseDate(row.date?.trim() ?? '');
+      const currency = row.currency?.trim().toUpperCase();
+      const perUsd = Number(row.per_usd);
+      if (!from || !currency || currency === 'USD' || !(perUsd > 0)) {
+        throw new Error(`Invalid exchange rate row in ${file}: ${JSON.stringify(row)}`);
+      }
+      rates.set(currency, [...(rates.get(currency) ?? []), { from, perUsd }]);
+    });
+    rates.forEach((periods) => periods.sort((a, b) => a.from.localeCompare(b.from)));
+    ratesCache = rates;
+  }
+  return ratesCache;
+}
+
+/** Units of a currency per US dollar on a date (YYYY-MM-DD), or null for an unknown currency */
+export function rateOn(currency: string, date: string): number | null {
+  const periods = loadRates().get(currency.toUpperCase());
+  if (!periods) return null;
+  const period = periods.findLast((p) => p.from <= date) ?? periods[0];
+  return period.perUsd;
+}
+
+/** Convert an amount observed on a date; null when either currency has no rates */
+export function convertPrice(amount: number, from: string | null, to: Currency, date: string): number | null {
+  const source = from || DEFAULT_CURRENCY;
+  if (source.toUpperCase() === to) return amount;
+  const fromRate = rateOn(source, date);
+  const toRate = rateOn(to, date);
+  return fromRate && toRate ? (amount / fromRate) * toRate : null;
+}
+
+/**
+ * Mongo expression for the factor converting a record's price into a currency,
+ * picked by the record's `currency` and `date` fields
+ * Records in a currency without rates get null, so $avg/$min/$max skip them
+ */
+export function conversionFactorExpression(to: Currency): Record<string, unknown> {
+  const rates = loadRates();
+  const currency = { $toUpper: { $ifNull: ["$currency", DEFAULT_CURRENCY] } };
+  const branches: { case: Record<string, unknown>; then: number }[] = [];
+
+  rates.forEach((periods, source) => {
+    const isSource = { $eq: [currency, source] };
+    if (source === to) {
+      branches.push({ case: isSource, then: 1 });
+      return;
+    }
+    // Every date either currency's rate changes on, newest first
+    const changes = [...new Set([...periods, ...(rates.get(to) ?? [])].map((p) => p.from))]
+      .filter(Boolean)
+      .sort()
+      .reverse();
+    changes.forEach((from) => {
+      branches.push({
+        case: { $and: [isSource, { $gte: ["$date", from] }] },
+        then: rateOn(to, from)! / rateOn(source, from)!,
+      });
+    });
+    branches.push({ case: isSource, then: rateOn(to, '')! / rateOn(source, '')! });
+  });
+
+  return { $switch: { branches, default: null } };
+}
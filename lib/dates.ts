@@ -0,0 +1,56 @@
+/**
+ * Date helpers shared by ingestion, validation and queries
+ */
+
+/**
+ * Normalise a date to YYYY-MM-DD
+ * Accepts ISO dates (with or without a time part) and day-first D/M/YYYY
+ */
+export function normaliseDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const dayFirst = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const parts = iso ? [iso[1], iso[2], iso[3]] : dayFirst ? [dayFirst[3], dayFirst[2], dayFirst[1]] : null;
+  if (!parts) return null;
+  const [year, month, day] = parts.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject dates that rolled over, e.g. 2023-02-30
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * ISO 8601 week of a YYYY-MM-DD date, labelled like Mongo's "%G-W%V" (e.g. "2023-W24")
+ */
+export function isoWeek(date: string): string {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  // The ISO week year is the year of the week's Thursday
+  day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+  const year = day.getUTCFullYear();
+  const week = Math.ceil(((day.getTime() - Date.UTC(year, 0, 1)) / 86_400_000 + 1) / 7);
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * The "YYYY-MM" month a number of months after (or, if negative, before) another
+ */
+export function addMonths(period: string, count: number): string {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1 + count, 1)).toISOString().slice(0, 7);
+}
+
+/** Preset periods ending today, as accepted by the `range` query parameter */
+export const DATE_RANGES = ['3m', '6m', '12m'] as const;
+
+export type DateRange = typeof DATE_RANGES[number];
+
+/**
+ * First and last day (YYYY-MM-DD) of a preset period ending on `today`
+ * "3m" starts on the same day three months before, or the month's last day if it is shorter
+ */
+export function resolveDateRange(range: DateRange, today: Date = new Date()): { from: string; to: string } {
+  const months = Number(range.slice(0, -1));
+  const start = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - months, 1));
+  const lastDay = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)).getUTCDate();
+  start.setUTCDate(Math.min(today.getUTCDate(), lastDay));
+  return { from: start.toISOString().slice(0, 10), to: today.toISOString().slice(0, 10) };
+}
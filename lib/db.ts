@@ -1,248 +1,339 @@
-const mongoose = require('mongoose');
+import type { AuditLogStore, PriceRecordStore } from './admin';
+import type { ApiKeyStore } from './api-keys';
+import type { Currency } from './currency';
+import { groupLatestPrices, PriceSortKey, sortPriceRows, SortOrder } from './price-table';
+import type { QualityFilter, QualityFlag, QualityReason } from './quality';
+import type { StandardUnit } from './units';
+import type { WatchRuleStore } from './watchlists';
 
-// Cache the connection promise to reuse across requests (important for serverless)
-let connectionPromise: Promise<typeof mongoose> | null = null;
-
-async function getDb() {
-  const URI = process.env.URI;
-  const DB_NAME = process.env.DB_NAME;
-
-  if (!URI || !DB_NAME) {
-    throw new Error('MongoDB connection variables missing. Please set URI and DB_NAME environment variables.');
-  }
-
-  try {
-    // Reuse existing connection if available
-    if (!connectionPromise) {
-      connectionPromise = mongoose.connect(URI, { dbName: DB_NAME });
-    }
-    await connectionPromise;
-    console.log("Database connected successful");
-    return mongoose.connection.db;
-  } catch (error) {
-    // Reset connection promise on error to allow retry
-    connectionPromise = null;
-    console.log('Fail to connect', error);
-    throw error;
-  }
-}
+/**
+ * Price queries used by the API routes, answered by a pluggable repository
+ *
+ * DATA_BACKEND selects the store:
+ * - "mongo" (default): the MongoDB collections, needs URI and DB_NAME
+ * - "sqlite": a SQLite file (SQLITE_FILE, default data/food-prices.sqlite),
+ *   created from the bundled sample dataset when empty
+ * - "memory": the bundled sample dataset held in memory
+ */
 
 export interface PriceRow {
   id: string;
+  itemId: string;
   item: string;
   category: string;
+  categoryId: string;
   unit: string;
   price: number;
   currency: string;
+  /** Price per kg, litre or piece, null when the unit has no fixed size */
+  normalisedPrice: number | null;
+  normalisedUnit: StandardUnit | null;
   date: string;
+  provinceId: string;
   province: string;
+  districtId: string;
   district: string;
+  marketId: string;
   market: string;
+  quality: Pick<QualityFlag, 'flagged' | 'reasons'> | null;
+}
+
+export type PriceTrend = 'up' | 'down' | 'same';
+
+/**
+ * A market's latest observation of an item compared with that same market's
+ * previous observation (the most recent one on an earlier date)
+ */
+export interface LatestPriceRow extends PriceRow {
+  previousPrice: number | null;
+  previousDate: string | null;
+  change: number | null;
+  changePercent: number | null;
+  trend: PriceTrend | null;
 }
 
 export type Overview = {
   lastUpdated: string | null;
   totalItems: number;
   totalMarkets: number;
+  /** Mean price per kg, litre or piece, over records whose unit can be normalised */
   averagePrice: number | null;
+  currency: Currency;
 };
 
+export type FilterItem = { id: string; name: string; unit: string; category: string; categoryId: string };
+
 export type Filters = {
-  provinces: { id: number; name: string; districts: { id: number; name: string }[] }[];
-  items: { id: number; name: string; unit: string; category: string }[];
+  provinces: {
+    id: string;
+    name: string;
+    districts: { id: string; name: string; markets: { id: string; name: string }[] }[];
+  }[];
+  items: FilterItem[];
+  /** Categories of the items, in the locale's names */
+  categories: { id: string; name: string }[];
+};
+
+/** Location and item scope shared by the query functions, using IDs from getFilters */
+export type ScopeParams = {
+  provinceId?: string;
+  districtId?: string;
+  /** Market ID (WFP market_id, or a slug within its district) */
+  marketId?: string;
+  itemId?: string;
+  /** Several items and/or categories; an item must match both lists when both are set */
+  itemIds?: string[];
+  categoryIds?: string[];
+  quality?: QualityFilter;
+  /** Currency prices and averages are converted into (default KHR) */
+  currency?: Currency;
+  locale?: string;
+  /** First and last day of the period records are dated in (YYYY-MM-DD, inclusive) */
+  from?: string;
+  to?: string;
+};
+
+export type ProvinceAverage = { provinceId: string; province: string; averagePrice: number };
+
+/** Mean normalised price of a district, placed at the mean position of its markets (null if unknown) */
+export type DistrictAverage = {
+  districtId: string;
+  district: string;
+  provinceId: string;
+  averagePrice: number;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+/** Mean normalised price of an item in a province over one month ("2024-06") */
+export type ProvinceItemMonth = {
+  provinceId: string;
+  province: string;
+  itemId: string;
+  period: string;
+  averagePrice: number;
+};
+
+/** Mean price of an item in one unit at one market over one month */
+export type MarketMonthPrice = {
+  provinceId: string;
+  province: string;
+  market: string;
+  itemId: string;
+  item: string;
+  unit: string;
+  period: string;
+  averagePrice: number;
+};
+
+export const HISTORY_INTERVALS = ['month', 'week'] as const;
+
+export type HistoryInterval = typeof HISTORY_INTERVALS[number];
+
+export type PriceHistoryPoint = {
+  period: string;
+  averagePrice: number;
+  minPrice: number;
+  maxPrice: number;
+  count: number;
+};
+
+export type MarketQuality = {
+  market: string;
+  province: string;
+  district: string;
+  total: number;
+  flagged: number;
+  unchecked: number;
+  flaggedRate: number;
+  reasons: Partial<Record<QualityReason, number>>;
+  lastChecked: string | null;
 };
 
+/** The queries every data backend answers */
+export interface PriceRepository {
+  getFilters(locale?: string): Promise<Filters>;
+  /** Items with price records in a province and/or district */
+  getItemsByLocation(params: Pick<ScopeParams, 'provinceId' | 'districtId' | 'itemIds' | 'categoryIds' | 'locale'>): Promise<FilterItem[]>;
+  /** Matching records, newest first (default limit 200), skipping the first `offset` */
+  getPriceRows(params: ScopeParams & { limit?: number; offset?: number }): Promise<PriceRow[]>;
+  /** Number of matching records, for paging through getPriceRows */
+  countPriceRows(params: ScopeParams): Promise<number>;
+  /** Every matching record, newest first, without holding them all in memory */
+  streamPriceRows(params: ScopeParams): AsyncGenerator<PriceRow>;
+  /**
+   * The latest price of every item in every market, with the change since
+   * that market's previous observation; newest first, a null limit returns every row
+   */
+  getLatestPrices(params: ScopeParams & { limit?: number | null }): Promise<LatestPriceRow[]>;
+  getOverview(params?: ScopeParams): Promise<Overview>;
+  /** Mean normalised price per province, highest first */
+  getAveragesByProvince(params: Pick<ScopeParams, 'itemId' | 'itemIds' | 'categoryIds' | 'quality' | 'currency' | 'locale' | 'from' | 'to'>): Promise<ProvinceAverage[]>;
+  /** Mean normalised price per district of a province, highest first */
+  getAveragesByDistrict(params: Pick<ScopeParams, 'provinceId' | 'itemId' | 'itemIds' | 'categoryIds' | 'quality' | 'currency' | 'locale' | 'from' | 'to'>): Promise<DistrictAverage[]>;
+  /** Mean normalised price of each of the given items per province and month, oldest first */
+  getMonthlyItemAverages(params: Pick<ScopeParams, 'quality' | 'currency' | 'locale' | 'from' | 'to'> & { itemIds: string[] }): Promise<ProvinceItemMonth[]>;
+  /** Mean price per market, item, unit and month from a month ("2024-06") on, oldest first */
+  getMarketMonthlyPrices(params: ScopeParams): Promise<MarketMonthPrice[]>;
+  /**
+   * The price series of a single item aggregated per month or ISO week
+   * Periods are labelled "2023-06" (month) or "2023-W24" (week) and sorted oldest first
+   */
+  getPriceHistory(params: ScopeParams & { itemId: string; interval?: HistoryInterval }): Promise<PriceHistoryPoint[]>;
+  /** Data quality per market, worst flagged rate first */
+  getQualityReport(params: Omit<ScopeParams, 'quality'>): Promise<MarketQuality[]>;
+  /** Saved price alert rules (see lib/watchlists.ts) */
+  watchRules: WatchRuleStore;
+  /** Keys of external API consumers (see lib/api-keys.ts) */
+  apiKeys: ApiKeyStore;
+  /** Single records edited in the admin console, and its audit log (see lib/admin.ts) */
+  priceRecords: PriceRecordStore;
+  auditLog: AuditLogStore;
+  /** Release connections so command-line scripts can exit */
+  close(): Promise<void>;
+}
 
-// Helper to get collection by locale
-function getCollection(locale: string = 'en') {
+// Helper to get collection (or SQLite table / sample file) by locale
+export function getCollection(locale: string = 'en') {
   // You may want to use different collections for each locale
   return locale === 'km' ? 'food_prices_kh' : 'food_prices_en';
 }
 
+export type DataBackend = 'mongo' | 'sqlite' | 'memory';
 
+let repositoryPromise: Promise<PriceRepository> | null = null;
+
+/**
+ * The repository selected by DATA_BACKEND, loaded once per process
+ * Backends are imported on demand so a Mongo deployment never loads SQLite
+ */
+export function getRepository(): Promise<PriceRepository> {
+  if (!repositoryPromise) {
+    const backend = (process.env.DATA_BACKEND || 'mongo') as DataBackend;
+    switch (backend) {
+      case 'mongo':
+        repositoryPromise = import('./repositories/mongo').then((m) => m.mongoRepository);
+        break;
+      case 'sqlite':
+        repositoryPromise = import('./repositories/sqlite').then((m) => m.createSqliteRepository(process.env.SQLITE_FILE));
+        break;
+      case 'memory':
+        repositoryPromise = import('./repositories/memory').then((m) => m.createMemoryRepository());
+        break;
+      default:
+        throw new Error(`Unknown DATA_BACKEND "${backend}". Use mongo, sqlite or memory.`);
+    }
+  }
+  return repositoryPromise;
+}
 
 export async function getFilters(locale: string = 'en'): Promise<Filters> {
-  const db = await getDb();
-  const collection = db.collection(getCollection(locale));
-  const provinces = await collection.distinct('admin1', { admin1: { $ne: null } });
-  const districts = await collection.aggregate([
-    { $match: { admin1: { $ne: null }, admin2: { $ne: null } } },
-    { $group: { _id: { admin1: "$admin1", admin2: "$admin2" } } },
-    { $sort: { "_id.admin1": 1, "_id.admin2": 1 } }
-  ]).toArray();
-  const items = await collection.aggregate([
-    { $match: { commodity: { $ne: null } } },
-    { $group: { _id: { name: "$commodity", unit: "$unit", category: "$category" } } },
-    { $sort: { "_id.category": 1, "_id.name": 1 } }
-  ]).toArray();
-  const provincesWithDistricts = provinces.map((p: string, idx: number) => ({
-    id: idx + 1,
-    name: p,
-    districts: districts
-      .filter((d: any) => d._id.admin1 === p)
-      .map((d: any, dIdx: number) => ({ id: dIdx + 1, name: d._id.admin2 })),
-  }));
-  return {
-    provinces: provincesWithDistricts,
-    items: items.map((i: any, idx: number) => ({
-      id: idx + 1,
-      name: i._id.name,
-      unit: i._id.unit,
-      category: i._id.category,
-    })),
-  };
+  return (await getRepository()).getFilters(locale);
 }
 
 /**
  * Get food items filtered by province and/or district
  * Returns only items that have price records in the specified location
  */
-export async function getItemsByLocation(params: {
-  provinceId?: number;
-  districtId?: number;
-  locale?: string;
-}): Promise<{ id: number; name: string; unit: string; category: string }[]> {
-  const db = await getDb();
-  const collection = db.collection(getCollection(params.locale));
-  const provinces = await collection.distinct('admin1', { admin1: { $ne: null } });
-  const districts = await collection.aggregate([
-    { $match: { admin1: { $ne: null }, admin2: { $ne: null } } },
-    { $group: { _id: { admin1: "$admin1", admin2: "$admin2" } } },
-    { $sort: { "_id.admin1": 1, "_id.admin2": 1 } }
-  ]).toArray();
-  let match: any = { commodity: { $ne: null } };
-  if (params.provinceId) {
-    const province = provinces[params.provinceId - 1];
-    if (province) match.admin1 = province;
-    if (params.districtId) {
-      const districtsForProvince = districts.filter((d: any) => d._id.admin1 === province);
-      const district = districtsForProvince[params.districtId - 1]?._id.admin2;
-      if (district) match.admin2 = district;
-    }
-  }
-  const items = await collection.aggregate([
-    { $match: match },
-    { $group: { _id: { name: "$commodity", unit: "$unit", category: "$category" } } },
-    { $sort: { "_id.category": 1, "_id.name": 1 } }
-  ]).toArray();
-  return items.map((i: any, idx: number) => ({
-    id: idx + 1,
-    name: i._id.name,
-    unit: i._id.unit,
-    category: i._id.category,
-  }));
-}
-
-export async function getPriceRows(params: {
-  provinceId?: number;
-  districtId?: number;
-  itemName?: string;
-  limit?: number;
-  locale?: string;
-}): Promise<PriceRow[]> {
-  const db = await getDb();
-  const collection = db.collection(getCollection(params.locale));
-  const provinces = await collection.distinct('admin1', { admin1: { $ne: null } });
-  const districts = await collection.aggregate([
-    { $match: { admin1: { $ne: null }, admin2: { $ne: null } } },
-    { $group: { _id: { admin1: "$admin1", admin2: "$admin2" } } },
-    { $sort: { "_id.admin1": 1, "_id.admin2": 1 } }
-  ]).toArray();
-  
-  // Base query: always filter out null commodities
-  let query: any = { commodity: { $ne: null } };
-  
-  if (params.provinceId) {
-    const province = provinces[params.provinceId - 1];
-    if (province) query.admin1 = province;
-    if (params.districtId) {
-      const districtsForProvince = districts.filter((d: any) => d._id.admin1 === province);
-      const district = districtsForProvince[params.districtId - 1]?._id.admin2;
-      if (district) query.admin2 = district;
-    }
-  }
-  if (params.itemName) {
-    query.commodity = params.itemName;
-  }
-  const limit = params.limit ?? 200;
-  const rows = await collection.find(query).sort({ date: -1, _id: -1 }).limit(limit).toArray();
-  
-  return rows.map((r: any) => {
-    // Handle price conversion - could be number, string, or null/undefined
-    let price = 0;
-    if (typeof r.price === 'number') {
-      price = r.price;
-    } else if (typeof r.price === 'string') {
-      const parsed = parseFloat(r.price);
-      price = isNaN(parsed) ? 0 : parsed;
-    }
-    
-    return {
-      id: r._id.toString(),
-      item: r.commodity,
-      category: r.category,
-      unit: r.unit,
-      price,
-      currency: r.currency,
-      date: r.date,
-      province: r.admin1,
-      district: r.admin2,
-      market: r.market,
-    };
-  });
-}
-
-export async function getOverview(params?: { provinceId?: number; districtId?: number; itemName?: string; locale?: string }): Promise<Overview> {
-  const db = await getDb();
-  const collection = db.collection(getCollection(params?.locale));
-  const provinces = await collection.distinct('admin1', { admin1: { $ne: null } });
-  const districts = await collection.aggregate([
-    { $match: { admin1: { $ne: null }, admin2: { $ne: null } } },
-    { $group: { _id: { admin1: "$admin1", admin2: "$admin2" } } },
-    { $sort: { "_id.admin1": 1, "_id.admin2": 1 } }
-  ]).toArray();
-  let query: any = {};
-  if (params?.provinceId) {
-    const province = provinces[params.provinceId - 1];
-    if (province) query.admin1 = province;
-    if (params?.districtId) {
-      const districtsForProvince = districts.filter((d: any) => d._id.admin1 === province);
-      const district = districtsForProvince[params.districtId - 1]?._id.admin2;
-      if (district) query.admin2 = district;
-    }
-  }
-  if (params?.itemName) {
-    query.commodity = params.itemName;
+export async function getItemsByLocation(params: Pick<ScopeParams, 'provinceId' | 'districtId' | 'itemIds' | 'categoryIds' | 'locale'>): Promise<FilterItem[]> {
+  return (await getRepository()).getItemsByLocation(params);
+}
+
+export async function getPriceRows(params: ScopeParams & { limit?: number; offset?: number }): Promise<PriceRow[]> {
+  return (await getRepository()).getPriceRows(params);
+}
+
+export async function countPriceRows(params: ScopeParams): Promise<number> {
+  return (await getRepository()).countPriceRows(params);
+}
+
+/**
+ * Iterate over every matching price record, newest first, without a limit
+ */
+export async function* streamPriceRows(params: ScopeParams): AsyncGenerator<PriceRow> {
+  yield* (await getRepository()).streamPriceRows(params);
+}
+
+/**
+ * Get the latest price of every item in every market, with the change since
+ * that market's previous observation of the same item
+ */
+export async function getLatestPrices(params: ScopeParams & { limit?: number | null }): Promise<LatestPriceRow[]> {
+  return (await getRepository()).getLatestPrices(params);
+}
+
+export type PriceTablePage = {
+  rows: LatestPriceRow[];
+  total: number;
+};
+
+/**
+ * Get one page of the dashboard's "Latest price prints" table
+ * Every latest row in scope is grouped (see groupLatestPrices) and sorted
+ * before paging, so no province or item is lost to a fetch limit
+ */
+export async function getPriceTable(params: ScopeParams & {
+  page: number;
+  pageSize: number;
+  sort?: PriceSortKey;
+  order?: SortOrder;
+}): Promise<PriceTablePage> {
+  const latest = await getLatestPrices({ ...params, limit: null });
+  const rows = sortPriceRows(groupLatestPrices(latest, params), params.sort, params.order);
+  const start = (params.page - 1) * params.pageSize;
+  return { rows: rows.slice(start, start + params.pageSize), total: rows.length };
+}
+
+export async function getOverview(params?: ScopeParams): Promise<Overview> {
+  return (await getRepository()).getOverview(params);
+}
+
+export async function getAveragesByProvince(params: Pick<ScopeParams, 'itemId' | 'itemIds' | 'categoryIds' | 'quality' | 'currency' | 'locale' | 'from' | 'to'>): Promise<ProvinceAverage[]> {
+  return (await getRepository()).getAveragesByProvince(params);
+}
+
+/**
+ * Get the mean normalised price per district of a province, for the map drill-down
+ */
+export async function getAveragesByDistrict(params: Pick<ScopeParams, 'provinceId' | 'itemId' | 'itemIds' | 'categoryIds' | 'quality' | 'currency' | 'locale' | 'from' | 'to'>): Promise<DistrictAverage[]> {
+  return (await getRepository()).getAveragesByDistrict(params);
+}
+
+/**
+ * Get the mean normalised price of items per province and month, for basket costs
+ */
+export async function getMonthlyItemAverages(params: Pick<ScopeParams, 'quality' | 'currency' | 'locale' | 'from' | 'to'> & { itemIds: string[] }): Promise<ProvinceItemMonth[]> {
+  return (await getRepository()).getMonthlyItemAverages(params);
+}
+
+/**
+ * Get the mean price per market, item, unit and month, for price changes
+ */
+export async function getMarketMonthlyPrices(params: ScopeParams): Promise<MarketMonthPrice[]> {
+  return (await getRepository()).getMarketMonthlyPrices(params);
+}
+
+/**
+ * Get the price series of a single item aggregated per month or ISO week
+ */
+export async function getPriceHistory(params: ScopeParams & { itemId: string; interval?: HistoryInterval }): Promise<PriceHistoryPoint[]> {
+  return (await getRepository()).getPriceHistory(params);
+}
+
+/**
+ * Summarise data quality per market, worst flagged rate first
+ */
+export async function getQualityReport(params: Omit<ScopeParams, 'quality'>): Promise<MarketQuality[]> {
+  return (await getRepository()).getQualityReport(params);
+}
+
+/**
+ * Close the active repository so command-line scripts can exit
+ */
+export async function closeDb(): Promise<void> {
+  if (repositoryPromise) {
+    const repository = await repositoryPromise;
+    repositoryPromise = null;
+    await repository.close();
   }
-  const lastUpdatedRow = await collection.find(query).sort({ date: -1 }).limit(1).toArray();
-  const lastUpdated = lastUpdatedRow[0]?.date || null;
-  const totalItems = await collection.distinct('commodity', query);
-  const totalMarkets = await collection.distinct('market', query);
-  const avg = await collection.aggregate([
-    { $match: query },
-    { $addFields: { priceNum: { $toDouble: "$price" } } },
-    { $group: { _id: null, averagePrice: { $avg: "$priceNum" } } }
-  ]).toArray();
-  return {
-    lastUpdated,
-    totalItems: totalItems.length,
-    totalMarkets: totalMarkets.length,
-    averagePrice: avg[0]?.averagePrice ?? null,
-  };
-}
-
-export async function getAveragesByProvince(itemName?: string, locale?: string) {
-  const db = await getDb();
-  const collection = db.collection(getCollection(locale));
-  let match: any = {};
-  if (itemName) match.commodity = itemName;
-  console.log("getAveragesByProvince - match:", match, "collection:", getCollection(locale));
-  const result = await collection.aggregate([
-    { $match: match },
-    { $addFields: { priceNum: { $toDouble: "$price" } } },
-    { $group: { _id: "$admin1", averagePrice: { $avg: "$priceNum" } } },
-    { $sort: { averagePrice: -1 } }
-  ]).toArray();
-  console.log("getAveragesByProvince - result count:", result.length);
-  return result.map((r: any) => ({ province: r._id, averagePrice: r.averagePrice }));
 }
@@ -0,0 +1,222 @@
+import { addMonths } from './dates';
+import { getPriceHistory, ScopeParams } from './db';
+import type { InvalidField } from './query';
+
+/**
+ * Short-term price forecasts
+ *
+ * An item's monthly average prices in a scope are forecast one to three months
+ * ahead with one of three explainable models:
+ * - naive: next months repeat the last month
+ * - seasonal-naive: next months repeat the same months a year before
+ * - holt: exponential smoothing of level and trend, the trend damped so it
+ *   flattens out instead of running away
+ * Each model is back-tested from rolling origins: fitted on the months up to an
+ * origin and scored on the months after it. "auto" picks the model with the
+ * lowest mean absolute error, and prediction intervals are the forecast ± the
+ * back-tested root mean squared error at that horizon, scaled to 80% and 95%.
+ * Months without prices inside the series are interpolated.
+ */
+
+export const FORECAST_MODELS = ['auto', 'naive', 'seasonal-naive', 'holt'] as const;
+
+export type ForecastModel = typeof FORECAST_MODELS[number];
+
+export type FittedModel = Exclude<ForecastModel, 'auto'>;
+
+export const MAX_FORECAST_HORIZON = 3;
+
+/** Months a model is fitted on before its first back-test origin */
+export const MIN_TRAINING_MONTHS = 6;
+
+const SEASON_LENGTH = 12;
+
+/** Normal quantiles of the two-sided 80% and 95% intervals */
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+/** Trend damping of the holt model; 1 would keep the trend forever */
+const DAMPING = 0.9;
+
+export type ForecastPoint = {
+  /** Month forecast ("2025-07") */
+  period: string;
+  horizon: number;
+  price: number;
+  /** Prediction intervals, never below zero */
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+};
+
+export type BacktestMetrics = {
+  horizon: number;
+  /** Forecasts scored at this horizon */
+  count: number;
+  /** Mean absolute error, in the requested currency */
+  mae: number;
+  /** Mean absolute percentage error */
+  mape: number;
+  /** Root mean squared error, in the requested currency */
+  rmse: number;
+};
+
+export type ModelBacktest = {
+  model: FittedModel;
+  metrics: BacktestMetrics[];
+};
+
+export type ForecastReport = {
+  /** Model forecasting, null when there are too few months to forecast */
+  model: FittedModel | null;
+  /** Newest month with prices, the one the forecast starts after */
+  lastPeriod: string | null;
+  /** Months of prices the forecast is built from, interpolated gaps included */
+  months: number;
+  points: ForecastPoint[];
+  /** Back-tests of every model there was enough history for, the chosen one first */
+  backtests: ModelBacktest[];
+};
+
+/** A fitted model's forecasts of the `horizon` months after `train` */
+type Forecaster = (train: number[], horizon: number) => number[];
+
+const FORECASTERS: Record<FittedModel, { minMonths: number; forecast: Forecaster }> = {
+  naive: {
+    minMonths: 1,
+    forecast: (train, horizon) => Array(horizon).fill(train[train.length - 1]),
+  },
+  'seasonal-naive': {
+    minMonths: SEASON_LENGTH,
+    forecast: (train, horizon) =>
+      Array.from({ length: horizon }, (_, i) => train[train.length - SEASON_LENGTH + (i % SEASON_LENGTH)]),
+  },
+  holt: {
+    minMonths: 3,
+    forecast: holtForecast,
+  },
+};
+
+// Helper to run damped-trend smoothing over a series, returning its final level,
+// trend and the sum of squared one-step errors
+function smooth(series: number[], alpha: number, beta: number) {
+  let level = series[0];
+  let trend = series[1] - series[0];
+  let squaredError = 0;
+  for (let t = 1; t < series.length; t++) {
+    const expected = level + DAMPING * trend;
+    squaredError += (series[t] - expected) ** 2;
+    const previousLevel = level;
+    level = alpha * series[t] + (1 - alpha) * expected;
+    trend = beta * (level - previousLevel) + (1 - beta) * DAMPING * trend;
+  }
+  return { level, trend, squaredError };
+}
+
+/**
+ * Damped-trend (Holt) forecast, its smoothing weights picked by a grid search
+ * for the smallest one-step error on the training months
+ */
+function holtForecast(train: number[], horizon: number): number[] {
+  let best: ReturnType<typeof smooth> | null = null;
+  for (let alpha = 0.1; alpha < 0.95; alpha += 0.1) {
+    for (const beta of [0.05, 0.1, 0.2, 0.3]) {
+      const fit = smooth(train, alpha, beta);
+      if (!best || fit.squaredError < best.squaredError) best = fit;
+    }
+  }
+  const { level, trend } = best!;
+  let damping = 0;
+  return Array.from({ length: horizon }, (_, i) => {
+    damping += DAMPING ** (i + 1);
+    return level + damping * trend;
+  });
+}
+
+// Helper to turn a sparse monthly history into one price per month, interpolating gaps
+function monthlySeries(points: { period: string; averagePrice: number }[]): number[] {
+  const prices = new Map(points.map((p) => [p.period, p.averagePrice]));
+  const series: (number | null)[] = [];
+  for (let period = points[0].period; period <= points[points.length - 1].period; period = addMonths(period, 1)) {
+    series.push(prices.get(period) ?? null);
+  }
+  return series.map((price, i) => {
+    if (price !== null) return price;
+    const before = series.slice(0, i).findLastIndex((p) => p !== null);
+    const after = i + series.slice(i).findIndex((p) => p !== null);
+    return series[before]! + ((series[after]! - series[before]!) * (i - before)) / (after - before);
+  });
+}
+
+// Helper to back-test a model from every origin at or after `start`
+function backtest(series: number[], forecast: Forecaster, start: number, horizon: number): BacktestMetrics[] {
+  const errors: { absolute: number; percent: number }[][] = Array.from({ length: horizon }, () => []);
+  for (let origin = start; origin < series.length; origin++) {
+    const predicted = forecast(series.slice(0, origin), Math.min(horizon, series.length - origin));
+    predicted.forEach((value, h) => {
+      const actual = series[origin + h];
+      errors[h].push({ absolute: Math.abs(actual - value), percent: actual ? (Math.abs(actual - value) / actual) * 100 : 0 });
+    });
+  }
+  return errors.map((e, h) => ({
+    horizon: h + 1,
+    count: e.length,
+    mae: e.reduce((sum, x) => sum + x.absolute, 0) / e.length,
+    mape: e.reduce((sum, x) => sum + x.percent, 0) / e.length,
+    rmse: Math.sqrt(e.reduce((sum, x) => sum + x.absolute ** 2, 0) / e.length),
+  }));
+}
+
+function meanError(metrics: BacktestMetrics[]): number {
+  return metrics.reduce((sum, m) => sum + m.mae, 0) / metrics.length;
+}
+
+/**
+ * Forecast an item's monthly average price in a scope
+ * An explicitly requested model without enough history is an error; with
+ * "auto", too short a history gives a report without points instead
+ */
+export async function getForecast(params: ScopeParams & {
+  itemId: string;
+  horizon: number;
+  model: ForecastModel;
+}): Promise<{ report: ForecastReport } | { errors: InvalidField[] }> {
+  const history = await getPriceHistory({ ...params, interval: 'month' });
+  const series = history.length ? monthlySeries(history) : [];
+  const lastPeriod = history.length ? history[history.length - 1].period : null;
+
+  // Every model is scored from the same origins, leaving each horizon at least one
+  const requested: FittedModel[] = params.model === 'auto' ? ['naive', 'seasonal-naive', 'holt'] : [params.model];
+  const minimum = (model: FittedModel) => Math.max(MIN_TRAINING_MONTHS, FORECASTERS[model].minMonths) + params.horizon;
+  const candidates = requested.filter((model) => series.length >= minimum(model));
+  if (params.model !== 'auto' && !candidates.length) {
+    return { errors: [{ field: 'model', message: `${params.model} needs ${minimum(params.model)} months of prices, the item has ${series.length}` }] };
+  }
+  if (!candidates.length) {
+    return { report: { model: null, lastPeriod, months: series.length, points: [], backtests: [] } };
+  }
+
+  const start = Math.max(...candidates.map((model) => minimum(model) - params.horizon));
+  const backtests = candidates
+    .map((model) => ({ model, metrics: backtest(series, FORECASTERS[model].forecast, start, params.horizon) }))
+    .sort((a, b) => meanError(a.metrics) - meanError(b.metrics));
+  const [chosen] = backtests;
+
+  const points = FORECASTERS[chosen.model].forecast(series, params.horizon).map((value, i): ForecastPoint => {
+    // A falling trend can't take a price below zero
+    const price = Math.max(0, value);
+    const { rmse } = chosen.metrics[i];
+    return {
+      period: addMonths(lastPeriod!, i + 1),
+      horizon: i + 1,
+      price,
+      lower80: Math.max(0, price - Z_80 * rmse),
+      upper80: price + Z_80 * rmse,
+      lower95: Math.max(0, price - Z_95 * rmse),
+      upper95: price + Z_95 * rmse,
+    };
+  });
+
+  return { report: { model: chosen.model, lastPeriod, months: series.length, points, backtests } };
+}
@@ -0,0 +1,99 @@
+/**
+ * Geometry for the dashboard's province map
+ *
+ * Shapes are GeoJSON polygons in longitude/latitude. They are drawn with an
+ * equirectangular projection scaled by the cosine of the mid latitude, which
+ * is accurate enough at Cambodia's size. Districts have no bundled shapes, so
+ * the map divides a province between its markets (see powerCells).
+ */
+
+export type Point = [number, number];
+export type Ring = Point[];
+
+export type MapGeometry =
+  | { type: 'Polygon'; coordinates: Ring[] }
+  | { type: 'MultiPolygon'; coordinates: Ring[][] };
+
+/** A province of public/geo/cambodia-admin1.json, keyed by its admin1 pcode */
+export type ProvinceFeature = {
+  type: 'Feature';
+  properties: { ADM1_PCODE: string; ADM1_EN: string };
+  geometry: MapGeometry;
+};
+
+/** Outer rings of a polygon or multipolygon (holes aren't drawn) */
+export function outerRings(geometry: MapGeometry): Ring[] {
+  return geometry.type === 'Polygon' ? [geometry.coordinates[0]] : geometry.coordinates.map((polygon) => polygon[0]);
+}
+
+/**
+ * Project longitude/latitude onto a width × height box so that the given rings
+ * fill it, keeping the aspect ratio
+ */
+export function fitProjection(rings: Ring[], width: number, height: number, padding = 8): (point: Point) => Point {
+  const points = rings.flat();
+  const [minLon, maxLon] = [Math.min(...points.map((p) => p[0])), Math.max(...points.map((p) => p[0]))];
+  const [minLat, maxLat] = [Math.min(...points.map((p) => p[1])), Math.max(...points.map((p) => p[1]))];
+  const xScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  const spanX = (maxLon - minLon) * xScale || 1;
+  const spanY = maxLat - minLat || 1;
+  const scale = Math.min((width - 2 * padding) / spanX, (height - 2 * padding) / spanY);
+  // Centre the shapes in whichever direction has room to spare
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+  return ([lon, lat]) => [offsetX + (lon - minLon) * xScale * scale, offsetY + (maxLat - lat) * scale];
+}
+
+/** SVG path data for rings that are already projected */
+export function ringsToPath(rings: Ring[]): string {
+  return rings
+    .filter((ring) => ring.length > 2)
+    .map((ring) => `M${ring.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join('L')}Z`)
+    .join('');
+}
+
+// Helper to keep the part of a ring where a·x + b·y ≤ c (one Sutherland–Hodgman step)
+function clipRing(ring: Ring, a: number, b: number, c: number): Ring {
+  const inside = ([x, y]: Point) => a * x + b * y <= c;
+  const crossing = ([x1, y1]: Point, [x2, y2]: Point): Point => {
+    const t = (c - a * x1 - b * y1) / (a * (x2 - x1) + b * (y2 - y1));
+    return [x1 + t * (x2 - x1), y1 + t * (y2 - y1)];
+  };
+  const result: Ring = [];
+  ring.forEach((current, index) => {
+    const previous = ring[(index + ring.length - 1) % ring.length];
+    if (inside(current)) {
+      if (!inside(previous)) result.push(crossing(previous, current));
+      result.push(current);
+    } else if (inside(previous)) {
+      result.push(crossing(previous, current));
+    }
+  });
+  return result;
+}
+
+/**
+ * Split a region between sites: each site gets the part of every boundary
+ * ring that is closer to it than to any other site (a Voronoi diagram)
+ * A weight enlarges a site's cell, as if it were a circle of radius √weight
+ * (a power diagram); use it to give large provinces room around small ones.
+ * Points are in any planar coordinates, e.g. projected SVG units.
+ */
+export function powerCells(sites: { point: Point; weight?: number }[], boundary: Ring[]): Ring[][] {
+  return sites.map((site, i) => {
+    const [xi, yi] = site.point;
+    return boundary
+      .map((ring) => sites.reduce((cell, other, j) => {
+        if (i === j || !cell.length) return cell;
+        const [xj, yj] = other.point;
+        // Points where |p - si|² - wi ≤ |p - sj|² - wj
+        return clipRing(
+          cell,
+          2 * (xj - xi),
+          2 * (yj - yi),
+          xj * xj + yj * yj - (other.weight ?? 0) - (xi * xi + yi * yi - (site.weight ?? 0))
+        );
+      }, ring))
+      .filter((cell) => cell.length > 2);
+  });
+}
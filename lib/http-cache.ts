@@ -0,0 +1,25 @@
+import { createHash } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * JSON response that browsers and CDNs may cache for `maxAge` seconds, with an
+ * ETag so a revalidation of unchanged data gets an empty 304. When
+ * API_KEYS_REQUIRED is "true" only the browser may keep it, so a shared cache
+ * never hands a key-gated response to a request without a key
+ */
+export function cachedJson(request: NextRequest, body: unknown, maxAge: number): NextResponse {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash('sha1').update(json).digest('base64url')}"`;
+  const scope = process.env.API_KEYS_REQUIRED === 'true' ? 'private' : 'public';
+  const headers = {
+    ETag: etag,
+    'Cache-Control': `${scope}, max-age=${maxAge}, stale-while-revalidate=${maxAge * 5}`,
+    Vary: 'Authorization, X-API-Key',
+  };
+  // Proxies may weaken the tag (W/"…") or send several
+  const requested = request.headers.get('if-none-match')?.split(',').map((tag) => tag.trim().replace(/^W\//, ''));
+  if (requested?.includes(etag) || requested?.includes('*')) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return new NextResponse(json, { headers: { ...headers, 'Content-Type': 'application/json' } });
+}
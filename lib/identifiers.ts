@@ -0,0 +1,132 @@
+/**
+ * Stable, locale-independent identifiers for places and food items
+ *
+ * Provinces are identified by their admin1 pcode (KH01 … KH25), looked up from
+ * the English or Khmer name so both collections agree; districts and food
+ * categories likewise by a short key. Markets and items use the market_id /
+ * commodity_id stored on the record. Without one (or a district pcode, or a
+ * district missing from DISTRICTS), the ID is a slug of the name, which
+ * differs between languages; `npm run check:ids` lists such IDs.
+ */
+
+type ProvinceEntry = { pcode: string; names: string[] };
+
+/** Cambodian provinces with the spellings used in WFP/HDX data in English and Khmer */
+const PROVINCES: ProvinceEntry[] = [
+  { pcode: 'KH01', names: ['Banteay Meanchey', 'បន្ទាយមានជ័យ'] },
+  { pcode: 'KH02', names: ['Battambang', 'បាត់ដំបង'] },
+  { pcode: 'KH03', names: ['Kampong Cham', 'Kompong Cham', 'កំពង់ចាម'] },
+  { pcode: 'KH04', names: ['Kampong Chhnang', 'Kompong Chhnang', 'កំពង់ឆ្នាំង'] },
+  { pcode: 'KH05', names: ['Kampong Speu', 'Kompong Speu', 'កំពង់ស្ពឺ'] },
+  { pcode: 'KH06', names: ['Kampong Thom', 'Kompong Thom', 'កំពង់ធំ'] },
+  { pcode: 'KH07', names: ['Kampot', 'កំពត'] },
+  { pcode: 'KH08', names: ['Kandal', 'កណ្ដាល', 'កណ្តាល'] },
+  { pcode: 'KH09', names: ['Koh Kong', 'កោះកុង'] },
+  { pcode: 'KH10', names: ['Kratie', 'Kracheh', 'ក្រចេះ'] },
+  { pcode: 'KH11', names: ['Mondul Kiri', 'Mondulkiri', 'មណ្ឌលគិរី'] },
+  { pcode: 'KH12', names: ['Phnom Penh', 'ភ្នំពេញ'] },
+  { pcode: 'KH13', names: ['Preah Vihear', 'ព្រះវិហារ'] },
+  { pcode: 'KH14', names: ['Prey Veng', 'ព្រៃវែង'] },
+  { pcode: 'KH15', names: ['Pursat', 'Pouthisat', 'ពោធិ៍សាត់'] },
+  { pcode: 'KH16', names: ['Ratanak Kiri', 'Ratanakiri', 'Rattanakiri', 'រតនគិរី'] },
+  { pcode: 'KH17', names: ['Siemreap', 'Siem Reap', 'សៀមរាប'] },
+  { pcode: 'KH18', names: ['Preah Sihanouk', 'Sihanoukville', 'ព្រះសីហនុ'] },
+  { pcode: 'KH19', names: ['Stung Treng', 'Stoeng Treng', 'ស្ទឹងត្រែង'] },
+  { pcode: 'KH20', names: ['Svay Rieng', 'ស្វាយរៀង'] },
+  { pcode: 'KH21', names: ['Takeo', 'Takev', 'តាកែវ'] },
+  { pcode: 'KH22', names: ['Otdar Meanchey', 'Oddar Meanchey', 'ឧត្ដរមានជ័យ', 'ឧត្តរមានជ័យ'] },
+  { pcode: 'KH23', names: ['Kep', 'Kaeb', 'កែប'] },
+  { pcode: 'KH24', names: ['Pailin', 'ប៉ៃលិន'] },
+  { pcode: 'KH25', names: ['Tboung Khmum', 'Tbong Khmum', 'ត្បូងឃ្មុំ'] },
+];
+
+type DistrictEntry = { provinceId: string; key: string; names: string[] };
+
+/**
+ * Districts of the WFP/HDX markets with their English and Khmer spellings
+ * The key is the slug of the English name, so English IDs stay as they were
+ */
+const DISTRICTS: DistrictEntry[] = [
+  { provinceId: 'KH02', key: 'battambang', names: ['Battambang', 'Krong Battambang', 'ក្រុងបាត់ដំបង', 'បាត់ដំបង'] },
+  { provinceId: 'KH07', key: 'kampot', names: ['Kampot', 'Krong Kampot', 'ក្រុងកំពត', 'កំពត'] },
+  { provinceId: 'KH12', key: 'chamkar-mon', names: ['Chamkar Mon', 'Chamkarmon', 'ចំការមន', 'ខណ្ឌចំការមន'] },
+  { provinceId: 'KH12', key: 'daun-penh', names: ['Daun Penh', 'Doun Penh', 'ដូនពេញ', 'ខណ្ឌដូនពេញ'] },
+  { provinceId: 'KH17', key: 'siem-reap', names: ['Siem Reap', 'Siemreap', 'Krong Siem Reap', 'ក្រុងសៀមរាប', 'សៀមរាប'] },
+];
+
+type CategoryEntry = { id: string; names: string[] };
+
+/** WFP food price categories with their names in the English and Khmer data */
+const CATEGORIES: CategoryEntry[] = [
+  { id: 'cereals-tubers', names: ['cereals and tubers', 'ធញ្ញជាតិ និងមើម'] },
+  { id: 'meat-fish-eggs', names: ['meat, fish and eggs', 'សាច់ ត្រី និងពង'] },
+  { id: 'milk-dairy', names: ['milk and dairy', 'ទឹកដោះគោ និងផលិតផលទឹកដោះគោ'] },
+  { id: 'miscellaneous', names: ['miscellaneous food', 'ម្ហូបអាហារផ្សេងៗ'] },
+  { id: 'non-food', names: ['non-food', 'មិនមែនអាហារ'] },
+  { id: 'oil-fats', names: ['oil and fats', 'ប្រេង និងខ្លាញ់'] },
+  { id: 'pulses-nuts', names: ['pulses and nuts', 'សណ្ដែក និងគ្រាប់', 'សណ្តែក និងគ្រាប់'] },
+  { id: 'vegetables-fruits', names: ['vegetables and fruits', 'បន្លែ និងផ្លែឈើ'] },
+];
+
+/** Compare names ignoring case, spacing, punctuation and zero-width characters */
+function normaliseName(name: string): string {
+  return name.normalize('NFC').toLowerCase().replace(/[\s\u200b\-_'’.,()]/g, '');
+}
+
+const provinceByName = new Map<string, string>(
+  PROVINCES.flatMap((p) => p.names.map((n) => [normaliseName(n), p.pcode] as [string, string]))
+);
+
+const districtByName = new Map<string, string>(
+  DISTRICTS.flatMap((d) => d.names.map((n) => [`${d.provinceId}|${normaliseName(n)}`, `${d.provinceId}-${d.key}`] as [string, string]))
+);
+
+const categoryByName = new Map<string, string>(
+  CATEGORIES.flatMap((c) => c.names.map((n) => [normaliseName(n), c.id] as [string, string]))
+);
+
+/**
+ * Lowercase, hyphen-separated form of a name
+ * Latin diacritics are dropped; Khmer and other scripts are kept as-is
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** Gazetteer pcode for an English or Khmer province name, if it is a known province */
+export function provincePcodeFor(name: string): string | undefined {
+  return provinceByName.get(normaliseName(name));
+}
+
+/** Stable province ID: stored pcode, else gazetteer pcode for the name, else slug */
+export function provinceIdFor(name: string, pcode?: string | null): string {
+  return pcode || provinceByName.get(normaliseName(name)) || slugify(name);
+}
+
+/**
+ * Stable district ID: stored pcode, else "<province ID>-<key>" of a known
+ * district, else "<province ID>-<district slug>"
+ */
+export function districtIdFor(provinceId: string, name: string, pcode?: string | null): string {
+  return pcode || districtByName.get(`${provinceId}|${normaliseName(name)}`) || `${provinceId}-${slugify(name)}`;
+}
+
+/** Stable market ID: WFP market_id when present, else "<district ID>-<market slug>" */
+export function marketIdFor(districtId: string, name: string, marketId?: string | number | null): string {
+  return marketId != null && marketId !== '' ? String(marketId) : `${districtId}-${slugify(name)}`;
+}
+
+/** Stable category ID: the key of a known WFP category, else slug of the name */
+export function categoryIdFor(name: string): string {
+  return categoryByName.get(normaliseName(name)) || slugify(name);
+}
+
+/** Canonical commodity key: WFP commodity_id when present, else slug of the name */
+export function itemIdFor(name: string, commodityId?: string | number | null): string {
+  return commodityId != null && commodityId !== '' ? String(commodityId) : slugify(name);
+}
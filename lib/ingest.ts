@@ -0,0 +1,125 @@
+import { ObjectId } from 'mongodb';
+import { invalidateCatalogue } from './catalogue';
+import { getCollection } from './db';
+import { getDb } from './mongo';
+import { parseCsvRecords } from './csv';
+import { LIVE_RECORDS, NATURAL_KEY, normaliseRow, PriceRecord, sourceKeyOf } from './price-records';
+import { assessRecords, CheckedRecord, QualityFlag, ValidationSummary } from './quality';
+
+/**
+ * Loading of WFP/HDX food price CSVs into the locale collections
+ *
+ * Rows are normalised (trimmed text, numeric prices, ISO dates) and upserted on
+ * their natural key, so running the same file twice changes nothing. Records
+ * corrected or deleted in the admin console (`edited_at` set) keep their values.
+ * They are matched on the key of their source row (`source_key`), so neither a
+ * correction of a natural key field nor a deletion brings the original row back.
+ * Writes invalidate the cached location/item catalogue.
+ */
+
+export type IngestReport = {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  skippedReasons: Record<string, number>;
+};
+
+// Helper for an update pipeline stage setting a record's fields, unless an admin edited the stored record
+function keepEdited(record: PriceRecord): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).map(([field, value]) => [
+    field,
+    { $cond: [{ $ifNull: ['$edited_at', false] }, `$${field}`, { $literal: value }] },
+  ]));
+}
+
+/**
+ * Upsert normalised rows into the collection for a locale
+ * Dry runs validate and count skipped rows without writing
+ */
+export async function ingestRows(
+  rows: Record<string, string>[],
+  options: { locale?: string; dryRun?: boolean; batchSize?: number } = {}
+): Promise<IngestReport> {
+  const report: IngestReport = { inserted: 0, updated: 0, unchanged: 0, skipped: 0, skippedReasons: {} };
+  const records: PriceRecord[] = [];
+  rows.forEach((row) => {
+    const result = normaliseRow(row);
+    if ('record' in result) {
+      records.push(result.record);
+    } else {
+      report.skipped++;
+      report.skippedReasons[result.reason] = (report.skippedReasons[result.reason] ?? 0) + 1;
+    }
+  });
+  if (options.dryRun || !records.length) return report;
+
+  const db = await getDb();
+  const collection = db.collection(getCollection(options.locale));
+  await collection.createIndex(Object.fromEntries(NATURAL_KEY.map((k) => [k, 1])), { name: 'natural_key' });
+  await collection.createIndex({ source_key: 1 }, { name: 'source_key' });
+
+  const batchSize = options.batchSize ?? 1000;
+  for (let start = 0; start < records.length; start += batchSize) {
+    const batch = records.slice(start, start + batchSize);
+    const result = await collection.bulkWrite(
+      batch.map((record) => ({
+        updateOne: {
+          // The record changed in the console from this row, else an unchanged one with its key
+          filter: {
+            $or: [
+              { source_key: sourceKeyOf(record) },
+              { ...Object.fromEntries(NATURAL_KEY.map((k) => [k, record[k] ?? null])), source_key: null },
+            ],
+          },
+          update: [{ $set: keepEdited(record) }],
+          upsert: true,
+        },
+      })),
+      { ordered: true }
+    );
+    report.inserted += result.upsertedCount;
+    report.updated += result.modifiedCount;
+    report.unchanged += result.matchedCount - result.modifiedCount;
+  }
+  if (report.inserted || report.updated) await invalidateCatalogue(collection);
+  return report;
+}
+
+/** Parse a CSV file's text and ingest it */
+export async function ingestCsv(text: string, options: { locale?: string; dryRun?: boolean } = {}): Promise<IngestReport> {
+  return ingestRows(parseCsvRecords(text), options);
+}
+
+/**
+ * Validate every record of a locale collection and store its quality flag
+ */
+export async function validateCollection(
+  locale?: string,
+  options: { threshold?: number; batchSize?: number } = {}
+): Promise<ValidationSummary> {
+  const db = await getDb();
+  const collection = db.collection(getCollection(locale));
+  const records = await collection
+    .find<CheckedRecord & { _id: ObjectId }>(LIVE_RECORDS, { projection: { admin1: 1, market: 1, commodity: 1, unit: 1, currency: 1, date: 1, price: 1 } })
+    .toArray();
+
+  const checkedAt = new Date().toISOString();
+  const reasons = assessRecords(records, options.threshold);
+  const summary: ValidationSummary = { checked: records.length, flagged: 0, reasons: {} };
+
+  const batchSize = options.batchSize ?? 1000;
+  for (let start = 0; start < records.length; start += batchSize) {
+    const operations = records.slice(start, start + batchSize).map((record, offset) => {
+      const recordReasons = reasons[start + offset];
+      const quality: QualityFlag = { flagged: recordReasons.length > 0, reasons: recordReasons, checkedAt };
+      if (quality.flagged) summary.flagged++;
+      recordReasons.forEach((reason) => {
+        summary.reasons[reason] = (summary.reasons[reason] ?? 0) + 1;
+      });
+      return { updateOne: { filter: { _id: record._id }, update: { $set: { quality } } } };
+    });
+    if (operations.length) await collection.bulkWrite(operations, { ordered: false });
+  }
+  return summary;
+}
@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+
+/**
+ * MongoDB connection shared by the Mongo repository and the ingestion scripts
+ */
+
+// Cache the connection promise to reuse across requests (important for serverless)
+let connectionPromise: Promise<typeof mongoose> | null = null;
+
+export async function getDb() {
+  const URI = process.env.URI;
+  const DB_NAME = process.env.DB_NAME;
+
+  if (!URI || !DB_NAME) {
+    throw new Error('MongoDB connection variables missing. Please set URI and DB_NAME environment variables.');
+  }
+
+  try {
+    // Reuse existing connection if available
+    if (!connectionPromise) {
+      // Logged once, when the connection is made, not on every call
+      connectionPromise = mongoose.connect(URI, { dbName: DB_NAME }).then((connection) => {
+        console.log("Database connected successful");
+        return connection;
+      });
+    }
+    await connectionPromise;
+    const db = mongoose.connection.db;
+    if (!db) throw new Error('MongoDB connection has no database');
+    return db;
+  } catch (error) {
+    // Reset connection promise on error to allow retry
+    connectionPromise = null;
+    console.log('Fail to connect', error);
+    throw error;
+  }
+}
+
+/**
+ * Close the shared connection so command-line scripts can exit
+ */
+export async function closeDb() {
+  if (connectionPromise) {
+    connectionPromise = null;
+    await mongoose.disconnect();
+  }
+}
@@ -0,0 +1,337 @@
+import { defaultLocale, locales } from '../i18n';
+import { API_VERSION, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, V1_QUERIES, V1Path } from './api-v1';
+import { CURRENCIES, DEFAULT_CURRENCY } from './currency';
+import { DATE_RANGES } from './dates';
+import { QUALITY_FILTERS, QUALITY_REASONS } from './quality';
+import { RATE_LIMIT_WINDOW_SECONDS } from './rate-limit';
+
+/**
+ * OpenAPI 3.1 description of the public API (/api/v1/*)
+ *
+ * Each endpoint's parameters are read from its schema in V1_QUERIES, so the
+ * document can't list a parameter the route doesn't parse or miss one it does;
+ * the allowed values come from the same constants the parsers check against.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+/** Every parameter name used by a v1 endpoint */
+type V1Parameter = { [P in V1Path]: keyof typeof V1_QUERIES[P] }[V1Path];
+
+type ParameterDoc = { description: string; schema: JsonSchema; example?: string };
+
+type EndpointDoc = {
+  tag: 'Catalogue' | 'Prices';
+  summary: string;
+  description: string;
+  /** Schema of `data` in the success envelope */
+  data: JsonSchema;
+  /** Responses carry a `pagination` object */
+  paged?: boolean;
+};
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (type: string, extra: JsonSchema = {}): JsonSchema => ({ type: [type, 'null'], ...extra });
+const listOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+const idList = (description: string): ParameterDoc => ({
+  description: `${description}, comma-separated (at most 50)`,
+  schema: { type: 'string' },
+});
+
+const PARAMETERS: Record<V1Parameter, ParameterDoc> = {
+  province: { description: 'Province ID (pcode)', schema: { type: 'string' }, example: 'KH12' },
+  district: { description: 'District ID (pcode, or "<province ID>-<district slug>")', schema: { type: 'string' } },
+  market: { description: 'Market ID (WFP market ID, or "<district ID>-<market slug>")', schema: { type: 'string' } },
+  item: { description: 'Food item ID', schema: { type: 'string' }, example: '52' },
+  items: idList('Food item IDs'),
+  categories: idList('Category IDs; with items, only the listed items in these categories'),
+  quality: {
+    description: 'Include records flagged by data validation, exclude them, or return only them',
+    schema: { type: 'string', enum: [...QUALITY_FILTERS], default: 'include' },
+  },
+  currency: {
+    description: 'Currency of prices, converted at the exchange rate of their date',
+    schema: { type: 'string', enum: [...CURRENCIES], default: DEFAULT_CURRENCY },
+  },
+  from: { description: 'First day (YYYY-MM-DD) or month (YYYY-MM) of the period', schema: { type: 'string' }, example: '2024-06' },
+  to: { description: 'Last day (YYYY-MM-DD) or month (YYYY-MM) of the period', schema: { type: 'string' }, example: '2024-12' },
+  range: {
+    description: 'The months up to today, instead of from and to',
+    schema: { type: 'string', enum: [...DATE_RANGES] },
+  },
+  page: { description: '1-based page number', schema: { type: 'integer', minimum: 1, default: 1 } },
+  pageSize: {
+    description: 'Records per page',
+    schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+  },
+  locale: {
+    description: 'Language of names; IDs are the same in every language, except district IDs derived from a localised name',
+    schema: { type: 'string', enum: [...locales], default: defaultLocale },
+  },
+};
+
+const SCHEMAS: Record<string, JsonSchema> = {
+  Meta: {
+    type: 'object',
+    required: ['apiVersion'],
+    properties: {
+      apiVersion: { type: 'string', const: API_VERSION },
+      locale: { type: 'string', enum: [...locales] },
+      currency: { type: 'string', enum: [...CURRENCIES], description: 'Currency of the prices (price endpoints)' },
+      from: nullable('string', { format: 'date', description: 'First day of the period, null if open (price endpoints)' }),
+      to: nullable('string', { format: 'date', description: 'Last day of the period, null if open (price endpoints)' }),
+    },
+  },
+  Pagination: {
+    type: 'object',
+    required: ['page', 'pageSize', 'total', 'totalPages'],
+    properties: {
+      page: { type: 'integer' },
+      pageSize: { type: 'integer' },
+      total: { type: 'integer', description: 'Matching records over every page' },
+      totalPages: { type: 'integer' },
+    },
+  },
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: {
+        type: 'object',
+        required: ['status', 'message'],
+        properties: {
+          status: { type: 'integer' },
+          message: { type: 'string' },
+          fields: {
+            ...listOf({ type: 'object', properties: { field: { type: 'string' }, message: { type: 'string' } } }),
+            description: 'The invalid parameters (400 only)',
+          },
+          retryAfter: { type: 'integer', description: 'Seconds to wait (429 only)' },
+          details: { description: 'Cause of a server error, outside production only' },
+        },
+      },
+    },
+  },
+  Province: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      districts: listOf(ref('District')),
+    },
+  },
+  District: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      markets: listOf(ref('Market')),
+    },
+  },
+  Market: {
+    type: 'object',
+    properties: { id: { type: 'string' }, name: { type: 'string' } },
+  },
+  Category: {
+    type: 'object',
+    properties: { id: { type: 'string' }, name: { type: 'string' } },
+  },
+  Item: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      unit: { type: 'string', description: 'Unit the item is sold in' },
+      category: { type: 'string' },
+      categoryId: { type: 'string' },
+    },
+  },
+  PriceRecord: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'Record ID' },
+      date: { type: 'string', format: 'date' },
+      provinceId: { type: 'string' },
+      province: { type: 'string' },
+      districtId: { type: 'string' },
+      district: { type: 'string' },
+      marketId: { type: 'string' },
+      market: { type: 'string' },
+      itemId: { type: 'string' },
+      item: { type: 'string' },
+      categoryId: { type: 'string' },
+      category: { type: 'string' },
+      unit: { type: 'string' },
+      price: { type: 'number', description: 'Price per unit' },
+      currency: { type: 'string', description: 'The requested currency, or the recorded one if it has no exchange rate' },
+      normalisedPrice: nullable('number', { description: 'Price per kg, litre or piece, null when the unit has no fixed size' }),
+      normalisedUnit: nullable('string', { enum: ['kg', 'L', 'piece', null] }),
+      quality: nullable('object', {
+        description: 'Data validation result, null if never validated',
+        properties: {
+          flagged: { type: 'boolean' },
+          reasons: listOf({ type: 'string', enum: [...QUALITY_REASONS] }),
+        },
+      }),
+    },
+  },
+  LatestPriceRecord: {
+    allOf: [
+      ref('PriceRecord'),
+      {
+        type: 'object',
+        description: 'Compared with the same market\'s previous observation of the item',
+        properties: {
+          previousPrice: nullable('number'),
+          previousDate: nullable('string', { format: 'date' }),
+          change: nullable('number'),
+          changePercent: nullable('number'),
+          trend: nullable('string', { enum: ['up', 'down', 'same', null] }),
+        },
+      },
+    ],
+  },
+  Overview: {
+    type: 'object',
+    properties: {
+      lastUpdated: nullable('string', { format: 'date', description: 'Date of the newest record' }),
+      totalItems: { type: 'integer' },
+      totalMarkets: { type: 'integer' },
+      averagePrice: nullable('number', { description: 'Mean price per kg, litre or piece' }),
+      provinces: listOf({
+        type: 'object',
+        properties: {
+          provinceId: { type: 'string' },
+          province: { type: 'string' },
+          averagePrice: { type: 'number' },
+        },
+      }),
+    },
+  },
+};
+
+const ENDPOINTS: Record<V1Path, EndpointDoc> = {
+  '/locations': {
+    tag: 'Catalogue',
+    summary: 'Provinces, districts and markets',
+    description: 'Every province with its districts, and the markets within those.',
+    data: listOf(ref('Province')),
+  },
+  '/categories': {
+    tag: 'Catalogue',
+    summary: 'Food categories',
+    description: 'The categories food items are grouped in.',
+    data: listOf(ref('Category')),
+  },
+  '/items': {
+    tag: 'Catalogue',
+    summary: 'Food items',
+    description: 'Food items, one entry per item and unit it is sold in, optionally only those with prices in a place or in some categories.',
+    data: listOf(ref('Item')),
+  },
+  '/prices': {
+    tag: 'Prices',
+    summary: 'Price records',
+    description: 'Price records one by one, newest first.',
+    data: listOf(ref('PriceRecord')),
+    paged: true,
+  },
+  '/prices/latest': {
+    tag: 'Prices',
+    summary: 'Latest prices',
+    description: 'The latest price of every item in every market, newest first, with the change since that market\'s previous observation.',
+    data: listOf(ref('LatestPriceRecord')),
+    paged: true,
+  },
+  '/overview': {
+    tag: 'Prices',
+    summary: 'Overview',
+    description: 'Counts and mean prices of the records in scope, nationally and per province.',
+    data: ref('Overview'),
+  },
+};
+
+/** Headers of every rate-limited response (see lib/api-access.ts) */
+const RATE_LIMIT_HEADERS: Record<string, JsonSchema> = {
+  'RateLimit-Limit': { description: `Requests allowed per ${RATE_LIMIT_WINDOW_SECONDS} seconds`, schema: { type: 'integer' } },
+  'RateLimit-Remaining': { description: 'Requests left in the current window', schema: { type: 'integer' } },
+  'RateLimit-Reset': { description: 'Seconds until the window resets', schema: { type: 'integer' } },
+  'RateLimit-Policy': { description: 'The limit and window, e.g. "60;w=60"', schema: { type: 'string' } },
+};
+
+// Helper to describe an error response
+function errorResponse(description: string, headers?: Record<string, JsonSchema>): JsonSchema {
+  return { description, ...(headers && { headers }), content: { 'application/json': { schema: ref('Error') } } };
+}
+
+/**
+ * Build the OpenAPI document of /api/v1
+ */
+export function buildOpenApiDocument(): JsonSchema {
+  const paths = Object.fromEntries((Object.keys(ENDPOINTS) as V1Path[]).map((path) => {
+    const endpoint = ENDPOINTS[path];
+    const envelope: JsonSchema = {
+      type: 'object',
+      required: ['data', 'meta', ...(endpoint.paged ? ['pagination'] : [])],
+      properties: {
+        data: endpoint.data,
+        meta: ref('Meta'),
+        ...(endpoint.paged && { pagination: ref('Pagination') }),
+      },
+    };
+    return [path, {
+      get: {
+        tags: [endpoint.tag],
+        summary: endpoint.summary,
+        description: endpoint.description,
+        operationId: `get${path.split('/').map((part) => part.charAt(0).toUpperCase() + part.slice(1)).join('')}`,
+        parameters: Object.keys(V1_QUERIES[path]).map((name) => ({ $ref: `#/components/parameters/${name}` })),
+        responses: {
+          200: { description: 'Success', headers: RATE_LIMIT_HEADERS, content: { 'application/json': { schema: envelope } } },
+          304: { description: 'Not modified since the ETag sent in If-None-Match' },
+          400: errorResponse('Invalid query parameters'),
+          401: errorResponse('Unknown or revoked API key, or none where keys are required'),
+          429: errorResponse('Rate limit exceeded; error.retryAfter gives the seconds to wait', {
+            ...RATE_LIMIT_HEADERS,
+            'Retry-After': { description: 'Seconds to wait', schema: { type: 'integer' } },
+          }),
+          500: errorResponse('Server error'),
+        },
+      },
+    }];
+  }));
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Cambodia Food Prices API',
+      version: API_VERSION,
+      description: 'Retail food prices across provinces, districts and markets in Cambodia. '
+        + 'Responses are { data, meta, pagination? } envelopes, errors { error: { status, message, fields? } }. '
+        + 'IDs are stable and the same in every language, except for a district the server has no gazetteer entry for: '
+        + 'its ID (and that of its markets without a WFP market ID) is derived from the localised name and differs between languages. '
+        + 'Requests are rate limited per client IP, or per key when sent with an API key.',
+    },
+    servers: [{ url: `/api/${API_VERSION}` }],
+    // A key is optional unless the server requires one; it raises the rate limit
+    security: [{}, { bearerKey: [] }, { headerKey: [] }],
+    tags: [
+      { name: 'Catalogue', description: 'Places, categories and items, and their IDs' },
+      { name: 'Prices', description: 'Price records and summaries' },
+    ],
+    paths,
+    components: {
+      parameters: Object.fromEntries(Object.entries(PARAMETERS).map(([name, doc]) => [name, {
+        name,
+        in: 'query',
+        required: false,
+        ...doc,
+      }])),
+      schemas: SCHEMAS,
+      securitySchemes: {
+        bearerKey: { type: 'http', scheme: 'bearer', description: 'API key as "Authorization: Bearer <key>"' },
+        headerKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+    },
+  };
+}
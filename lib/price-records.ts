@@ -0,0 +1,84 @@
+import { normaliseDate } from './dates';
+import { provincePcodeFor } from './identifiers';
+
+/**
+ * Validation and normalisation of WFP/HDX food price CSV rows into the shape
+ * every data store keeps (trimmed text, numeric prices, ISO dates)
+ */
+
+/** Columns a row must have a value for */
+const REQUIRED_COLUMNS = ['date', 'admin1', 'market', 'commodity', 'unit', 'price'] as const;
+
+/** Columns copied as trimmed text when present */
+const TEXT_COLUMNS = ['admin1', 'admin2', 'market', 'category', 'commodity', 'unit', 'pricetype', 'currency', 'priceflag'] as const;
+
+/** Columns copied as numbers when present */
+const NUMERIC_COLUMNS = ['market_id', 'commodity_id', 'latitude', 'longitude', 'usdprice'] as const;
+
+/** Fields identifying one observation: a price of an item in a market on a day */
+export const NATURAL_KEY = ['date', 'admin1', 'admin2', 'market', 'commodity', 'unit', 'pricetype', 'currency'] as const;
+
+/**
+ * A record's natural key as one string
+ * Records changed in the admin console keep the key of their source row in
+ * `source_key`, so ingestion still finds them once a key field was corrected
+ */
+export function sourceKeyOf(record: Record<string, string | number | null | undefined>): string {
+  return JSON.stringify(NATURAL_KEY.map((k) => record[k] ?? null));
+}
+
+/**
+ * Mongo match on records that haven't been deleted in the admin console
+ * Deletion only sets `deleted_at` (see lib/admin.ts), so queries leave such records out
+ */
+export const LIVE_RECORDS = { deleted_at: null };
+
+export type PriceRecord = {
+  date: string;
+  admin1: string;
+  admin2: string | null;
+  admin1_pcode?: string;
+  market: string;
+  category: string | null;
+  commodity: string;
+  unit: string;
+  pricetype: string | null;
+  currency: string | null;
+  price: number;
+  [column: string]: string | number | null | undefined;
+};
+
+// Helper to turn "", "NA" and similar placeholders into null
+function cleanText(value: string | undefined): string | null {
+  const text = value?.trim();
+  return text && !/^(na|n\/a|null|-)$/i.test(text) ? text : null;
+}
+
+/**
+ * Validate and normalise one CSV row
+ * Returns the record to store, or the reason the row was skipped
+ */
+export function normaliseRow(row: Record<string, string>): { record: PriceRecord } | { reason: string } {
+  // HDX files carry a second header row of HXL hashtags (#date, #adm1+name, …)
+  if (row.date?.trim().startsWith('#')) return { reason: 'hxl tag row' };
+
+  for (const column of REQUIRED_COLUMNS) {
+    if (!cleanText(row[column])) return { reason: `missing ${column}` };
+  }
+  const date = normaliseDate(row.date.trim());
+  if (!date) return { reason: 'invalid date' };
+  const price = Number(row.price.trim().replace(/,/g, ''));
+  if (!Number.isFinite(price) || price < 0) return { reason: 'invalid price' };
+
+  const record: Record<string, string | number | null> = { date, price };
+  TEXT_COLUMNS.forEach((column) => {
+    record[column] = cleanText(row[column]);
+  });
+  NUMERIC_COLUMNS.forEach((column) => {
+    const text = cleanText(row[column]);
+    if (text !== null && Number.isFinite(Number(text))) record[column] = Number(text);
+  });
+  const pcode = provincePcodeFor(record.admin1 as string);
+  if (pcode) record.admin1_pcode = pcode;
+  return { record: record as PriceRecord };
+}
@@ -0,0 +1,106 @@
+/**
+ * Grouping behind the "Latest price prints" table
+ * Shared by the dashboard and /api/export so an export matches what is on screen
+ */
+
+export type TableGroupingMode = 'no-filters' | 'food-only' | 'province-selected';
+
+/** Minimal row shape the grouping needs; extra fields are passed through */
+type GroupableRow = { item: string; province: string; price: number };
+
+/**
+ * Determine grouping strategy based on filters
+ * Case 1: No province, no item filter - group by item only, show highest price per item
+ * Case 2: No province, has item filter - group by item + province, show all provinces sorted by price
+ * Case 3: Has province (with or without district) - group by item only, show highest price per item in that province
+ */
+export function getGroupingMode(filters: { provinceId?: string; itemId?: string }): TableGroupingMode {
+  if (!filters.provinceId && !filters.itemId) {
+    return 'no-filters';
+  } else if (!filters.provinceId && filters.itemId) {
+    return 'food-only';
+  }
+  // Province is selected (with or without district filter)
+  return 'province-selected';
+}
+
+/**
+ * Deduplicate prices with different grouping strategies:
+ * - No filters: Group by item, show all 19 food items with highest price among 25 provinces
+ * - Only food filter: Group by item + province, show all 25 provinces ordered by highest price
+ * - Province filter (with or without district): Group by item only
+ */
+export function groupLatestPrices<T extends GroupableRow>(prices: T[], filters: { provinceId?: string; itemId?: string }): T[] {
+  const groupingMode = getGroupingMode(filters);
+  const itemGroups = new Map<string, T[]>();
+
+  prices.forEach((row) => {
+    // Skip rows with missing item name
+    if (!row.item) return;
+
+    let groupKey: string;
+    if (groupingMode === 'food-only') {
+      // Group by item + province - show all provinces for the selected food
+      groupKey = `${row.item}|||${row.province}`;
+    } else {
+      // Group by item only - show one entry per food item with highest price
+      groupKey = row.item;
+    }
+    const existing = itemGroups.get(groupKey) || [];
+    existing.push(row);
+    itemGroups.set(groupKey, existing);
+  });
+
+  // For each group, get the appropriate price based on grouping mode
+  const result: T[] = [];
+
+  // Zero and unparseable prices never reach here: /api/prices drops them, and
+  // records flagged by data validation are excluded unless explicitly requested
+  itemGroups.forEach((rows) => {
+    // For all modes: show the market with the highest price in the group.
+    // Its trend was computed server-side against that market's previous observation.
+    const sortedByPrice = [...rows].sort((a, b) => b.price - a.price);
+    result.push(sortedByPrice[0]);
+  });
+
+  // Sort based on grouping mode
+  if (groupingMode === 'food-only') {
+    // When filtering by food only, sort by price descending (highest first)
+    return result.sort((a, b) => b.price - a.price);
+  }
+  // Otherwise sort by item name, then by province/district
+  return result.sort((a, b) => {
+    const itemCompare = a.item.localeCompare(b.item);
+    if (itemCompare !== 0) return itemCompare;
+    return a.province.localeCompare(b.province);
+  });
+}
+
+export const PRICE_SORT_KEYS = ['item', 'location', 'market', 'price', 'date'] as const;
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+
+export type PriceSortKey = typeof PRICE_SORT_KEYS[number];
+export type SortOrder = typeof SORT_ORDERS[number];
+
+/** Minimal row shape the sorting needs */
+type SortableRow = GroupableRow & { district: string; market: string; date: string };
+
+/**
+ * Sort table rows by a column; without a sort key the grouping order is kept
+ * Ties fall back to item then province so pages are stable
+ */
+export function sortPriceRows<T extends SortableRow>(rows: T[], sort: PriceSortKey | undefined, order: SortOrder = 'asc'): T[] {
+  if (!sort) return rows;
+  const text = (a = '', b = '') => a.localeCompare(b);
+  const compare: Record<PriceSortKey, (a: T, b: T) => number> = {
+    item: (a, b) => text(a.item, b.item),
+    location: (a, b) => text(a.province, b.province) || text(a.district, b.district),
+    market: (a, b) => text(a.market, b.market),
+    price: (a, b) => a.price - b.price,
+    date: (a, b) => text(a.date, b.date),
+  };
+  const direction = order === 'desc' ? -1 : 1;
+  return [...rows].sort((a, b) =>
+    direction * compare[sort](a, b) || text(a.item, b.item) || text(a.province, b.province)
+  );
+}
@@ -0,0 +1,117 @@
+import { normaliseDate } from './dates';
+
+/**
+ * Data quality validation for price records
+ *
+ * Each record gets a `quality` subdocument: { flagged, reasons, checkedAt }.
+ * Besides per-record checks, prices more than N median absolute deviations
+ * from the median of the same commodity/unit/currency in the same month are
+ * flagged as outliers.
+ */
+
+export const QUALITY_REASONS = ['missing-location', 'invalid-date', 'non-numeric-price', 'zero-price', 'outlier'] as const;
+
+export type QualityReason = typeof QUALITY_REASONS[number];
+
+export type QualityFlag = {
+  flagged: boolean;
+  reasons: QualityReason[];
+  checkedAt: string;
+};
+
+/** How queries treat flagged records: keep them, drop them, or return only them */
+export const QUALITY_FILTERS = ['include', 'exclude', 'only'] as const;
+
+export type QualityFilter = typeof QUALITY_FILTERS[number];
+
+export type ValidationSummary = {
+  checked: number;
+  flagged: number;
+  reasons: Partial<Record<QualityReason, number>>;
+};
+
+/** Default distance from the median, in MADs, beyond which a price is an outlier */
+export const DEFAULT_MAD_THRESHOLD = 5;
+
+/** Groups smaller than this are too thin to call anything an outlier */
+const MIN_GROUP_SIZE = 5;
+
+/** Mongo match fragment for a quality filter; records never validated count as clean */
+export function qualityMatch(filter: QualityFilter | undefined): Record<string, unknown> {
+  if (filter === 'exclude') return { 'quality.flagged': { $ne: true } };
+  if (filter === 'only') return { 'quality.flagged': true };
+  return {};
+}
+
+/** Whether a record's flag passes a quality filter, for stores filtering in code */
+export function passesQuality(quality: Pick<QualityFlag, 'flagged'> | null | undefined, filter: QualityFilter | undefined): boolean {
+  if (filter === 'exclude') return quality?.flagged !== true;
+  if (filter === 'only') return quality?.flagged === true;
+  return true;
+}
+
+// Helper to parse a stored price the way the dashboard reads it
+function parsePrice(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export type CheckedRecord = {
+  _id: unknown;
+  admin1?: unknown;
+  market?: unknown;
+  commodity?: unknown;
+  unit?: unknown;
+  currency?: unknown;
+  date?: unknown;
+  price?: unknown;
+};
+
+/**
+ * Work out the quality reasons for a batch of records
+ * Outliers are judged within the batch, so pass every record of a collection
+ */
+export function assessRecords(records: CheckedRecord[], threshold = DEFAULT_MAD_THRESHOLD): QualityReason[][] {
+  const groups = new Map<string, { index: number; price: number }[]>();
+
+  const reasons = records.map((r, index) => {
+    const found: QualityReason[] = [];
+    if (!r.admin1 || !r.market) found.push('missing-location');
+    const date = r.date instanceof Date ? r.date.toISOString().slice(0, 10) : normaliseDate(String(r.date ?? ''));
+    if (!date) found.push('invalid-date');
+    const price = parsePrice(r.price);
+    if (price === null) found.push('non-numeric-price');
+    else if (price <= 0) found.push('zero-price');
+
+    if (date && price !== null && price > 0) {
+      const key = [r.commodity, r.unit, r.currency, date.slice(0, 7)].join('|');
+      const group = groups.get(key) ?? [];
+      group.push({ index, price });
+      groups.set(key, group);
+    }
+    return found;
+  });
+
+  groups.forEach((group) => {
+    if (group.length < MIN_GROUP_SIZE) return;
+    const center = median(group.map((g) => g.price));
+    const mad = median(group.map((g) => Math.abs(g.price - center)));
+    // With MAD = 0 most prices are identical and any difference would be "infinite"
+    if (mad === 0) return;
+    group.forEach((g) => {
+      if (Math.abs(g.price - center) > threshold * mad) reasons[g.index].push('outlier');
+    });
+  });
+
+  return reasons;
+}
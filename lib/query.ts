@@ -0,0 +1,233 @@
+import { NextResponse } from 'next/server';
+import { defaultLocale, locales } from '../i18n';
+import { CURRENCIES, DEFAULT_CURRENCY } from './currency';
+import { LOCATION_LEVELS, LocationRef } from './compare';
+import { DATE_RANGES, normaliseDate, resolveDateRange } from './dates';
+import type { ScopeParams } from './db';
+import { QUALITY_FILTERS } from './quality';
+
+/**
+ * Typed parsing of /api/* query parameters
+ *
+ * A route declares a schema of fields; parseQuery returns the typed values or
+ * every invalid field at once, which invalidQuery turns into a 400 response.
+ * Empty parameters (`?province=`) count as absent.
+ */
+
+/** Parser of one parameter; `raw` is null when the parameter is absent or empty */
+export type QueryField<T> = (raw: string | null) => { value: T } | { error: string };
+
+export type QuerySchema = Record<string, QueryField<unknown>>;
+
+/** Parsed values of a schema, keyed by parameter name */
+export type QueryValues<S extends QuerySchema> = { [K in keyof S]: S[K] extends QueryField<infer T> ? T : never };
+
+export type InvalidField = { field: string; message: string };
+
+/** Pcodes (KH02), slugs (phnom-penh) and district IDs (KH12-chamkar-mon), in any script */
+const ID_PATTERN = /^[\p{L}\p{M}\p{N}]+(?:[-_.][\p{L}\p{M}\p{N}]+)*$/u;
+
+const MAX_TEXT_LENGTH = 200;
+
+/** Items or categories one list parameter names at most */
+const MAX_LIST_LENGTH = 50;
+
+/** Builders for the field kinds the routes use */
+export const field = {
+  /** Optional province or district ID */
+  id(): QueryField<string | undefined> {
+    return (raw) => {
+      if (raw === null) return { value: undefined };
+      return raw.length <= MAX_TEXT_LENGTH && ID_PATTERN.test(raw) ? { value: raw } : { error: 'must be an ID like KH02 or phnom-penh' };
+    };
+  },
+
+  /** Optional item ID; exact commodity names are accepted too, so anything printable goes */
+  item(): QueryField<string | undefined> {
+    return (raw) => {
+      if (raw === null) return { value: undefined };
+      return raw.length <= MAX_TEXT_LENGTH && !/[\u0000-\u001f\u007f]/.test(raw) ? { value: raw } : { error: 'must be an item ID' };
+    };
+  },
+
+  /** One of a fixed list of values, matched case-insensitively, with a default */
+  oneOf<V extends string>(values: readonly V[], fallback: V): QueryField<V> {
+    return (raw) => {
+      if (raw === null) return { value: fallback };
+      const value = values.find((v) => v.toLowerCase() === raw.toLowerCase());
+      return value ? { value } : { error: `must be one of ${values.join(', ')}` };
+    };
+  },
+
+  /** One of a fixed list of values, or undefined when absent */
+  optionalOneOf<V extends string>(values: readonly V[]): QueryField<V | undefined> {
+    return (raw) => (raw === null ? { value: undefined } : field.oneOf(values, values[0])(raw));
+  },
+
+  /** Whole number within [min, max], with a default */
+  integer(options: { min: number; max: number; fallback: number }): QueryField<number> {
+    return (raw) => {
+      if (raw === null) return { value: options.fallback };
+      const value = Number(raw);
+      return Number.isInteger(value) && value >= options.min && value <= options.max
+        ? { value }
+        : { error: `must be a whole number from ${options.min} to ${options.max}` };
+    };
+  },
+
+  /** Comma-separated values each read by `parse`, duplicates dropped, with between min and max entries */
+  list<T>(parse: QueryField<T | undefined>, options: { min: number; max: number }): QueryField<T[]> {
+    return (raw) => {
+      const entries = [...new Set((raw ?? '').split(',').map((entry) => entry.trim()).filter(Boolean))];
+      if (entries.length < options.min || entries.length > options.max) {
+        return { error: `must list ${options.min} to ${options.max} comma-separated values` };
+      }
+      const values: T[] = [];
+      for (const entry of entries) {
+        const result = parse(entry);
+        if ('error' in result) return { error: `"${entry}" ${result.error}` };
+        values.push(result.value as T);
+      }
+      return { value: values };
+    };
+  },
+
+  /** Optional location reference like province:KH12, district:KH12-daun-penh or market:1701 */
+  location(): QueryField<LocationRef | undefined> {
+    return (raw) => {
+      if (raw === null) return { value: undefined };
+      const separator = raw.indexOf(':');
+      // Without a separator, slice(0, -1) would read "provinces" as a province
+      const level = separator > 0 ? LOCATION_LEVELS.find((l) => l === raw.slice(0, separator).toLowerCase()) : undefined;
+      const id = raw.slice(separator + 1);
+      return level && id.length <= MAX_TEXT_LENGTH && ID_PATTERN.test(id)
+        ? { value: { level, id } }
+        : { error: 'must be province:<ID>, district:<ID> or market:<ID>' };
+    };
+  },
+
+  /**
+   * Optional day (YYYY-MM-DD) or month (YYYY-MM), read as a YYYY-MM-DD day; a
+   * month is its first day at the start of a period and its last day at the end
+   */
+  date(edge: 'start' | 'end'): QueryField<string | undefined> {
+    return (raw) => {
+      if (raw === null) return { value: undefined };
+      const month = raw.match(/^(\d{4})-(\d{2})$/);
+      const day = month
+        ? normaliseDate(`${raw}-${edge === 'start' ? 1 : new Date(Date.UTC(Number(month[1]), Number(month[2]), 0)).getUTCDate()}`)
+        : /^\d{4}-\d{2}-\d{2}$/.test(raw) ? normaliseDate(raw) : null;
+      return day ? { value: day } : { error: 'must be a date (YYYY-MM-DD) or month (YYYY-MM)' };
+    };
+  },
+
+  /** Makes an optional field mandatory */
+  required<T>(parse: QueryField<T | undefined>): QueryField<T> {
+    // The optional parsers only yield undefined for an absent parameter
+    return (raw) => (raw === null ? { error: 'is required' } : (parse(raw) as { value: T } | { error: string }));
+  },
+};
+
+/** Period parameters: a from/to range, either end open, or a preset ending today */
+export const DATE_RANGE_QUERY = {
+  from: field.date('start'),
+  to: field.date('end'),
+  range: field.optionalOneOf(DATE_RANGES),
+};
+
+/** Parameters every price route understands */
+export const SCOPE_QUERY = {
+  province: field.id(),
+  district: field.id(),
+  item: field.item(),
+  quality: field.oneOf(QUALITY_FILTERS, 'include'),
+  currency: field.oneOf(CURRENCIES, DEFAULT_CURRENCY),
+  locale: field.oneOf(locales, defaultLocale),
+  ...DATE_RANGE_QUERY,
+};
+
+/** Several items and categories at once; routes that chart a single item leave these out */
+export const ITEM_LIST_QUERY = {
+  items: field.list(field.item(), { min: 0, max: MAX_LIST_LENGTH }),
+  categories: field.list(field.id(), { min: 0, max: MAX_LIST_LENGTH }),
+};
+
+/** Run a query-string field parser on a value of a JSON request body */
+export function parseValue<T>(parse: QueryField<T>, value: unknown): { value: T } | { error: string } {
+  if (value === undefined || value === null || value === '') return parse(null);
+  return typeof value === 'string' ? parse(value.trim() || null) : { error: 'must be a string' };
+}
+
+/** Read a positive number from a JSON request body */
+export function positiveNumber(value: unknown): { value: number } | { error: string } {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? { value } : { error: 'must be a positive number' };
+}
+
+// Helper to check the period parameters against each other once each is valid
+function dateRangeErrors(values: Record<string, unknown>): InvalidField[] {
+  if (values.range && (values.from || values.to)) return [{ field: 'range', message: "can't be combined with from or to" }];
+  if (typeof values.from === 'string' && typeof values.to === 'string' && values.from > values.to) {
+    return [{ field: 'to', message: 'must not be before from' }];
+  }
+  return [];
+}
+
+/**
+ * Parse query parameters against a schema
+ * Returns the typed values, or every invalid field
+ */
+export function parseQuery<S extends QuerySchema>(searchParams: URLSearchParams, schema: S): { values: QueryValues<S> } | { errors: InvalidField[] } {
+  const values: Record<string, unknown> = {};
+  const errors: InvalidField[] = [];
+  Object.entries(schema).forEach(([name, parse]) => {
+    const result = parse(searchParams.get(name)?.trim() || null);
+    if ('error' in result) {
+      errors.push({ field: name, message: result.error });
+    } else {
+      values[name] = result.value;
+    }
+  });
+  errors.push(...dateRangeErrors(values));
+  return errors.length ? { errors } : { values: values as QueryValues<S> };
+}
+
+/** First and last day of the period from parsed DATE_RANGE_QUERY values, a preset resolved against today */
+export function toDateRange(values: Partial<QueryValues<typeof DATE_RANGE_QUERY>>): Pick<ScopeParams, 'from' | 'to'> {
+  return values.range ? resolveDateRange(values.range) : { from: values.from, to: values.to };
+}
+
+/** Scope parameters of the repository functions from parsed SCOPE_QUERY (and ITEM_LIST_QUERY) values */
+export function toScope(values: Partial<QueryValues<typeof SCOPE_QUERY & typeof ITEM_LIST_QUERY>>): ScopeParams {
+  return {
+    ...toDateRange(values),
+    itemIds: values.items?.length ? values.items : undefined,
+    categoryIds: values.categories?.length ? values.categories : undefined,
+    provinceId: values.province,
+    districtId: values.district,
+    itemId: values.item,
+    quality: values.quality,
+    currency: values.currency,
+    locale: values.locale,
+  };
+}
+
+/** 400 response listing the invalid parameters */
+export function invalidQuery(errors: InvalidField[]): NextResponse {
+  return NextResponse.json({ error: 'Invalid query parameters', fields: errors }, { status: 400 });
+}
+
+/** 400 response listing the invalid fields of a JSON request body */
+export function invalidBody(errors: InvalidField[]): NextResponse {
+  return NextResponse.json({ error: 'Invalid request body', fields: errors }, { status: 400 });
+}
+
+/**
+ * 500 response for an unexpected error
+ * The error is logged; its message is only returned outside production, as
+ * database errors can reveal hosts, collection names and query details
+ */
+export function serverError(message: string, error: unknown): NextResponse {
+  console.error(`${message}:`, error);
+  const details = process.env.NODE_ENV === 'production' ? undefined : error instanceof Error ? error.message : error;
+  return NextResponse.json({ error: message, details }, { status: 500 });
+}
@@ -0,0 +1,80 @@
+/**
+ * Fixed-window request counting for the API rate limits
+ *
+ * Each bucket (an API key, a client IP, an admin name) may make `limit` requests per
+ * window of RATE_LIMIT_WINDOW_SECONDS. Counts are held in process memory: a
+ * deployment running several instances allows each of them the full limit.
+ * Results map to the IETF RateLimit header fields
+ * (draft-ietf-httpapi-ratelimit-headers).
+ */
+
+export const RATE_LIMIT_WINDOW_SECONDS = 60;
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  /** Requests left in the current window */
+  remaining: number;
+  /** Seconds until the window resets */
+  reset: number;
+};
+
+const windows = new Map<string, { count: number; resetAt: number }>();
+
+let nextSweep = 0;
+
+// Helper to drop expired windows now and then, so buckets of past clients don't pile up
+function sweep(now: number) {
+  if (now < nextSweep) return;
+  windows.forEach((window, bucket) => {
+    if (window.resetAt <= now) windows.delete(bucket);
+  });
+  nextSweep = now + RATE_LIMIT_WINDOW_SECONDS * 1000;
+}
+
+/**
+ * Count a request against a bucket
+ * A refused request isn't counted, so clients retrying too early don't push the reset back
+ */
+export function consume(bucket: string, limit: number, now: number = Date.now()): RateLimitResult {
+  sweep(now);
+  let window = windows.get(bucket);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + RATE_LIMIT_WINDOW_SECONDS * 1000 };
+    windows.set(bucket, window);
+  }
+  const allowed = window.count < limit;
+  if (allowed) window.count++;
+  return {
+    allowed,
+    limit,
+    remaining: limit - window.count,
+    reset: Math.ceil((window.resetAt - now) / 1000),
+  };
+}
+
+/**
+ * The state of a bucket without counting a request, for limits that only
+ * count some outcomes, like failed sign-ins
+ */
+export function peek(bucket: string, limit: number, now: number = Date.now()): RateLimitResult {
+  const window = windows.get(bucket);
+  const current = window && window.resetAt > now ? window : { count: 0, resetAt: now + RATE_LIMIT_WINDOW_SECONDS * 1000 };
+  return {
+    allowed: current.count < limit,
+    limit,
+    remaining: Math.max(0, limit - current.count),
+    reset: Math.ceil((current.resetAt - now) / 1000),
+  };
+}
+
+/** RateLimit-* headers of a result, with Retry-After once the limit is reached */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'RateLimit-Policy': `${result.limit};w=${RATE_LIMIT_WINDOW_SECONDS}`,
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.reset),
+    ...(!result.allowed && { 'Retry-After': String(result.reset) }),
+  };
+}
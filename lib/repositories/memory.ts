@@ -0,0 +1,113 @@
+import type { AuditEntry, RecordFields } from '../admin';
+import type { ApiKey } from '../api-keys';
+import { getCollection } from '../db';
+import { passesQuality } from '../quality';
+import { createRecordRepository, RecordFilter } from './records';
+import type { WatchRule } from '../watchlists';
+import type { PriceDocument } from './rows';
+import { loadSampleRecords } from './sample';
+
+/**
+ * In-memory repository over fixture records, by default the bundled sample dataset
+ * Nothing is written anywhere, so it suits demos and tests of the API routes
+ */
+
+// Helper to store fields written by the admin console as a record
+function withId(fields: RecordFields, id: string): PriceDocument {
+  return { ...fields, _id: id } as unknown as PriceDocument;
+}
+
+/**
+ * Create a repository over fixture records keyed by collection name
+ * (food_prices_en / food_prices_kh); locales without fixtures load the sample
+ */
+export function createMemoryRepository(fixtures: Record<string, Omit<PriceDocument, '_id'>[]> = {}) {
+  const collections = new Map<string, PriceDocument[]>();
+  const rules = new Map<string, WatchRule>();
+  const apiKeys = new Map<string, ApiKey>();
+  const auditEntries: AuditEntry[] = [];
+
+  // Helper to get a locale's records, giving each a stable ID
+  function recordsOf(locale?: string): PriceDocument[] {
+    const name = getCollection(locale);
+    if (!collections.has(name)) {
+      const records = fixtures[name]
+        ?? loadSampleRecords(locale).map(({ record, quality }) => ({ ...record, quality }) as Omit<PriceDocument, '_id'>);
+      collections.set(name, records.map((r, index) => ({ ...r, _id: String(index + 1) })));
+    }
+    return collections.get(name)!;
+  }
+
+  return createRecordRepository({
+    async find(locale: string | undefined, filter: RecordFilter) {
+      return recordsOf(locale).filter((r) =>
+        !r.deleted_at &&
+        (filter.admin1 === undefined || r.admin1 === filter.admin1) &&
+        (filter.admin2 === undefined || r.admin2 === filter.admin2) &&
+        (filter.market === undefined || r.market === filter.market) &&
+        (filter.commodity === undefined || r.commodity === filter.commodity) &&
+        passesQuality(r.quality, filter.quality)
+      );
+    },
+    watchRules: {
+      async list() {
+        return [...rules.values()];
+      },
+      async get(id) {
+        return rules.get(id) ?? null;
+      },
+      async save(rule) {
+        rules.set(rule.id, rule);
+      },
+      async remove(id) {
+        return rules.delete(id);
+      },
+    },
+    apiKeys: {
+      async list() {
+        return [...apiKeys.values()];
+      },
+      async get(id) {
+        return apiKeys.get(id) ?? null;
+      },
+      async findByHash(hash) {
+        return [...apiKeys.values()].find((k) => k.hash === hash) ?? null;
+      },
+      async save(key) {
+        apiKeys.set(key.id, key);
+      },
+    },
+    priceRecords: {
+      async get(locale, id) {
+        return recordsOf(locale).find((r) => r._id === id) ?? null;
+      },
+      async insert(locale, fields) {
+        const records = recordsOf(locale);
+        const id = String(Math.max(0, ...records.map((r) => Number(r._id))) + 1);
+        records.push(withId(fields, id));
+        return id;
+      },
+      async update(locale, id, fields) {
+        const records = recordsOf(locale);
+        const index = records.findIndex((r) => r._id === id);
+        if (index < 0) return false;
+        records[index] = withId(fields, id);
+        return true;
+      },
+    },
+    auditLog: {
+      async append(entry) {
+        auditEntries.push(entry);
+      },
+      async list({ locale, recordId, limit, offset }) {
+        const matching = auditEntries
+          .filter((e) => (locale === undefined || e.locale === locale) && (recordId === undefined || e.recordId === recordId))
+          .reverse();
+        return { entries: matching.slice(offset, offset + limit), total: matching.length };
+      },
+    },
+    async close() {
+      collections.clear();
+    },
+  });
+}
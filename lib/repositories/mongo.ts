@@ -0,0 +1,567 @@
+import { Collection, Document, Filter, ObjectId } from 'mongodb';
+import { buildCategories, buildScopeMatch, getItemCatalogue, getLocations, invalidateCatalogue } from '../catalogue';
+import { conversionFactorExpression, Currency, DEFAULT_CURRENCY } from '../currency';
+import {
+  DistrictAverage, FilterItem, Filters, getCollection, HistoryInterval, LatestPriceRow, MarketQuality, Overview,
+  MarketMonthPrice, PriceHistoryPoint, PriceRepository, PriceRow, ProvinceItemMonth, ScopeParams,
+} from '../db';
+import { closeDb, getDb } from '../mongo';
+import { districtIdFor, itemIdFor, provinceIdFor } from '../identifiers';
+import { QualityReason } from '../quality';
+import { unitFactorExpression } from '../units';
+import type { AuditEntry, AuditLogStore, PriceRecordStore } from '../admin';
+import type { ApiKey, ApiKeyStore } from '../api-keys';
+import type { WatchRule, WatchRuleStore } from '../watchlists';
+import { Observation, PriceDocument, SeriesKey, toLatestPriceRow, toPriceRow } from './rows';
+
+/**
+ * Price queries against the MongoDB collections (one per locale)
+ */
+
+// Helper for a record's price in the requested currency, converted at the rate of its date
+// Null when the price isn't numeric or its currency has no exchange rate
+function convertedPrice(currency: Currency = DEFAULT_CURRENCY) {
+  return {
+    $multiply: [
+      { $convert: { input: "$price", to: "double", onError: null, onNull: null } },
+      conversionFactorExpression(currency),
+    ]
+  };
+}
+
+// Helper for a record's converted price per kg, litre or piece
+// Null when its unit can't be normalised, so averages only mix comparable prices
+async function normalisedPrice(collection: Collection, match: Record<string, unknown>, currency?: Currency) {
+  const units: string[] = await collection.distinct('unit', match);
+  return { $multiply: [convertedPrice(currency), unitFactorExpression(units)] };
+}
+
+async function getFilters(locale: string = 'en'): Promise<Filters> {
+  const db = await getDb();
+  const collection = db.collection(getCollection(locale));
+  const [provinces, items] = await Promise.all([
+    getLocations(collection),
+    getItemCatalogue(collection, {}),
+  ]);
+  return { provinces, items, categories: buildCategories(items) };
+}
+
+/**
+ * Get food items filtered by province and/or district, categories or items
+ * Returns only items that have price records in the specified location
+ */
+async function getItemsByLocation(params: Pick<ScopeParams, 'provinceId' | 'districtId' | 'itemIds' | 'categoryIds' | 'locale'>): Promise<FilterItem[]> {
+  const db = await getDb();
+  const collection = db.collection(getCollection(params.locale));
+  const match = await buildScopeMatch(collection, params);
+  return getItemCatalogue(collection, match);
+}
+
+async function getPriceRows(params: ScopeParams & { limit?: number; offset?: number }): Promise<PriceRow[]> {
+  const db = await getDb();
+  const collection = db.collection(getCollection(params.locale));
+
+  // Base query: always filter out null commodities
+  const query: Record<string, unknown> = { commodity: { $ne: null }, ...await buildScopeMatch(collection, params) };
+  const limit = params.limit ?? 200;
+  const rows = await collection.find<PriceDocument>(query).sort({ date: -1, _id: -1 }).skip(params.offset ?? 0).limit(limit).toArray();
+  return rows.map((r) => toPriceRow(r, params.currency));
+}
+
+async function countPriceRows(params: ScopeParams): Promise<number> {
+  const db = await getDb();
+  const collection = db.collection(getCollection(params.locale));
+  return collection.countDocuments({ commodity: { $ne: null }, ...await buildScopeMatch(collection, params) });
+}
+
+/**
+ * Iterate over every matching price record, newest first, without a limit
+ * Uses a cursor so large exports don't have to fit in memory
+ */
+async function* streamPriceRows(params: ScopeParams): AsyncGenerator<PriceRow> {
+  const db = await getDb();
+  const collection = db.collection(getCollection(params.locale));
+  const query: Record<string, unknown> = { commodity: { $ne: null }, ...await buildScopeMatch(collection, params) };
+  const cursor = collection.find<PriceDocument>(query).sort({ date: -1, _id: -1 });
+  try {
+    for await (const r of cursor) {
+      yield toPriceRow(r, params.currency);
+    }
+  } finally {
+    await cursor.close();
+  }
+}
+
+/**
+ * Get the latest price of every item in every market, with the change since
+ * that market's previous observation of the same item
+ * Rows are sorted newest first, like getPriceRows; a null limit returns every row
+ */
+async function getLatestPrices(params: ScopeParams & { limit?: number | null }): Promise<LatestPriceRow[]> {
+  const db = await getDb();
+  const collection = db.collection(getCollection(params.locale));
+  const match: Record<string, unknown> = { commodity: { $ne: null }, ...await buildScopeMatch(collection, params) };
+  const limit = params.limit === undefined ? 200 : params.limit;
+  const series = { market: "$market", admin1: "$admin1", admin2: "$admin2", commodity: "$commodity", unit: "$unit" };
+  const result = await collection.aggregate<{ _id: SeriesKey; observations: Observation[] }>([
+    { $match: match },
+    { $addFields: { priceNum: convertedPrice(params.currency) } },
+    { $match: { priceNum: { $gt: 0 } } },
+    // Collapse same-day duplicates first so "previous" is always an earlier date
+    {
+      $group: {
+        _id: { ...series, date: "$date" },
+        id: { $first: "$_id" },
+        category: { $first: "$category" },
+        admin1_pcode: { $first: "$admin1_pcode" },
+        admin2_pcode: { $first: "$admin2_pcode" },
+        market_id: { $first: "$market_id" },
+        commodity_id: { $first: "$commodity_id" },
+        quality: { $first: "$quality" },
+        price: { $avg: "$priceNum" },
+      }
+    },
+    {
+      $group: {
+        _id: { market: "$_id.market", admin1: "$_id.admin1", admin2: "$_id.admin2", commodity: "$_id.commodity", unit: "$_id.unit" },
+        observations: {
+          $topN: {
+            n: 2,
+            sortBy: { "_id.date": -1 },
+            output: {
+              id: "$id", date: "$_id.date", price: "$price", category: "$category",
+              admin1_pcode: "$admin1_pcode", admin2_pcode: "$admin2_pcode", market_id: "$market_id", commodity_id: "$commodity_id",
+              quality: "$quality",
+            },
+          }
+        },
+      }
+    },
+    { $sort: { "observations.0.date": -1, "observations.0.id": -1 } },
+    ...(limit === null ? [] : [{ $limit: limit }])
+  ]).toArray();
+
+  return result.map((r) =>
+    toLatestPriceRow(r._id, r.observations[0], r.observations[1], params.currency)
+  );
+}
+
+async function getOverview(params?: ScopeParams): Promise<Overview> {
+  const db = await getDb();
+  const collection = db.collection(getCollection(params?.locale));
+  const query = await buildScopeMatch(collection, params ?? {});
+  const lastUpdatedRow = await collection.find(query).sort({ date: -1 }).limit(1).toArray();
+  const lastUpdated = lastUpdatedRow[0]?.date || null;
+  const totalItems = await collection.distinct('commodity', query);
+  const totalMarkets = await collection.distinct('market', query);
+  const price = await normalisedPrice(collection, query, params?.currency);
+  const avg = await collection.aggregate<{ averagePrice: number | null }>([
+    { $match: query },
+    { $group: { _id: null, averagePrice: { $avg: price } } }
+  ]).toArray();
+  return {
+    lastUpdated,
+    totalItems: totalItems.length,
+    totalMarkets: totalMarkets.length,
+    averagePrice: avg[0]?.averagePrice ?? null,
+    currency: params?.currency ?? DEFAULT_CURRENCY,
+  };
+}
+
+async function getAveragesByProvince(params: Pick<ScopeParams, 'itemId' | 'itemIds' | 'categoryIds' | 'quality' | 'currency' | 'locale' | 'from' | 'to'>) {
+  const db = await getDb();
+  const collection = db.collection(getCollection(params.locale));
+  const match = await buildScopeMatch(collection, { itemId: params.itemId, itemIds: params.itemIds, categoryIds: params.categoryIds, quality: params.quality, from: params.from, to: params.to });
+  const price = await normalisedPrice(collection, match, params.currency);
+  const result = await collection.aggregate<{ _id: string; admin1_pcode?: string; averagePrice: number }>([
+    { $match: match },
+    { $group: { _id: "$admin1", admin1_pcode: { $first: "$admin1_pcode" }, averagePrice: { $avg: price } } },
+    { $sort: { averagePrice: -1 } }
+  ]).toArray();
+  return result.map((r) => ({
+    provinceId: provinceIdFor(r._id, r.admin1_pcode),
+    province: r._id,
+    averagePrice: r.averagePrice,
+  }));
+}
+
+type DistrictGroup = {
+  _id: { admin1: string; admin2: string };
+  admin1_pcode?: string;
+  admin2_pcode?: string;
+  averagePrice: number;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+/**
+ * Get the mean normalised price per district of a province, highest first
+ * Each district is placed at the mean coordinates of its records
+ */
+async function getAveragesByDistrict(params: Pick<ScopeParams, 'provinceId' | 'itemId' | 'itemIds' | 'categoryIds' | 'quality' | 'currency' | 'locale' | 'from' | 'to'>): Promise<DistrictAverage[]> {
+  const db = await getDb();
+  const collection = db.collection(getCollection(params.locale));
+  const match = await buildScopeMatch(collection, { provinceId: params.provinceId, itemId: params.itemId, itemIds: params.itemIds, categoryIds: params.categoryIds, quality: params.quality, from: params.from, to: params.to });
+  const price = await normalisedPrice(collection, match, params.currency);
+  const coordinate = (field: string) => ({ $avg: { $convert: { input: field, to: "double", onError: null, onNull: null } } });
+  const result = await collection.aggregate<DistrictGroup>([
+    { $match: { ...match, admin2: { $ne: null } } },
+    {
+      $group: {
+        _id: { admin1: "$admin1", admin2: "$admin2" },
+        admin1_pcode: { $first: "$admin1_pcode" },
+        admin2_pcode: { $first: "$admin2_pcode" },
+        averagePrice: { $avg: price },
+        latitude: coordinate("$latitude"),
+        longitude: coordinate("$longitude"),
+      }
+    },
+    { $match: { averagePrice: { $ne: null } } },
+    { $sort: { averagePrice: -1 } }
+  ]).toArray();
+  return result.map((r) => {
+    const provinceId = provinceIdFor(r._id.admin1, r.admin1_pcode);
+    return {
+      districtId: districtIdFor(provinceId, r._id.admin2, r.admin2_pcode),
+      district: r._id.admin2,
+      provinceId,
+      averagePrice: r.averagePrice,
+      latitude: r.latitude ?? null,
+      longitude: r.longitude ?? null,
+    };
+  });
+}
+
+type ProvinceItemMonthGroup = {
+  _id: { admin1: string; commodity: string; period: string };
+  admin1_pcode?: string;
+  commodity_id?: string | number;
+  averagePrice: number;
+};
+
+/**
+ * Get the mean normalised price of items per province and month, oldest first
+ * Items whose IDs aren't in the catalogue are left out
+ */
+async function getMonthlyItemAverages(params: Pick<ScopeParams, 'quality' | 'currency' | 'locale' | 'from' | 'to'> & { itemIds: string[] }): Promise<ProvinceItemMonth[]> {
+  const db = await getDb();
+  const collection = db.collection(getCollection(params.locale));
+  const catalogue = await getItemCatalogue(collection, {});
+  const names = catalogue.filter((i) => params.itemIds.includes(i.id)).map((i) => i.name);
+  const match = { ...await buildScopeMatch(collection, { quality: params.quality, from: params.from, to: params.to }), commodity: { $in: names } };
+  const price = await normalisedPrice(collection, match, params.currency);
+  const result = await collection.aggregate<ProvinceItemMonthGroup>([
+    { $match: match },
+    { $addFields: { dateValue: { $convert: { input: "$date", to: "date", onError: null, onNull: null } } } },
+    { $match: { dateValue: { $ne: null } } },
+    {
+      $group: {
+        _id: { admin1: "$admin1", commodity: "$commodity", period: { $dateToString: { format: "%Y-%m", date: "$dateValue" } } },
+        admin1_pcode: { $first: "$admin1_pcode" },
+        commodity_id: { $first: "$commodity_id" },
+        averagePrice: { $avg: price },
+      }
+    },
+    { $match: { averagePrice: { $ne: null } } },
+    { $sort: { "_id.period": 1 } }
+  ]).toArray();
+  return result.map((r) => ({
+    provinceId: provinceIdFor(r._id.admin1, r.admin1_pcode),
+    province: r._id.admin1,
+    itemId: itemIdFor(r._id.commodity, r.commodity_id),
+    period: r._id.period,
+    averagePrice: r.averagePrice,
+  }));
+}
+
+type MarketMonthGroup = {
+  _id: { admin1: string; market: string; commodity: string; unit: string; period: string };
+  admin1_pcode?: string;
+  commodity_id?: string | number;
+  averagePrice: number;
+};
+
+/**
+ * Get the mean price per market, item, unit and month, oldest first
+ */
+async function getMarketMonthlyPrices(params: ScopeParams): Promise<MarketMonthPrice[]> {
+  const db = await getDb();
+  const collection = db.collection(getCollection(params.locale));
+  const match = { commodity: { $ne: null }, ...await buildScopeMatch(collection, params) };
+  const result = await collection.aggregate<MarketMonthGroup>([
+    { $match: match },
+    {
+      $addFields: {
+        priceNum: convertedPrice(params.currency),
+        dateValue: { $convert: { input: "$date", to: "date", onError: null, onNull: null } },
+      }
+    },
+    { $match: { priceNum: { $gt: 0 }, dateValue: { $ne: null } } },
+    {
+      $group: {
+        _id: {
+          admin1: "$admin1",
+          market: "$market",
+          commodity: "$commodity",
+          unit: "$unit",
+          period: { $dateToString: { format: "%Y-%m", date: "$dateValue" } },
+        },
+        admin1_pcode: { $first: "$admin1_pcode" },
+        commodity_id: { $first: "$commodity_id" },
+        averagePrice: { $avg: "$priceNum" },
+      }
+    },
+    { $sort: { "_id.period": 1 } }
+  ]).toArray();
+  return result.map((r) => ({
+    provinceId: provinceIdFor(r._id.admin1, r.admin1_pcode),
+    province: r._id.admin1,
+    market: r._id.market,
+    itemId: itemIdFor(r._id.commodity, r.commodity_id),
+    item: r._id.commodity,
+    unit: r._id.unit,
+    period: r._id.period,
+    averagePrice: r.averagePrice,
+  }));
+}
+
+/**
+ * Get the price series of a single item aggregated per month or ISO week
+ * Periods are labelled "2023-06" (month) or "2023-W24" (week) and sorted oldest first
+ * Prices are per kg, litre or piece, so sizes sold in don't shift the series
+ */
+async function getPriceHistory(params: ScopeParams & {
+  itemId: string;
+  interval?: HistoryInterval;
+}): Promise<PriceHistoryPoint[]> {
+  const db = await getDb();
+  const collection = db.collection(getCollection(params.locale));
+  const match = await buildScopeMatch(collection, params);
+  const format = params.interval === 'week' ? "%G-W%V" : "%Y-%m";
+  const price = await normalisedPrice(collection, match, params.currency);
+  const result = await collection.aggregate<{ _id: string; averagePrice: number; minPrice: number; maxPrice: number; count: number }>([
+    { $match: match },
+    {
+      $addFields: {
+        priceNum: price,
+        dateValue: { $convert: { input: "$date", to: "date", onError: null, onNull: null } },
+      }
+    },
+    // Unparseable or zero prices would drag the minimum down to 0
+    { $match: { priceNum: { $gt: 0 }, dateValue: { $ne: null } } },
+    {
+      $group: {
+        _id: { $dateToString: { format, date: "$dateValue" } },
+        averagePrice: { $avg: "$priceNum" },
+        minPrice: { $min: "$priceNum" },
+        maxPrice: { $max: "$priceNum" },
+        count: { $sum: 1 },
+      }
+    },
+    { $sort: { _id: 1 } }
+  ]).toArray();
+  return result.map((r) => ({
+    period: r._id,
+    averagePrice: r.averagePrice,
+    minPrice: r.minPrice,
+    maxPrice: r.maxPrice,
+    count: r.count,
+  }));
+}
+
+/**
+ * Summarise data quality per market, worst flagged rate first
+ */
+async function getQualityReport(params: Omit<ScopeParams, 'quality'>): Promise<MarketQuality[]> {
+  const db = await getDb();
+  const collection = db.collection(getCollection(params.locale));
+  const match = await buildScopeMatch(collection, params);
+  const market = { market: "$market", admin1: "$admin1", admin2: "$admin2" };
+  const [totals, reasons] = await Promise.all([
+    collection.aggregate<{ _id: { market: string; admin1: string; admin2: string }; total: number; flagged: number; unchecked: number; lastChecked?: string }>([
+      { $match: match },
+      {
+        $group: {
+          _id: market,
+          total: { $sum: 1 },
+          flagged: { $sum: { $cond: [{ $eq: ["$quality.flagged", true] }, 1, 0] } },
+          unchecked: { $sum: { $cond: [{ $eq: [{ $type: "$quality" }, "missing"] }, 1, 0] } },
+          lastChecked: { $max: "$quality.checkedAt" },
+        }
+      },
+    ]).toArray(),
+    collection.aggregate<{ _id: { market: string; admin1: string; admin2: string; reason: QualityReason }; count: number }>([
+      { $match: { ...match, 'quality.flagged': true } },
+      { $unwind: "$quality.reasons" },
+      { $group: { _id: { ...market, reason: "$quality.reasons" }, count: { $sum: 1 } } },
+    ]).toArray(),
+  ]);
+
+  const keyOf = (id: { market: string; admin1: string; admin2: string }) => [id.market, id.admin1, id.admin2].join('|');
+  const reasonsByMarket = new Map<string, Partial<Record<QualityReason, number>>>();
+  reasons.forEach((r) => {
+    const entry = reasonsByMarket.get(keyOf(r._id)) ?? {};
+    entry[r._id.reason] = r.count;
+    reasonsByMarket.set(keyOf(r._id), entry);
+  });
+
+  return totals
+    .map((t) => ({
+      market: t._id.market,
+      province: t._id.admin1,
+      district: t._id.admin2,
+      total: t.total,
+      flagged: t.flagged,
+      unchecked: t.unchecked,
+      flaggedRate: t.total ? t.flagged / t.total : 0,
+      reasons: reasonsByMarket.get(keyOf(t._id)) ?? {},
+      lastChecked: t.lastChecked ?? null,
+    }))
+    .sort((a: MarketQuality, b: MarketQuality) => b.flaggedRate - a.flaggedRate || a.market.localeCompare(b.market));
+}
+
+const WATCH_RULES_COLLECTION = 'watchlist_rules';
+
+type WatchRuleDocument = Omit<WatchRule, 'id'> & { _id: string };
+
+async function watchRulesCollection(): Promise<Collection<WatchRuleDocument>> {
+  const db = await getDb();
+  return db.collection(WATCH_RULES_COLLECTION);
+}
+
+function toWatchRule({ _id, ...rule }: WatchRuleDocument): WatchRule {
+  return { ...rule, id: _id };
+}
+
+const watchRules: WatchRuleStore = {
+  async list() {
+    const rules = await (await watchRulesCollection()).find().sort({ createdAt: 1 }).toArray();
+    return rules.map(toWatchRule);
+  },
+  async get(id) {
+    const rule = await (await watchRulesCollection()).findOne({ _id: id });
+    return rule ? toWatchRule(rule) : null;
+  },
+  async save({ id, ...rule }) {
+    await (await watchRulesCollection()).replaceOne({ _id: id }, rule, { upsert: true });
+  },
+  async remove(id) {
+    const result = await (await watchRulesCollection()).deleteOne({ _id: id });
+    return result.deletedCount > 0;
+  },
+};
+
+const API_KEYS_COLLECTION = 'api_keys';
+
+type ApiKeyDocument = Omit<ApiKey, 'id'> & { _id: string };
+
+let apiKeyIndexReady: Promise<unknown> | null = null;
+
+// Helper to get the keys collection, indexed on the hash requests are authenticated by
+async function apiKeysCollection(): Promise<Collection<ApiKeyDocument>> {
+  const db = await getDb();
+  const collection: Collection<ApiKeyDocument> = db.collection(API_KEYS_COLLECTION);
+  apiKeyIndexReady ??= collection.createIndex({ hash: 1 }, { unique: true });
+  await apiKeyIndexReady;
+  return collection;
+}
+
+function toApiKey({ _id, ...key }: ApiKeyDocument): ApiKey {
+  return { ...key, id: _id };
+}
+
+const apiKeys: ApiKeyStore = {
+  async list() {
+    const keys = await (await apiKeysCollection()).find().sort({ createdAt: 1 }).toArray();
+    return keys.map(toApiKey);
+  },
+  async get(id) {
+    const key = await (await apiKeysCollection()).findOne({ _id: id });
+    return key ? toApiKey(key) : null;
+  },
+  async findByHash(hash) {
+    const key = await (await apiKeysCollection()).findOne({ hash });
+    return key ? toApiKey(key) : null;
+  },
+  async save({ id, ...key }) {
+    await (await apiKeysCollection()).replaceOne({ _id: id }, key, { upsert: true });
+  },
+};
+
+// Helper to match a record by ID: ingested records have ObjectIds, others may not
+function recordIdFilter(id: string): Filter<Document> {
+  return { _id: /^[0-9a-f]{24}$/i.test(id) ? new ObjectId(id) : id } as Filter<Document>;
+}
+
+const priceRecords: PriceRecordStore = {
+  async get(locale, id) {
+    const db = await getDb();
+    return db.collection(getCollection(locale)).findOne<PriceDocument>(recordIdFilter(id));
+  },
+  async insert(locale, fields) {
+    const db = await getDb();
+    const collection = db.collection(getCollection(locale));
+    const { insertedId } = await collection.insertOne({ ...fields });
+    await invalidateCatalogue(collection);
+    return insertedId.toString();
+  },
+  async update(locale, id, fields) {
+    const db = await getDb();
+    const collection = db.collection(getCollection(locale));
+    const { matchedCount } = await collection.replaceOne(recordIdFilter(id), fields);
+    if (matchedCount) await invalidateCatalogue(collection);
+    return matchedCount > 0;
+  },
+};
+
+const AUDIT_LOG_COLLECTION = 'audit_log';
+
+type AuditEntryDocument = Omit<AuditEntry, 'id'> & { _id: string };
+
+let auditIndexReady: Promise<unknown> | null = null;
+
+// Helper to get the audit log collection, indexed for the log of one record
+async function auditLogCollection(): Promise<Collection<AuditEntryDocument>> {
+  const db = await getDb();
+  const collection: Collection<AuditEntryDocument> = db.collection(AUDIT_LOG_COLLECTION);
+  auditIndexReady ??= collection.createIndex({ locale: 1, recordId: 1, at: -1 });
+  await auditIndexReady;
+  return collection;
+}
+
+// Only inserts and reads: nothing here updates or deletes an entry
+const auditLog: AuditLogStore = {
+  async append({ id, ...entry }) {
+    await (await auditLogCollection()).insertOne({ ...entry, _id: id });
+  },
+  async list({ locale, recordId, limit, offset }) {
+    const collection = await auditLogCollection();
+    const query = { ...(locale !== undefined && { locale }), ...(recordId !== undefined && { recordId }) };
+    const [documents, total] = await Promise.all([
+      collection.find(query).sort({ at: -1, _id: -1 }).skip(offset).limit(limit).toArray(),
+      collection.countDocuments(query),
+    ]);
+    return { entries: documents.map(({ _id, ...entry }) => ({ ...entry, id: _id })), total };
+  },
+};
+
+export const mongoRepository: PriceRepository = {
+  getFilters,
+  getItemsByLocation,
+  getPriceRows,
+  countPriceRows,
+  streamPriceRows,
+  getLatestPrices,
+  getOverview,
+  getAveragesByProvince,
+  getAveragesByDistrict,
+  getMonthlyItemAverages,
+  getMarketMonthlyPrices,
+  getPriceHistory,
+  getQualityReport,
+  watchRules,
+  apiKeys,
+  priceRecords,
+  auditLog,
+  close: closeDb,
+};
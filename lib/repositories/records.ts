@@ -0,0 +1,342 @@
+import { buildCategories, buildItems, buildProvinces, resolveScope } from '../catalogue';
+import { convertPrice, Currency, DEFAULT_CURRENCY } from '../currency';
+import { isoWeek } from '../dates';
+import type {
+  DistrictAverage, FilterItem, Filters, LatestPriceRow, MarketQuality, Overview, PriceHistoryPoint,
+  MarketMonthPrice, PriceRepository, PriceRow, ProvinceAverage, ProvinceItemMonth, ScopeParams,
+} from '../db';
+import { districtIdFor, provinceIdFor } from '../identifiers';
+import { QualityFilter, QualityReason } from '../quality';
+import { normalisePrice } from '../units';
+import type { AuditLogStore, PriceRecordStore } from '../admin';
+import type { ApiKeyStore } from '../api-keys';
+import type { WatchRuleStore } from '../watchlists';
+import { Observation, PriceDocument, recordIds, SeriesKey, toLatestPriceRow, toPriceRow } from './rows';
+
+/**
+ * Price queries over plain records, shared by the SQLite and in-memory repositories
+ *
+ * A store only finds the records of a locale by location, item and quality;
+ * grouping and averaging happen here and follow the Mongo aggregations.
+ */
+
+/** Exact-match filter a record store applies */
+export type RecordFilter = {
+  admin1?: string;
+  admin2?: string;
+  market?: string;
+  commodity?: string;
+  quality?: QualityFilter;
+};
+
+export interface RecordStore {
+  /** Records of a locale matching a filter, leaving out deleted ones */
+  find(locale: string | undefined, filter: RecordFilter): Promise<PriceDocument[]>;
+  watchRules: WatchRuleStore;
+  apiKeys: ApiKeyStore;
+  priceRecords: PriceRecordStore;
+  auditLog: AuditLogStore;
+  close(): Promise<void>;
+}
+
+// Helper to read a stored price the way Mongo's $convert does
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+// Helper for a record's price in the requested currency, null if unreadable or unconvertible
+function convertedPrice(r: PriceDocument, currency: Currency = DEFAULT_CURRENCY): number | null {
+  const price = toNumber(r.price);
+  return price === null ? null : convertPrice(price, r.currency, currency, r.date);
+}
+
+// Helper for a record's converted price per kg, litre or piece
+function normalisedPrice(r: PriceDocument, currency?: Currency): number | null {
+  const price = convertedPrice(r, currency);
+  return price === null ? null : normalisePrice(price, r.unit)?.price ?? null;
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+// Helper to order newest first, then by descending ID, like the Mongo sort { date: -1, _id: -1 }
+function newestFirst(a: { date: string; _id: { toString(): string } }, b: { date: string; _id: { toString(): string } }): number {
+  return b.date.localeCompare(a.date) || b._id.toString().localeCompare(a._id.toString(), undefined, { numeric: true });
+}
+
+/**
+ * Build a repository on top of a record store
+ */
+export function createRecordRepository(store: RecordStore): PriceRepository {
+  const locations = async (locale?: string) =>
+    buildProvinces((await store.find(locale, {})).filter((r) => r.admin1));
+  const items = async (locale: string | undefined, filter: RecordFilter) =>
+    buildItems(uniqueBy((await store.find(locale, filter)).filter((r) => r.commodity), (r) => [r.commodity, r.unit, r.category]));
+
+  // Helper to find the records in scope; an ID that doesn't resolve matches nothing
+  async function findScoped(params: ScopeParams): Promise<PriceDocument[]> {
+    const scope = await resolveScope(params, {
+      locations: () => locations(params.locale),
+      items: () => items(params.locale, {}),
+    });
+    if (Object.values(scope).some((name) => name === null)) return [];
+    // Stores match one commodity exactly; a list of them is matched here
+    const { commodity, ...exact } = scope;
+    const commodities = Array.isArray(commodity) ? new Set(commodity) : null;
+    const records = await store.find(params.locale, {
+      ...(exact as RecordFilter),
+      ...(typeof commodity === 'string' && { commodity }),
+      quality: params.quality,
+    });
+    // Dates are compared as stored, like the Mongo match on the date string
+    return records.filter((r) => r.commodity && (!commodities || commodities.has(r.commodity)) &&
+      (!params.from || r.date >= params.from) && (!params.to || r.date <= params.to));
+  }
+
+  async function getFilters(locale: string = 'en'): Promise<Filters> {
+    const [provinces, catalogue] = await Promise.all([locations(locale), items(locale, {})]);
+    return { provinces, items: catalogue, categories: buildCategories(catalogue) };
+  }
+
+  async function getItemsByLocation(params: Pick<ScopeParams, 'provinceId' | 'districtId' | 'itemIds' | 'categoryIds' | 'locale'>): Promise<FilterItem[]> {
+    const records = await findScoped({ provinceId: params.provinceId, districtId: params.districtId, itemIds: params.itemIds, categoryIds: params.categoryIds, locale: params.locale });
+    return buildItems(uniqueBy(records, (r) => [r.commodity, r.unit, r.category]));
+  }
+
+  async function getPriceRows(params: ScopeParams & { limit?: number; offset?: number }): Promise<PriceRow[]> {
+    const records = await findScoped(params);
+    const offset = params.offset ?? 0;
+    return records.sort(newestFirst).slice(offset, offset + (params.limit ?? 200)).map((r) => toPriceRow(r, params.currency));
+  }
+
+  async function countPriceRows(params: ScopeParams): Promise<number> {
+    return (await findScoped(params)).length;
+  }
+
+  async function* streamPriceRows(params: ScopeParams): AsyncGenerator<PriceRow> {
+    for (const r of (await findScoped(params)).sort(newestFirst)) {
+      yield toPriceRow(r, params.currency);
+    }
+  }
+
+  async function getLatestPrices(params: ScopeParams & { limit?: number | null }): Promise<LatestPriceRow[]> {
+    const limit = params.limit === undefined ? 200 : params.limit;
+    const series = new Map<string, { key: SeriesKey; days: Map<string, Observation & { prices: number[] }> }>();
+
+    (await findScoped(params)).forEach((r) => {
+      const price = convertedPrice(r, params.currency);
+      if (price === null || price <= 0) return;
+      const key: SeriesKey = { market: r.market, admin1: r.admin1, admin2: r.admin2, commodity: r.commodity, unit: r.unit };
+      const id = JSON.stringify(key);
+      const entry = series.get(id) ?? { key, days: new Map() };
+      // Collapse same-day duplicates first so "previous" is always an earlier date
+      const day = entry.days.get(r.date) ?? {
+        id: r._id, date: r.date, price: 0, prices: [], category: r.category, quality: r.quality,
+        admin1_pcode: r.admin1_pcode, admin2_pcode: r.admin2_pcode, market_id: r.market_id, commodity_id: r.commodity_id,
+      };
+      day.prices.push(price);
+      day.price = mean(day.prices)!;
+      entry.days.set(r.date, day);
+      series.set(id, entry);
+    });
+
+    const latest = [...series.values()].map(({ key, days }) => {
+      const [newest, previous] = [...days.values()].sort((a, b) => b.date.localeCompare(a.date));
+      return { key, newest, previous };
+    });
+    latest.sort((a, b) => newestFirst({ date: a.newest.date, _id: a.newest.id }, { date: b.newest.date, _id: b.newest.id }));
+    return (limit === null ? latest : latest.slice(0, limit))
+      .map(({ key, newest, previous }) => toLatestPriceRow(key, newest, previous, params.currency));
+  }
+
+  async function getOverview(params?: ScopeParams): Promise<Overview> {
+    const records = await findScoped(params ?? {});
+    const prices = records.map((r) => normalisedPrice(r, params?.currency)).filter((p): p is number => p !== null);
+    return {
+      lastUpdated: records.reduce<string | null>((max, r) => (max === null || r.date > max ? r.date : max), null),
+      totalItems: new Set(records.map((r) => r.commodity)).size,
+      totalMarkets: new Set(records.map((r) => r.market)).size,
+      averagePrice: mean(prices),
+      currency: params?.currency ?? DEFAULT_CURRENCY,
+    };
+  }
+
+  async function getAveragesByProvince(params: Pick<ScopeParams, 'itemId' | 'itemIds' | 'categoryIds' | 'quality' | 'currency' | 'locale' | 'from' | 'to'>): Promise<ProvinceAverage[]> {
+    const provinces = new Map<string, { pcode?: string | null; prices: number[] }>();
+    (await findScoped({ itemId: params.itemId, itemIds: params.itemIds, categoryIds: params.categoryIds, quality: params.quality, locale: params.locale, from: params.from, to: params.to })).forEach((r) => {
+      const entry = provinces.get(r.admin1) ?? { pcode: r.admin1_pcode, prices: [] };
+      const price = normalisedPrice(r, params.currency);
+      if (price !== null) entry.prices.push(price);
+      provinces.set(r.admin1, entry);
+    });
+    return [...provinces.entries()]
+      .filter(([, entry]) => entry.prices.length)
+      .map(([province, entry]) => ({
+        provinceId: provinceIdFor(province, entry.pcode),
+        province,
+        averagePrice: mean(entry.prices)!,
+      }))
+      .sort((a, b) => b.averagePrice - a.averagePrice);
+  }
+
+  async function getAveragesByDistrict(params: Pick<ScopeParams, 'provinceId' | 'itemId' | 'itemIds' | 'categoryIds' | 'quality' | 'currency' | 'locale' | 'from' | 'to'>): Promise<DistrictAverage[]> {
+    const districts = new Map<string, { r: PriceDocument; prices: number[]; latitudes: number[]; longitudes: number[] }>();
+    (await findScoped({ provinceId: params.provinceId, itemId: params.itemId, itemIds: params.itemIds, categoryIds: params.categoryIds, quality: params.quality, locale: params.locale, from: params.from, to: params.to })).forEach((r) => {
+      if (!r.admin2) return;
+      const key = JSON.stringify([r.admin1, r.admin2]);
+      const entry = districts.get(key) ?? { r, prices: [], latitudes: [], longitudes: [] };
+      const price = normalisedPrice(r, params.currency);
+      const [latitude, longitude] = [toNumber(r.latitude), toNumber(r.longitude)];
+      if (price !== null) entry.prices.push(price);
+      if (latitude !== null) entry.latitudes.push(latitude);
+      if (longitude !== null) entry.longitudes.push(longitude);
+      districts.set(key, entry);
+    });
+    return [...districts.values()]
+      .filter((entry) => entry.prices.length)
+      .map(({ r, prices, latitudes, longitudes }) => {
+        const provinceId = provinceIdFor(r.admin1, r.admin1_pcode);
+        return {
+          districtId: districtIdFor(provinceId, r.admin2, r.admin2_pcode),
+          district: r.admin2,
+          provinceId,
+          averagePrice: mean(prices)!,
+          latitude: mean(latitudes),
+          longitude: mean(longitudes),
+        };
+      })
+      .sort((a, b) => b.averagePrice - a.averagePrice);
+  }
+
+  async function getMonthlyItemAverages(params: Pick<ScopeParams, 'quality' | 'currency' | 'locale' | 'from' | 'to'> & { itemIds: string[] }): Promise<ProvinceItemMonth[]> {
+    const wanted = new Set(params.itemIds);
+    const groups = new Map<string, { r: PriceDocument; period: string; prices: number[] }>();
+    (await findScoped({ quality: params.quality, locale: params.locale, from: params.from, to: params.to })).forEach((r) => {
+      const price = normalisedPrice(r, params.currency);
+      if (price === null || Number.isNaN(Date.parse(r.date)) || !wanted.has(recordIds(r).itemId)) return;
+      const period = r.date.slice(0, 7);
+      const key = JSON.stringify([r.admin1, r.commodity, period]);
+      const entry = groups.get(key) ?? { r, period, prices: [] };
+      entry.prices.push(price);
+      groups.set(key, entry);
+    });
+    return [...groups.values()]
+      .sort((a, b) => a.period.localeCompare(b.period))
+      .map(({ r, period, prices }) => ({
+        provinceId: provinceIdFor(r.admin1, r.admin1_pcode),
+        province: r.admin1,
+        itemId: recordIds(r).itemId,
+        period,
+        averagePrice: mean(prices)!,
+      }));
+  }
+
+  async function getMarketMonthlyPrices(params: ScopeParams): Promise<MarketMonthPrice[]> {
+    const groups = new Map<string, { r: PriceDocument; period: string; prices: number[] }>();
+    (await findScoped(params)).forEach((r) => {
+      const price = convertedPrice(r, params.currency);
+      if (price === null || price <= 0 || Number.isNaN(Date.parse(r.date))) return;
+      const period = r.date.slice(0, 7);
+      const key = JSON.stringify([r.admin1, r.market, r.commodity, r.unit, period]);
+      const entry = groups.get(key) ?? { r, period, prices: [] };
+      entry.prices.push(price);
+      groups.set(key, entry);
+    });
+    return [...groups.values()]
+      .sort((a, b) => a.period.localeCompare(b.period))
+      .map(({ r, period, prices }) => ({
+        provinceId: provinceIdFor(r.admin1, r.admin1_pcode),
+        province: r.admin1,
+        market: r.market,
+        itemId: recordIds(r).itemId,
+        item: r.commodity,
+        unit: r.unit,
+        period,
+        averagePrice: mean(prices)!,
+      }));
+  }
+
+  async function getPriceHistory(params: ScopeParams & { itemId: string; interval?: 'month' | 'week' }): Promise<PriceHistoryPoint[]> {
+    const periods = new Map<string, number[]>();
+    (await findScoped(params)).forEach((r) => {
+      // Per kg, litre or piece, so sizes sold in don't shift the series
+      const price = normalisedPrice(r, params.currency);
+      // Unparseable or zero prices would drag the minimum down to 0
+      if (price === null || price <= 0 || Number.isNaN(Date.parse(r.date))) return;
+      const period = params.interval === 'week' ? isoWeek(r.date) : r.date.slice(0, 7);
+      periods.set(period, [...(periods.get(period) ?? []), price]);
+    });
+    return [...periods.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([period, prices]) => ({
+        period,
+        averagePrice: mean(prices)!,
+        minPrice: Math.min(...prices),
+        maxPrice: Math.max(...prices),
+        count: prices.length,
+      }));
+  }
+
+  async function getQualityReport(params: Omit<ScopeParams, 'quality'>): Promise<MarketQuality[]> {
+    const markets = new Map<string, MarketQuality>();
+    (await findScoped(params)).forEach((r) => {
+      const key = [r.market, r.admin1, r.admin2].join('|');
+      const entry = markets.get(key) ?? {
+        market: r.market, province: r.admin1, district: r.admin2,
+        total: 0, flagged: 0, unchecked: 0, flaggedRate: 0, reasons: {}, lastChecked: null,
+      };
+      entry.total++;
+      if (!r.quality) entry.unchecked++;
+      if (r.quality?.flagged) {
+        entry.flagged++;
+        r.quality.reasons.forEach((reason: QualityReason) => {
+          entry.reasons[reason] = (entry.reasons[reason] ?? 0) + 1;
+        });
+      }
+      if (r.quality?.checkedAt && (!entry.lastChecked || r.quality.checkedAt > entry.lastChecked)) {
+        entry.lastChecked = r.quality.checkedAt;
+      }
+      entry.flaggedRate = entry.flagged / entry.total;
+      markets.set(key, entry);
+    });
+    return [...markets.values()].sort((a, b) => b.flaggedRate - a.flaggedRate || a.market.localeCompare(b.market));
+  }
+
+  return {
+    getFilters,
+    getItemsByLocation,
+    getPriceRows,
+    countPriceRows,
+    streamPriceRows,
+    getLatestPrices,
+    getOverview,
+    getAveragesByProvince,
+    getAveragesByDistrict,
+    getMonthlyItemAverages,
+    getMarketMonthlyPrices,
+    getPriceHistory,
+    getQualityReport,
+    watchRules: store.watchRules,
+    apiKeys: store.apiKeys,
+    priceRecords: store.priceRecords,
+    auditLog: store.auditLog,
+    close: () => store.close(),
+  };
+}
+
+// Helper to keep the first record of each distinct key, as the catalogue builders expect one row per item
+function uniqueBy<T>(records: T[], key: (r: T) => unknown[]): T[] {
+  const seen = new Set<string>();
+  return records.filter((r) => {
+    const id = JSON.stringify(key(r));
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
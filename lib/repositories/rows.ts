@@ -0,0 +1,143 @@
+import { convertPrice, Currency, DEFAULT_CURRENCY } from '../currency';
+import type { LatestPriceRow, PriceRow, PriceTrend } from '../db';
+import { categoryIdFor, districtIdFor, itemIdFor, marketIdFor, provinceIdFor } from '../identifiers';
+import { QualityFlag } from '../quality';
+import { normalisePrice } from '../units';
+
+/**
+ * Mapping of stored price records to API rows, shared by every repository
+ */
+
+/** Source fields that carry stable codes, when the store has them */
+export type CodedRecord = {
+  admin1: string;
+  admin2: string;
+  commodity: string;
+  admin1_pcode?: string | null;
+  admin2_pcode?: string | null;
+  market_id?: string | number | null;
+  commodity_id?: string | number | null;
+};
+
+/** A price record as stored (a Mongo document, SQLite row or fixture) */
+export type PriceDocument = CodedRecord & {
+  _id: { toString(): string };
+  category: string;
+  unit: string;
+  price: unknown;
+  currency: string;
+  date: string;
+  market: string;
+  pricetype?: string | null;
+  latitude?: unknown;
+  longitude?: unknown;
+  quality?: QualityFlag;
+  /** When the record was last changed in the admin console (ISO timestamp) */
+  edited_at?: string | null;
+  /** When the record was deleted in the admin console; deleted records are left out of every query */
+  deleted_at?: string | null;
+};
+
+/** The fields identifying a price series: one item, in one unit, in one market */
+export type SeriesKey = { market: string; admin1: string; admin2: string; commodity: string; unit: string };
+
+/** One dated observation of a series, same-day duplicates already averaged */
+export type Observation = {
+  id: { toString(): string };
+  date: string;
+  price: number;
+  category: string;
+  quality?: QualityFlag;
+} & Partial<CodedRecord>;
+
+// Helper to derive the stable IDs of a record's province, district, market, item and category
+export function recordIds(r: CodedRecord & { market: string; category: string }) {
+  const provinceId = provinceIdFor(r.admin1, r.admin1_pcode);
+  const districtId = districtIdFor(provinceId, r.admin2, r.admin2_pcode);
+  return {
+    itemId: itemIdFor(r.commodity, r.commodity_id),
+    categoryId: categoryIdFor(r.category),
+    provinceId,
+    districtId,
+    marketId: marketIdFor(districtId, r.market, r.market_id),
+  };
+}
+
+// Helper to map a stored record to the API row shape, converting its price
+// A price in a currency without exchange rates is left in that currency
+export function toPriceRow(r: PriceDocument, currency: Currency = DEFAULT_CURRENCY): PriceRow {
+  // Handle price conversion - could be number, string, or null/undefined
+  let price = 0;
+  if (typeof r.price === 'number') {
+    price = r.price;
+  } else if (typeof r.price === 'string') {
+    const parsed = parseFloat(r.price);
+    price = isNaN(parsed) ? 0 : parsed;
+  }
+
+  const converted = convertPrice(price, r.currency, currency, r.date);
+  const normalised = normalisePrice(converted ?? price, r.unit);
+  const ids = recordIds(r);
+  return {
+    id: r._id.toString(),
+    itemId: ids.itemId,
+    item: r.commodity,
+    category: r.category,
+    categoryId: ids.categoryId,
+    unit: r.unit,
+    price: converted ?? price,
+    currency: converted === null ? r.currency : currency,
+    normalisedPrice: normalised?.price ?? null,
+    normalisedUnit: normalised?.unit ?? null,
+    date: r.date,
+    provinceId: ids.provinceId,
+    province: r.admin1,
+    districtId: ids.districtId,
+    district: r.admin2,
+    marketId: ids.marketId,
+    market: r.market,
+    quality: r.quality ? { flagged: r.quality.flagged, reasons: r.quality.reasons } : null,
+  };
+}
+
+// Helper to build a latest-price row from a series' newest and previous observations
+// Prices are already converted into `currency`
+export function toLatestPriceRow(
+  series: SeriesKey,
+  latest: Observation,
+  previous: Observation | undefined,
+  currency: Currency = DEFAULT_CURRENCY
+): LatestPriceRow {
+  const ids = recordIds({ ...latest, ...series });
+  const normalised = normalisePrice(latest.price, series.unit);
+  const change = previous ? latest.price - previous.price : null;
+  let trend: PriceTrend | null = null;
+  if (change !== null) {
+    trend = change > 0 ? 'up' : change < 0 ? 'down' : 'same';
+  }
+  return {
+    id: latest.id.toString(),
+    itemId: ids.itemId,
+    item: series.commodity,
+    category: latest.category,
+    categoryId: ids.categoryId,
+    unit: series.unit,
+    price: latest.price,
+    currency,
+    normalisedPrice: normalised?.price ?? null,
+    normalisedUnit: normalised?.unit ?? null,
+    date: latest.date,
+    provinceId: ids.provinceId,
+    province: series.admin1,
+    districtId: ids.districtId,
+    district: series.admin2,
+    marketId: ids.marketId,
+    market: series.market,
+    quality: latest.quality ? { flagged: latest.quality.flagged, reasons: latest.quality.reasons } : null,
+    previousPrice: previous?.price ?? null,
+    previousDate: previous?.date ?? null,
+    change,
+    changePercent: previous && change !== null ? (change / previous.price) * 100 : null,
+    trend,
+  };
+}
@@ -0,0 +1,34 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseCsvRecords } from '../csv';
+import { getCollection } from '../db';
+import { normaliseRow, PriceRecord } from '../price-records';
+import { assessRecords, QualityFlag } from '../quality';
+
+/**
+ * The bundled sample dataset used by the offline repositories
+ *
+ * data/sample/<collection>.csv holds synthetic prices in the WFP/HDX layout for
+ * a few markets, so the dashboard can run without MongoDB. Rows go through the
+ * same normalisation and quality checks as ingested data.
+ */
+
+const SAMPLE_DIR = path.join('data', 'sample');
+
+/** A normalised sample row with its quality flag */
+export type SampleRecord = { record: PriceRecord; quality: QualityFlag };
+
+/** Read and validate the sample records of a locale */
+export function loadSampleRecords(locale?: string): SampleRecord[] {
+  const file = path.resolve(process.cwd(), SAMPLE_DIR, `${getCollection(locale)}.csv`);
+  const records = parseCsvRecords(readFileSync(file, 'utf8')).flatMap((row) => {
+    const result = normaliseRow(row);
+    return 'record' in result ? [result.record] : [];
+  });
+  const checkedAt = new Date().toISOString();
+  const reasons = assessRecords(records.map((r, index) => ({ _id: index, ...r })));
+  return records.map((record, index) => {
+    const quality: QualityFlag = { flagged: reasons[index].length > 0, reasons: reasons[index], checkedAt };
+    return { record, quality };
+  });
+}
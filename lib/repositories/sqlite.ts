@@ -0,0 +1,210 @@
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { getCollection } from '../db';
+import type { QualityFlag } from '../quality';
+import type { AuditEntry } from '../admin';
+import type { ApiKey } from '../api-keys';
+import type { WatchRule } from '../watchlists';
+import { createRecordRepository, RecordFilter } from './records';
+import type { PriceDocument } from './rows';
+import { loadSampleRecords } from './sample';
+
+/**
+ * SQLite repository: one table per locale, named like the Mongo collections
+ * A new or empty database file is filled from the bundled sample dataset
+ */
+
+const DEFAULT_FILE = path.join('data', 'food-prices.sqlite');
+
+/** Stored columns, in the order of the WFP/HDX CSV */
+const COLUMNS = [
+  'date', 'admin1', 'admin2', 'admin1_pcode', 'admin2_pcode', 'market', 'market_id', 'latitude', 'longitude',
+  'category', 'commodity', 'commodity_id', 'unit', 'priceflag', 'pricetype', 'currency', 'price', 'usdprice',
+] as const;
+
+/** Column affinities other than TEXT; NUMERIC keeps integer IDs from coming back as "52.0" */
+const COLUMN_TYPES: Partial<Record<(typeof COLUMNS)[number], string>> = {
+  market_id: 'NUMERIC',
+  commodity_id: 'NUMERIC',
+  latitude: 'REAL',
+  longitude: 'REAL',
+  price: 'REAL',
+  usdprice: 'REAL',
+};
+
+/** Columns set by the admin console (lib/admin.ts) */
+const ADMIN_COLUMNS = ['edited_at', 'deleted_at', 'source_key'] as const;
+
+const LOCALES = ['en', 'km'];
+
+type Row = Record<(typeof COLUMNS)[number] | (typeof ADMIN_COLUMNS)[number], string | number | null> & {
+  id: number;
+  quality: string | null;
+};
+
+// Helper to create a locale table and load the sample into it when it's empty
+function prepareTable(db: Database.Database, locale: string) {
+  const table = getCollection(locale);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${table} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      ${COLUMNS.map((c) => `${c} ${COLUMN_TYPES[c] ?? 'TEXT'}`).join(', ')},
+      quality TEXT,
+      quality_flagged INTEGER,
+      ${ADMIN_COLUMNS.map((c) => `${c} TEXT`).join(', ')}
+    );
+    CREATE INDEX IF NOT EXISTS ${table}_scope ON ${table} (admin1, admin2, commodity);
+  `);
+  // Files created before the admin console lack its columns
+  const existing = new Set((db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name));
+  ADMIN_COLUMNS.filter((c) => !existing.has(c)).forEach((c) => db.exec(`ALTER TABLE ${table} ADD COLUMN ${c} TEXT`));
+  const { count } = db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number };
+  if (count) return;
+
+  const insert = db.prepare(
+    `INSERT INTO ${table} (${COLUMNS.join(', ')}, quality, quality_flagged)
+     VALUES (${COLUMNS.map((c) => `@${c}`).join(', ')}, @quality, @quality_flagged)`
+  );
+  db.transaction(() => {
+    loadSampleRecords(locale).forEach(({ record, quality }) => {
+      insert.run({
+        ...Object.fromEntries(COLUMNS.map((c) => [c, record[c] ?? null])),
+        quality: JSON.stringify(quality),
+        quality_flagged: Number(quality.flagged),
+      });
+    });
+  })();
+}
+
+// Helper to map a table row back to the stored record shape
+function toDocument(row: Row): PriceDocument {
+  const { id, quality, ...fields } = row;
+  return {
+    ...(fields as Omit<PriceDocument, '_id' | 'quality'>),
+    _id: String(id),
+    quality: quality ? (JSON.parse(quality) as QualityFlag) : undefined,
+  };
+}
+
+/**
+ * Open (and if needed create) a SQLite database and build a repository on it
+ */
+export function createSqliteRepository(file: string = DEFAULT_FILE) {
+  const db = new Database(path.resolve(process.cwd(), file));
+  db.pragma('journal_mode = WAL');
+  LOCALES.forEach((locale) => prepareTable(db, locale));
+  // Rules are stored whole as JSON; they are only ever looked up by ID
+  db.exec(`CREATE TABLE IF NOT EXISTS watchlist_rules (id TEXT PRIMARY KEY, created_at TEXT, rule TEXT)`);
+  // Keys likewise, with their hash in a column of its own to authenticate requests by
+  db.exec(`CREATE TABLE IF NOT EXISTS api_keys (id TEXT PRIMARY KEY, hash TEXT UNIQUE, created_at TEXT, api_key TEXT)`);
+  // Audit entries likewise; triggers refuse to change or remove them
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (id TEXT PRIMARY KEY, at TEXT, locale TEXT, record_id TEXT, entry TEXT);
+    CREATE INDEX IF NOT EXISTS audit_log_record ON audit_log (locale, record_id);
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+  `);
+  const storedColumns = [...COLUMNS, ...ADMIN_COLUMNS];
+  const storedValues = (fields: Record<string, string | number>) =>
+    Object.fromEntries(storedColumns.map((c) => [c, fields[c] ?? null]));
+
+  return createRecordRepository({
+    async find(locale: string | undefined, filter: RecordFilter) {
+      const where: string[] = ['deleted_at IS NULL'];
+      const values: Record<string, string> = {};
+      (['admin1', 'admin2', 'market', 'commodity'] as const).forEach((field) => {
+        if (filter[field] === undefined) return;
+        where.push(`${field} = @${field}`);
+        values[field] = filter[field];
+      });
+      if (filter.quality === 'exclude') where.push('quality_flagged IS NOT 1');
+      if (filter.quality === 'only') where.push('quality_flagged = 1');
+      const sql = `SELECT * FROM ${getCollection(locale)} WHERE ${where.join(' AND ')} ORDER BY id`;
+      return (db.prepare(sql).all(values) as Row[]).map(toDocument);
+    },
+    watchRules: {
+      async list() {
+        const rows = db.prepare('SELECT rule FROM watchlist_rules ORDER BY created_at, id').all() as { rule: string }[];
+        return rows.map((r) => JSON.parse(r.rule) as WatchRule);
+      },
+      async get(id) {
+        const row = db.prepare('SELECT rule FROM watchlist_rules WHERE id = ?').get(id) as { rule: string } | undefined;
+        return row ? (JSON.parse(row.rule) as WatchRule) : null;
+      },
+      async save(rule) {
+        db.prepare('INSERT OR REPLACE INTO watchlist_rules (id, created_at, rule) VALUES (?, ?, ?)')
+          .run(rule.id, rule.createdAt, JSON.stringify(rule));
+      },
+      async remove(id) {
+        return db.prepare('DELETE FROM watchlist_rules WHERE id = ?').run(id).changes > 0;
+      },
+    },
+    apiKeys: {
+      async list() {
+        const rows = db.prepare('SELECT api_key FROM api_keys ORDER BY created_at, id').all() as { api_key: string }[];
+        return rows.map((r) => JSON.parse(r.api_key) as ApiKey);
+      },
+      async get(id) {
+        const row = db.prepare('SELECT api_key FROM api_keys WHERE id = ?').get(id) as { api_key: string } | undefined;
+        return row ? (JSON.parse(row.api_key) as ApiKey) : null;
+      },
+      async findByHash(hash) {
+        const row = db.prepare('SELECT api_key FROM api_keys WHERE hash = ?').get(hash) as { api_key: string } | undefined;
+        return row ? (JSON.parse(row.api_key) as ApiKey) : null;
+      },
+      async save(key) {
+        db.prepare('INSERT OR REPLACE INTO api_keys (id, hash, created_at, api_key) VALUES (?, ?, ?, ?)')
+          .run(key.id, key.hash, key.createdAt, JSON.stringify(key));
+      },
+    },
+    priceRecords: {
+      async get(locale, id) {
+        const row = db.prepare(`SELECT * FROM ${getCollection(locale)} WHERE id = ?`).get(id) as Row | undefined;
+        return row ? toDocument(row) : null;
+      },
+      async insert(locale, fields) {
+        const result = db.prepare(
+          `INSERT INTO ${getCollection(locale)} (${storedColumns.join(', ')})
+           VALUES (${storedColumns.map((c) => `@${c}`).join(', ')})`
+        ).run(storedValues(fields));
+        return String(result.lastInsertRowid);
+      },
+      async update(locale, id, fields) {
+        const result = db.prepare(
+          `UPDATE ${getCollection(locale)}
+           SET ${storedColumns.map((c) => `${c} = @${c}`).join(', ')}, quality = NULL, quality_flagged = NULL
+           WHERE id = @id`
+        ).run({ ...storedValues(fields), id });
+        return result.changes > 0;
+      },
+    },
+    auditLog: {
+      async append(entry) {
+        db.prepare('INSERT INTO audit_log (id, at, locale, record_id, entry) VALUES (?, ?, ?, ?, ?)')
+          .run(entry.id, entry.at, entry.locale, entry.recordId, JSON.stringify(entry));
+      },
+      async list({ locale, recordId, limit, offset }) {
+        const where: string[] = [];
+        const values: Record<string, string> = {};
+        if (locale !== undefined) {
+          where.push('locale = @locale');
+          values.locale = locale;
+        }
+        if (recordId !== undefined) {
+          where.push('record_id = @recordId');
+          values.recordId = recordId;
+        }
+        const clause = where.length ? ` WHERE ${where.join(' AND ')}` : '';
+        const { total } = db.prepare(`SELECT COUNT(*) AS total FROM audit_log${clause}`).get(values) as { total: number };
+        const rows = db.prepare(`SELECT entry FROM audit_log${clause} ORDER BY at DESC, rowid DESC LIMIT @limit OFFSET @offset`)
+          .all({ ...values, limit, offset }) as { entry: string }[];
+        return { entries: rows.map((r) => JSON.parse(r.entry) as AuditEntry), total };
+      },
+    },
+    async close() {
+      db.close();
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import { getPriceHistory, ScopeParams } from './db';
+
+/**
+ * Seasonal price profile of an item
+ *
+ * Each month's average price is divided by the mean of its calendar year; a
+ * calendar month's index is the average of those ratios over the years, given
+ * as a percent deviation (+8 means 8% above the year's mean). Only years with
+ * prices in at least MIN_MONTHS_PER_YEAR months count, since a partial year's
+ * mean leans towards the months it has.
+ */
+
+export const MIN_MONTHS_PER_YEAR = 10;
+
+export type SeasonalMonth = {
+  /** Calendar month, 1 (January) to 12 */
+  month: number;
+  /** Average percent deviation from the annual mean, null if no counted year has this month */
+  deviation: number | null;
+  /** Smallest and largest deviation of a single year */
+  low: number | null;
+  high: number | null;
+  /** Counted years with a price this month */
+  years: number;
+};
+
+export type SeasonalProfile = {
+  /** Years the index is built from, oldest first */
+  years: number[];
+  months: SeasonalMonth[];
+};
+
+/**
+ * Build the seasonal profile of an item within a scope from its monthly averages
+ */
+export async function getSeasonalProfile(params: ScopeParams & { itemId: string }): Promise<SeasonalProfile> {
+  const history = await getPriceHistory({ ...params, interval: 'month' });
+
+  // Year → calendar month → average price
+  const byYear = new Map<number, Map<number, number>>();
+  history.forEach((point) => {
+    const [year, month] = point.period.split('-').map(Number);
+    byYear.set(year, (byYear.get(year) ?? new Map()).set(month, point.averagePrice));
+  });
+  const years = [...byYear.keys()].filter((year) => byYear.get(year)!.size >= MIN_MONTHS_PER_YEAR).sort();
+
+  // Calendar month → percent deviation of each counted year
+  const deviations = new Map<number, number[]>();
+  years.forEach((year) => {
+    const prices = byYear.get(year)!;
+    const annualMean = [...prices.values()].reduce((sum, p) => sum + p, 0) / prices.size;
+    prices.forEach((price, month) => {
+      deviations.set(month, [...(deviations.get(month) ?? []), (price / annualMean - 1) * 100]);
+    });
+  });
+
+  return {
+    years,
+    months: Array.from({ length: 12 }, (_, i) => {
+      const values = deviations.get(i + 1) ?? [];
+      return {
+        month: i + 1,
+        deviation: values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null,
+        low: values.length ? Math.min(...values) : null,
+        high: values.length ? Math.max(...values) : null,
+        years: values.length,
+      };
+    }),
+  };
+}
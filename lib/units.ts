@@ -0,0 +1,88 @@
+/**
+ * Parsing of free-text units ("KG", "400 G", "Unit", "750 ML") so prices can
+ * be compared per kilogram, per litre or per piece
+ *
+ * Units with no fixed size ("Bunch", "Sack") can't be normalised and are left
+ * out of normalised averages.
+ */
+
+export type StandardUnit = 'kg' | 'L' | 'piece';
+
+/** A unit expressed as a quantity of a standard unit, e.g. "400 G" is 0.4 kg */
+export type ParsedUnit = { standard: StandardUnit; quantity: number };
+
+/** Unit words in English and Khmer with their size in the standard unit */
+const UNIT_WORDS: Record<string, ParsedUnit> = {
+  kg: { standard: 'kg', quantity: 1 },
+  kgs: { standard: 'kg', quantity: 1 },
+  kilo: { standard: 'kg', quantity: 1 },
+  kilogram: { standard: 'kg', quantity: 1 },
+  kilograms: { standard: 'kg', quantity: 1 },
+  'គីឡូក្រាម': { standard: 'kg', quantity: 1 },
+  'គីឡូ': { standard: 'kg', quantity: 1 },
+  g: { standard: 'kg', quantity: 0.001 },
+  gr: { standard: 'kg', quantity: 0.001 },
+  gram: { standard: 'kg', quantity: 0.001 },
+  grams: { standard: 'kg', quantity: 0.001 },
+  'ក្រាម': { standard: 'kg', quantity: 0.001 },
+  mt: { standard: 'kg', quantity: 1000 },
+  tonne: { standard: 'kg', quantity: 1000 },
+  lb: { standard: 'kg', quantity: 0.45359237 },
+  l: { standard: 'L', quantity: 1 },
+  ltr: { standard: 'L', quantity: 1 },
+  litre: { standard: 'L', quantity: 1 },
+  liter: { standard: 'L', quantity: 1 },
+  'លីត្រ': { standard: 'L', quantity: 1 },
+  ml: { standard: 'L', quantity: 0.001 },
+  'មីលីលីត្រ': { standard: 'L', quantity: 0.001 },
+  cl: { standard: 'L', quantity: 0.01 },
+  unit: { standard: 'piece', quantity: 1 },
+  units: { standard: 'piece', quantity: 1 },
+  piece: { standard: 'piece', quantity: 1 },
+  pieces: { standard: 'piece', quantity: 1 },
+  pc: { standard: 'piece', quantity: 1 },
+  pcs: { standard: 'piece', quantity: 1 },
+  each: { standard: 'piece', quantity: 1 },
+  'ឯកតា': { standard: 'piece', quantity: 1 },
+  'គ្រាប់': { standard: 'piece', quantity: 1 },
+  dozen: { standard: 'piece', quantity: 12 },
+};
+
+/**
+ * Parse a unit such as "KG", "400 G", "1.5 L" or "30 Pcs"
+ * Returns null for units without a known fixed size
+ */
+export function parseUnit(unit: string | null | undefined): ParsedUnit | null {
+  if (!unit) return null;
+  const text = unit
+    .normalize('NFC')
+    .replace(/[\u17e0-\u17e9]/g, (d) => String(d.charCodeAt(0) - 0x17e0)) // Khmer digits
+    .trim()
+    .toLowerCase();
+  const match = text.match(/^(\d+(?:[.,]\d+)?)?\s*([^\d\s.,]+)\.?$/u);
+  if (!match) return null;
+  const word = UNIT_WORDS[match[2]];
+  const count = match[1] ? Number(match[1].replace(',', '.')) : 1;
+  if (!word || !(count > 0)) return null;
+  return { standard: word.standard, quantity: word.quantity * count };
+}
+
+/** Price per standard unit, or null when the unit can't be normalised */
+export function normalisePrice(price: number, unit: string | null | undefined): { price: number; unit: StandardUnit } | null {
+  const parsed = parseUnit(unit);
+  return parsed ? { price: price / parsed.quantity, unit: parsed.standard } : null;
+}
+
+/**
+ * Mongo expression for the factor turning a record's price into a price per
+ * standard unit, picked by its `unit` field from the given distinct units
+ * Records in units that can't be normalised get null, so $avg skips them
+ */
+export function unitFactorExpression(units: string[]): Record<string, unknown> | null {
+  const branches = units.flatMap((unit) => {
+    const parsed = parseUnit(unit);
+    return parsed ? [{ case: { $eq: ["$unit", unit] }, then: 1 / parsed.quantity }] : [];
+  });
+  // $switch needs at least one branch
+  return branches.length ? { $switch: { branches, default: null } } : null;
+}
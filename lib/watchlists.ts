@@ -0,0 +1,368 @@
+import { createHmac, randomUUID } from 'node:crypto';
+import { lookup } from 'node:dns';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, LookupFunction } from 'node:net';
+import { CURRENCIES, Currency, DEFAULT_CURRENCY } from './currency';
+import { addMonths } from './dates';
+import { getFilters, getPriceHistory, getRepository, PriceHistoryPoint } from './db';
+import { field, InvalidField, parseValue, positiveNumber } from './query';
+import { defaultLocale, locales } from '../i18n';
+
+/**
+ * Price alert watchlists
+ *
+ * A rule watches the monthly average price of one item (per kg, litre or
+ * piece), optionally within a province or district, and fires when it is
+ * above or below a threshold or moved more than a percentage since the
+ * previous month. Rules are stored by
+ * the active repository. evaluateWatchlists runs after ingestion and on demand
+ * (POST /api/watchlists/evaluate) and POSTs what fired to WATCHLIST_WEBHOOK_URL.
+ * A rule fires at most once per month of data.
+ */
+
+export const CONDITION_TYPES = ['above', 'below', 'change'] as const;
+export const CHANGE_DIRECTIONS = ['up', 'down', 'either'] as const;
+
+export type WatchCondition =
+  | { type: 'above' | 'below'; price: number }
+  | { type: 'change'; percent: number; direction: typeof CHANGE_DIRECTIONS[number] };
+
+/** The fields of a rule a client sets */
+export type WatchRuleInput = {
+  name: string;
+  itemId: string;
+  provinceId?: string;
+  districtId?: string;
+  condition: WatchCondition;
+  currency: Currency;
+  /** Locale of the item and place names in alerts */
+  locale: string;
+  active: boolean;
+};
+
+export type WatchRule = WatchRuleInput & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Month of data the rule last fired for, so it doesn't fire again until a newer month arrives */
+  lastAlert: { period: string; sentAt: string } | null;
+};
+
+/** Storage of rules, provided by each repository */
+export interface WatchRuleStore {
+  /** Every rule, oldest first */
+  list(): Promise<WatchRule[]>;
+  get(id: string): Promise<WatchRule | null>;
+  /** Insert or replace a rule by ID */
+  save(rule: WatchRule): Promise<void>;
+  /** Returns false when there was no such rule */
+  remove(id: string): Promise<boolean>;
+}
+
+export type WatchAlert = {
+  ruleId: string;
+  ruleName: string;
+  itemId: string;
+  item: string;
+  provinceId: string | null;
+  districtId: string | null;
+  condition: WatchCondition;
+  period: string;
+  price: number;
+  previousPeriod: string | null;
+  previousPrice: number | null;
+  changePercent: number | null;
+  currency: Currency;
+  message: string;
+};
+
+export type WebhookStatus = 'sent' | 'failed' | 'not-configured' | 'dry-run' | 'nothing-to-send';
+
+export type EvaluationReport = {
+  evaluated: number;
+  alerts: WatchAlert[];
+  webhook: WebhookStatus;
+  error?: string;
+};
+
+/** Longest a webhook receiver gets to answer */
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Loopback, private, link-local and other non-public networks a webhook may not target (IPv4-mapped IPv6 too) */
+const PRIVATE_NETWORKS = new BlockList();
+[
+  '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16', '172.16.0.0/12', '192.168.0.0/16',
+  '198.18.0.0/15', '224.0.0.0/4', '240.0.0.0/4', '::/128', '::1/128', 'fc00::/7', 'fe80::/10', 'ff00::/8',
+].forEach((subnet) => {
+  const [address, prefix] = subnet.split('/');
+  PRIVATE_NETWORKS.addSubnet(address, Number(prefix), address.includes(':') ? 'ipv6' : 'ipv4');
+});
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Validate a rule from a request body
+ * With `base`, the body is a partial update applied on top of it
+ */
+export function parseRuleInput(body: unknown, base?: WatchRuleInput): { input: WatchRuleInput } | { errors: InvalidField[] } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+  const raw: Record<string, unknown> = { ...base, ...body };
+  const errors: InvalidField[] = [];
+  const read = <T>(name: string, result: { value: T } | { error: string }): T | undefined => {
+    if ('error' in result) {
+      errors.push({ field: name, message: result.error });
+      return undefined;
+    }
+    return result.value;
+  };
+
+  const itemId = read('itemId', parseValue(field.required(field.item()), raw.itemId));
+  const provinceId = read('provinceId', parseValue(field.id(), raw.provinceId));
+  const districtId = read('districtId', parseValue(field.id(), raw.districtId));
+  const currency = read('currency', parseValue(field.oneOf(CURRENCIES, DEFAULT_CURRENCY), raw.currency));
+  const locale = read('locale', parseValue(field.oneOf(locales, defaultLocale), raw.locale));
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (raw.name !== undefined && typeof raw.name !== 'string') errors.push({ field: 'name', message: 'must be a string' });
+  if (name.length > MAX_NAME_LENGTH) errors.push({ field: 'name', message: `must be at most ${MAX_NAME_LENGTH} characters` });
+  if (raw.active !== undefined && typeof raw.active !== 'boolean') errors.push({ field: 'active', message: 'must be true or false' });
+
+  let condition: WatchCondition | undefined;
+  const c = raw.condition;
+  if (typeof c !== 'object' || c === null) {
+    errors.push({ field: 'condition', message: 'is required' });
+  } else {
+    const spec = c as Record<string, unknown>;
+    const type = read('condition.type', parseValue(field.required(field.optionalOneOf(CONDITION_TYPES)), spec.type));
+    if (type === 'change') {
+      const percent = read('condition.percent', positiveNumber(spec.percent));
+      const direction = read('condition.direction', parseValue(field.oneOf(CHANGE_DIRECTIONS, 'either'), spec.direction));
+      if (percent !== undefined && direction !== undefined) condition = { type, percent, direction };
+    } else if (type) {
+      const price = read('condition.price', positiveNumber(spec.price));
+      if (price !== undefined) condition = { type, price };
+    }
+  }
+
+  if (errors.length || !itemId || !condition || !currency || !locale) return { errors };
+  return {
+    input: {
+      name: name || `${itemId} ${describeCondition(condition, currency)}`,
+      itemId,
+      provinceId,
+      districtId,
+      condition,
+      currency,
+      locale,
+      active: raw.active !== false,
+    },
+  };
+}
+
+export async function listRules(): Promise<WatchRule[]> {
+  return (await getRepository()).watchRules.list();
+}
+
+export async function getRule(id: string): Promise<WatchRule | null> {
+  return (await getRepository()).watchRules.get(id);
+}
+
+export async function createRule(input: WatchRuleInput): Promise<WatchRule> {
+  const now = new Date().toISOString();
+  const rule: WatchRule = { ...input, id: randomUUID(), createdAt: now, updatedAt: now, lastAlert: null };
+  await (await getRepository()).watchRules.save(rule);
+  return rule;
+}
+
+/**
+ * Replace the settings of a rule; returns null when there is no such rule
+ * Changing what a rule watches lets it fire again for the current month
+ */
+export async function updateRule(id: string, input: WatchRuleInput): Promise<WatchRule | null> {
+  const store = (await getRepository()).watchRules;
+  const existing = await store.get(id);
+  if (!existing) return null;
+  const watched = (r: WatchRuleInput) => JSON.stringify([r.itemId, r.provinceId, r.districtId, r.condition, r.currency]);
+  const rule: WatchRule = {
+    ...existing,
+    ...input,
+    updatedAt: new Date().toISOString(),
+    lastAlert: watched(existing) === watched(input) ? existing.lastAlert : null,
+  };
+  await store.save(rule);
+  return rule;
+}
+
+export async function deleteRule(id: string): Promise<boolean> {
+  return (await getRepository()).watchRules.remove(id);
+}
+
+function formatPrice(price: number, currency: Currency): string {
+  return `${price.toLocaleString('en-US', { maximumFractionDigits: currency === 'USD' ? 2 : 0 })} ${currency}`;
+}
+
+function describeCondition(condition: WatchCondition, currency: Currency): string {
+  if (condition.type === 'change') {
+    const direction = condition.direction === 'either' ? 'moves' : condition.direction === 'up' ? 'rises' : 'falls';
+    return `${direction} more than ${condition.percent}% month-over-month`;
+  }
+  return `${condition.type} ${formatPrice(condition.price, currency)}`;
+}
+
+/**
+ * Check a rule against a monthly price series (oldest first)
+ * Returns the alert it raises for the latest month, if any
+ */
+export function checkRule(rule: WatchRule, history: PriceHistoryPoint[], item: string): WatchAlert | null {
+  const latest = history.at(-1);
+  if (!latest) return null;
+  // Month-over-month only compares consecutive months
+  const previous = history.at(-2)?.period === addMonths(latest.period, -1) ? history.at(-2)! : null;
+  const changePercent = previous ? ((latest.averagePrice - previous.averagePrice) / previous.averagePrice) * 100 : null;
+
+  const { condition } = rule;
+  let fired = false;
+  if (condition.type === 'above') fired = latest.averagePrice > condition.price;
+  if (condition.type === 'below') fired = latest.averagePrice < condition.price;
+  if (condition.type === 'change' && changePercent !== null) {
+    fired = (condition.direction !== 'down' && changePercent >= condition.percent)
+      || (condition.direction !== 'up' && changePercent <= -condition.percent);
+  }
+  if (!fired) return null;
+
+  const change = changePercent === null ? '' : ` (${changePercent >= 0 ? '+' : ''}${changePercent.toFixed(1)}% on ${previous!.period})`;
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    itemId: rule.itemId,
+    item,
+    provinceId: rule.provinceId ?? null,
+    districtId: rule.districtId ?? null,
+    condition,
+    period: latest.period,
+    price: latest.averagePrice,
+    previousPeriod: previous?.period ?? null,
+    previousPrice: previous?.averagePrice ?? null,
+    changePercent,
+    currency: rule.currency,
+    message: `${item} averaged ${formatPrice(latest.averagePrice, rule.currency)} in ${latest.period}${change}, rule: ${describeCondition(condition, rule.currency)}`,
+  };
+}
+
+/** Whether an address is in one of PRIVATE_NETWORKS, unless WATCHLIST_WEBHOOK_ALLOW_PRIVATE is "true" */
+function isBlockedAddress(address: string, family: number): boolean {
+  return process.env.WATCHLIST_WEBHOOK_ALLOW_PRIVATE !== 'true'
+    && PRIVATE_NETWORKS.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function privateHostError(hostname: string): Error {
+  return new Error(`WATCHLIST_WEBHOOK_URL host ${hostname} is loopback or private; set WATCHLIST_WEBHOOK_ALLOW_PRIVATE=true to allow it`);
+}
+
+/**
+ * Check WATCHLIST_WEBHOOK_URL before alerts go to it: it must be http(s) and
+ * may not name a loopback or private address. A host name is checked as the
+ * webhook connects, by publicLookup; WATCHLIST_WEBHOOK_ALLOW_PRIVATE set to
+ * "true" lifts the address checks, e.g. for the local receiver
+ */
+function checkWebhookUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error('WATCHLIST_WEBHOOK_URL is not a valid URL');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error('WATCHLIST_WEBHOOK_URL must be an http or https URL');
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isBlockedAddress(host, isIP(host))) throw privateHostError(url.hostname);
+  return url;
+}
+
+/**
+ * DNS lookup for the webhook connection that fails when the host resolves to
+ * any private address. The socket connects to the addresses checked here, so
+ * a host that re-resolves to a private address after a check can't slip past
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    if (addresses.some(({ address, family }) => isBlockedAddress(address, family))) {
+      return callback(privateHostError(hostname), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * POST alerts to WATCHLIST_WEBHOOK_URL as { alerts, sentAt }
+ * With WATCHLIST_WEBHOOK_SECRET set, the body is signed in an
+ * `X-Watchlist-Signature: sha256=<hex HMAC>` header
+ */
+function sendWebhook(url: URL, alerts: WatchAlert[]): Promise<void> {
+  const body = JSON.stringify({ alerts, sentAt: new Date().toISOString() });
+  const headers: Record<string, string | number> = { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) };
+  const secret = process.env.WATCHLIST_WEBHOOK_SECRET;
+  if (secret) headers['X-Watchlist-Signature'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+  // Redirects aren't followed, as they could lead past the address check
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(url, { method: 'POST', headers, lookup: publicLookup, signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS) }, (res) => {
+      res.resume();
+      const status = res.statusCode ?? 0;
+      if (status >= 200 && status < 300) resolve();
+      else reject(new Error(`Webhook answered ${status} ${res.statusMessage ?? ''}`.trim()));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Evaluate active rules (or the given ones) and send what fired to the webhook
+ * Rules are only marked as fired once the webhook accepted the alerts, so a
+ * failed delivery is retried on the next evaluation; dry runs change nothing
+ */
+export async function evaluateWatchlists(options: { dryRun?: boolean; ruleIds?: string[] } = {}): Promise<EvaluationReport> {
+  const store = (await getRepository()).watchRules;
+  const rules = (await store.list()).filter((r) => (options.ruleIds ? options.ruleIds.includes(r.id) : r.active));
+  const itemNames = new Map<string, Map<string, string>>();
+
+  const alerts: { rule: WatchRule; alert: WatchAlert }[] = [];
+  for (const rule of rules) {
+    if (!itemNames.has(rule.locale)) {
+      const { items } = await getFilters(rule.locale);
+      itemNames.set(rule.locale, new Map(items.map((i) => [i.id, i.name])));
+    }
+    // Flagged outliers shouldn't set off alerts
+    const history = await getPriceHistory({
+      itemId: rule.itemId,
+      provinceId: rule.provinceId,
+      districtId: rule.districtId,
+      currency: rule.currency,
+      quality: 'exclude',
+      locale: rule.locale,
+      interval: 'month',
+    });
+    const alert = checkRule(rule, history, itemNames.get(rule.locale)!.get(rule.itemId) ?? rule.itemId);
+    if (alert && alert.period !== rule.lastAlert?.period) alerts.push({ rule, alert });
+  }
+
+  const report: EvaluationReport = { evaluated: rules.length, alerts: alerts.map((a) => a.alert), webhook: 'nothing-to-send' };
+  const url = process.env.WATCHLIST_WEBHOOK_URL;
+  if (!alerts.length) return report;
+  if (options.dryRun) return { ...report, webhook: 'dry-run' };
+  if (!url) return { ...report, webhook: 'not-configured' };
+
+  try {
+    await sendWebhook(checkWebhookUrl(url), report.alerts);
+  } catch (error) {
+    return { ...report, webhook: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+  const sentAt = new Date().toISOString();
+  await Promise.all(alerts.map(({ rule, alert }) => store.save({ ...rule, lastAlert: { period: alert.period, sentAt } })));
+  return { ...report, webhook: 'sent' };
+}
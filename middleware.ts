@@ -1,11 +1,26 @@
+import { NextRequest } from 'next/server';
 import createMiddleware from 'next-intl/middleware';
 import { locales, defaultLocale } from './i18n';
+import { guardApiRequest, withDashboardSession } from './lib/api-access';
 
-export default createMiddleware({
+const intlMiddleware = createMiddleware({
   locales,
   defaultLocale
 });
 
+/**
+ * /api/* requests pass the API key and rate limit checks (lib/api-access.ts);
+ * pages get their locale and a dashboard session for their own API calls
+ */
+export default async function middleware(request: NextRequest) {
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return guardApiRequest(request);
+  }
+  return withDashboardSession(request, intlMiddleware(request));
+}
+
 export const config = {
-  matcher: ['/((?!api|_next|.*\\..*).*)']
+  matcher: ['/((?!api|_next|.*\\..*).*)', '/api/:path*'],
+  // API keys are looked up in the database, out of reach of the edge runtime
+  runtime: 'nodejs'
 };
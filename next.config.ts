@@ -3,6 +3,11 @@ import createNextIntlPlugin from 'next-intl/plugin';
 
 const withNextIntl = createNextIntlPlugin('./i18n.ts');
 
-const nextConfig: NextConfig = {};
+const nextConfig: NextConfig = {
+  // Exchange rates are read from disk at runtime, so ship them with the API routes
+  outputFileTracingIncludes: {
+    '/api/**/*': ['./data/**/*'],
+  },
+};
 
 export default withNextIntl(nextConfig);
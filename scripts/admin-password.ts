@@ -0,0 +1,39 @@
+/**
+ * Print an ADMIN_USERS entry for an admin of the admin console
+ *
+ * Usage:
+ *   npm run admin:password -- --name <admin>
+ *
+ * The password is read from standard input, so it stays out of the shell
+ * history. Add the printed entry to ADMIN_USERS (comma-separated).
+ */
+import { createInterface } from 'node:readline/promises';
+import { parseArgs } from 'node:util';
+import { ADMIN_NAME_PATTERN, hashAdminPassword } from '../lib/admin-auth';
+
+const MIN_PASSWORD_LENGTH = 12;
+
+async function main() {
+  const { values } = parseArgs({ options: { name: { type: 'string', short: 'n' } } });
+  const name = values.name?.trim() ?? '';
+  if (!ADMIN_NAME_PATTERN.test(name)) {
+    console.error('--name is required: up to 50 letters, digits, "_" or "-"');
+    process.exitCode = 1;
+    return;
+  }
+
+  const prompt = createInterface({ input: process.stdin, output: process.stderr });
+  const password = await prompt.question(`Password for ${name}: `);
+  prompt.close();
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    console.error(`The password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    process.exitCode = 1;
+    return;
+  }
+  console.log(await hashAdminPassword(name, password));
+}
+
+main().catch((error) => {
+  console.error('Failed to hash the password:', error);
+  process.exitCode = 1;
+});
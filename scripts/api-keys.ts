@@ -0,0 +1,70 @@
+/**
+ * Issue, list and revoke API keys of external consumers
+ *
+ * Usage:
+ *   npm run api-keys -- issue --name "<consumer>" [--rate-limit <requests per minute>]
+ *   npm run api-keys -- list
+ *   npm run api-keys -- revoke <key ID>
+ *
+ * The secret of a key is printed once, when it is issued; only its hash is stored.
+ */
+import { parseArgs } from 'node:util';
+import { issueApiKey, listApiKeys, revokeApiKey } from '../lib/api-keys';
+import { closeDb } from '../lib/db';
+
+const MAX_NAME_LENGTH = 100;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      name: { type: 'string', short: 'n' },
+      'rate-limit': { type: 'string', short: 'r' },
+    },
+  });
+  const [command, id] = positionals;
+
+  if (command === 'issue') {
+    const name = values.name?.trim() ?? '';
+    const rateLimit = values['rate-limit'] === undefined ? null : Number(values['rate-limit']);
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      console.error(`--name is required, at most ${MAX_NAME_LENGTH} characters`);
+      process.exitCode = 1;
+      return;
+    }
+    if (rateLimit !== null && (!Number.isInteger(rateLimit) || rateLimit <= 0)) {
+      console.error(`Invalid rate limit "${values['rate-limit']}", expected a whole number of requests per minute`);
+      process.exitCode = 1;
+      return;
+    }
+    const { key, secret } = await issueApiKey({ name, rateLimit });
+    console.log(`Issued key ${key.id} to ${key.name}`);
+    console.log(`  secret (shown only now): ${secret}`);
+  } else if (command === 'list') {
+    const keys = await listApiKeys();
+    console.log(`${keys.length} keys`);
+    keys.forEach((key) => {
+      const status = key.revokedAt ? `revoked ${key.revokedAt}` : 'active';
+      const limit = key.rateLimit ? `${key.rateLimit}/min` : 'default limit';
+      console.log(`  ${key.id}  ${key.prefix}…  ${key.name}  (${limit}, issued ${key.createdAt}, ${status})`);
+    });
+  } else if (command === 'revoke' && id) {
+    const key = await revokeApiKey(id);
+    if (!key) {
+      console.error(`No key ${id}`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(`Revoked key ${key.id} (${key.name}); servers stop accepting it within a minute`);
+  } else {
+    console.error('Usage: api-keys issue --name <consumer> [--rate-limit <n>] | list | revoke <key ID>');
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('API key command failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDb());
@@ -0,0 +1,55 @@
+/**
+ * Check that places, items and categories have the same IDs in every locale
+ *
+ * Usage:
+ *   npm run check:ids
+ *
+ * Reads the catalogue of each locale from the active backend (DATA_BACKEND)
+ * and lists the IDs only some locales have, usually a district missing from
+ * the DISTRICTS gazetteer in lib/identifiers.ts. Exits with 1 when there are any.
+ */
+import { closeDb, getFilters } from '../lib/db';
+import { locales } from '../i18n';
+
+async function main() {
+  const ids = new Map<string, Map<string, Set<string>>>();
+  for (const locale of locales) {
+    const { provinces, items, categories } = await getFilters(locale);
+    const levels: Record<string, string[]> = {
+      province: provinces.map((p) => p.id),
+      district: provinces.flatMap((p) => p.districts.map((d) => d.id)),
+      market: provinces.flatMap((p) => p.districts.flatMap((d) => d.markets.map((m) => m.id))),
+      item: items.map((i) => i.id),
+      category: categories.map((c) => c.id),
+    };
+    Object.entries(levels).forEach(([level, levelIds]) => {
+      const byLocale = ids.get(level) ?? new Map<string, Set<string>>();
+      byLocale.set(locale, new Set(levelIds));
+      ids.set(level, byLocale);
+    });
+  }
+
+  let mismatches = 0;
+  ids.forEach((byLocale, level) => {
+    const all = new Set([...byLocale.values()].flatMap((set) => [...set]));
+    all.forEach((id) => {
+      const missing = locales.filter((locale) => !byLocale.get(locale)?.has(id));
+      if (!missing.length) return;
+      mismatches++;
+      console.error(`  ${level} ${id} is missing in ${missing.join(', ')}`);
+    });
+  });
+  if (mismatches) {
+    console.error(`${mismatches} IDs differ between locales`);
+    process.exitCode = 1;
+  } else {
+    console.log(`IDs match in ${locales.join(', ')}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('ID check failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDb());
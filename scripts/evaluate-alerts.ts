@@ -0,0 +1,35 @@
+/**
+ * Evaluate the price alert watchlists and send alerts to the webhook
+ *
+ * Usage:
+ *   npm run alerts:evaluate -- [--dry-run]
+ *
+ * Ingestion runs this automatically. Alerts go to WATCHLIST_WEBHOOK_URL; try
+ * `npm run alerts:receiver` to print them locally.
+ */
+import { parseArgs } from 'node:util';
+import { closeDb } from '../lib/db';
+import { evaluateWatchlists } from '../lib/watchlists';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  const report = await evaluateWatchlists({ dryRun: values['dry-run'] });
+  console.log(`Evaluated ${report.evaluated} rules, ${report.alerts.length} alerts (webhook: ${report.webhook})`);
+  report.alerts.forEach((alert) => console.log(`  ${alert.ruleName}: ${alert.message}`));
+  if (report.webhook === 'failed') {
+    console.error(`Webhook delivery failed: ${report.error}`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Evaluation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDb());
@@ -0,0 +1,48 @@
+/**
+ * Re-run data quality checks on a locale collection and store the flags
+ *
+ * Usage:
+ *   npm run validate:data -- [--locale en|km] [--threshold 5]
+ *
+ * Records with a missing location, an invalid date, a non-numeric or zero
+ * price, or a price more than --threshold MADs from its commodity/month
+ * median are flagged. Ingestion runs this automatically.
+ */
+import { parseArgs } from 'node:util';
+import { closeDb } from '../lib/mongo';
+import { validateCollection } from '../lib/ingest';
+import { DEFAULT_MAD_THRESHOLD } from '../lib/quality';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      locale: { type: 'string', short: 'l', default: 'en' },
+      threshold: { type: 'string', short: 't', default: String(DEFAULT_MAD_THRESHOLD) },
+    },
+  });
+  const threshold = Number(values.threshold);
+  if (values.locale !== 'en' && values.locale !== 'km') {
+    console.error(`Unknown locale "${values.locale}", expected en or km`);
+    process.exitCode = 1;
+    return;
+  }
+  if (!Number.isFinite(threshold) || threshold <= 0) {
+    console.error(`Invalid threshold "${values.threshold}", expected a positive number`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const summary = await validateCollection(values.locale, { threshold });
+  console.log(`Validated ${summary.checked} records (${values.locale})`);
+  console.log(`  flagged: ${summary.flagged}`);
+  Object.entries(summary.reasons).forEach(([reason, count]) => {
+    console.log(`    ${reason}: ${count}`);
+  });
+}
+
+main()
+  .catch((error) => {
+    console.error('Validation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDb());
@@ -0,0 +1,60 @@
+/**
+ * Local stand-in for a watchlist webhook: prints every alert POSTed to it
+ *
+ * Usage:
+ *   npm run alerts:receiver -- [--port 4000]
+ *
+ * Point WATCHLIST_WEBHOOK_URL at http://localhost:4000/, with
+ * WATCHLIST_WEBHOOK_ALLOW_PRIVATE=true, and stop it with Ctrl+C.
+ * With WATCHLIST_WEBHOOK_SECRET set, the signature of each delivery is checked.
+ */
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+
+// Helper to check the X-Watchlist-Signature header against the body
+function signatureMatches(body: string, header: string | undefined, secret: string): boolean {
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`);
+  const actual = Buffer.from(header ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', short: 'p', default: '4000' },
+    },
+  });
+  const secret = process.env.WATCHLIST_WEBHOOK_SECRET;
+
+  const server = createServer((req, res) => {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      if (secret && !signatureMatches(body, req.headers['x-watchlist-signature'] as string | undefined, secret)) {
+        console.error(`${new Date().toISOString()} rejected a delivery with a bad signature`);
+        res.writeHead(401).end();
+        return;
+      }
+      try {
+        const { alerts } = JSON.parse(body) as { alerts: { ruleName: string; message: string }[] };
+        console.log(`${new Date().toISOString()} received ${alerts.length} alerts`);
+        alerts.forEach((alert) => console.log(`  ${alert.ruleName}: ${alert.message}`));
+        res.writeHead(204).end();
+      } catch {
+        console.error(`${new Date().toISOString()} received a body that isn't an alert delivery`);
+        res.writeHead(400).end();
+      }
+    });
+  });
+  server.listen(Number(values.port), () => {
+    console.log(`Listening for watchlist alerts on http://localhost:${values.port}/`);
+  });
+}
+
+main();